@@ -61,7 +61,18 @@ const manifest = withOperaSidebar(
     version: packageJson.version,
     description: '__MSG_extensionDescription__',
     host_permissions: ['<all_urls>'],
-    permissions: ['storage', 'scripting', 'tabs', 'activeTab', 'debugger'],
+    permissions: [
+      'storage',
+      'unlimitedStorage',
+      'scripting',
+      'tabs',
+      'activeTab',
+      'debugger',
+      'alarms',
+      'downloads',
+      'downloads.open',
+      'tabGroups',
+    ],
     options_page: 'options/index.html',
     background: {
       service_worker: 'background.iife.js',
@@ -4,13 +4,15 @@ window.buildDomTree = (
     focusHighlightIndex: -1,
     viewportExpansion: 0,
     debugMode: false,
+    startHighlightIndex: 0,
   },
 ) => {
-  const { showHighlightElements, focusHighlightIndex, viewportExpansion, debugMode } = args;
+  const { showHighlightElements, focusHighlightIndex, viewportExpansion, debugMode, startHighlightIndex } = args;
   // Make sure to do highlight elements always, but we can hide the highlights if needed
   const doHighlightElements = true;
 
-  let highlightIndex = 0; // Reset highlight index
+  // Frames built separately continue the indexes of the frames built before them
+  let highlightIndex = startHighlightIndex || 0; // Reset highlight index
 
   // Add timing stack to handle recursion
   const TIMING_STACK = {
@@ -494,6 +496,17 @@ window.buildDomTree = (
     return index;
   }
 
+  /**
+   * Returns the closed shadow root of an element, null if it has none or the extension API is not available.
+   */
+  function getClosedShadowRoot(element) {
+    try {
+      return window.chrome?.dom?.openOrClosedShadowRoot?.(element) || null;
+    } catch (e) {
+      return null;
+    }
+  }
+
   /**
    * Returns an XPath tree string for an element.
    */
@@ -1427,6 +1440,14 @@ window.buildDomTree = (
 
       // Handle iframes
       if (tagName === 'iframe') {
+        // Position of the iframe in the frames of its window, used to match cross-origin frames built separately
+        const ownerWindow = node.ownerDocument.defaultView;
+        for (let i = 0; ownerWindow && i < ownerWindow.frames.length; i++) {
+          if (ownerWindow.frames[i] === node.contentWindow) {
+            nodeData.frameIndex = i;
+            break;
+          }
+        }
         try {
           const iframeDoc = node.contentDocument || node.contentWindow?.document;
           if (iframeDoc) {
@@ -1453,10 +1474,11 @@ window.buildDomTree = (
           if (domElement) nodeData.children.push(domElement);
         }
       } else {
-        // Handle shadow DOM
-        if (node.shadowRoot) {
+        // Handle shadow DOM, closed shadow roots are only reachable through the extension API
+        const shadowRoot = node.shadowRoot || getClosedShadowRoot(node);
+        if (shadowRoot) {
           nodeData.shadowRoot = true;
-          for (const child of node.shadowRoot.childNodes) {
+          for (const child of shadowRoot.childNodes) {
             const domElement = buildDomTree(child, parentIframe, nodeWasHighlighted);
             if (domElement) nodeData.children.push(domElement);
           }
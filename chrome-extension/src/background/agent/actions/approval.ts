@@ -0,0 +1,137 @@
+import type { ApprovalPolicyConfig } from '@extension/storage';
+import type { DOMElementNode } from '../../browser/dom/views';
+import type { DOMHistoryElement } from '../../browser/dom/history/view';
+import type { PageDialog } from '../../browser/views';
+
+// Actions that trigger whatever the element does, typing into a field named "send" is harmless
+const KEYWORD_CHECKED_ACTIONS = [
+  'click_element',
+  'click_coordinates',
+  'send_keys',
+  'select_dropdown_option',
+  'drag_element',
+];
+
+// Actions that only read the page, they may run on pages matching a URL pattern without approval
+const READ_ONLY_ACTIONS = [
+  'done',
+  'ask_user',
+  'wait',
+  'cache_content',
+  'extract_structured',
+  'query_network',
+  'request_full_state',
+  'scroll_down',
+  'scroll_up',
+  'scroll_to_text',
+  'get_dropdown_options',
+];
+
+// Attributes that tell what an element does besides its text
+const DESCRIPTIVE_ATTRIBUTES = ['type', 'value', 'name', 'id', 'title', 'aria-label', 'alt', 'href', 'formaction'];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function matchesKeyword(text: string, keyword: string): boolean {
+  const normalizedKeyword = keyword.trim().toLowerCase();
+  if (!normalizedKeyword) {
+    return false;
+  }
+  // latin keywords have to match whole words, e.g. "pay" should not match "display"
+  if (/^[\x20-\x7e]+$/.test(normalizedKeyword)) {
+    return new RegExp(`(^|[^a-z0-9])${escapeRegExp(normalizedKeyword)}($|[^a-z0-9])`).test(text);
+  }
+  return text.includes(normalizedKeyword);
+}
+
+/**
+ * Check if a URL matches a pattern of the approval policy
+ * Patterns without * match any URL containing them, otherwise the whole URL has to match
+ * @param url The URL of the page
+ * @param pattern The pattern, with or without scheme
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  const normalizedUrl = url.toLowerCase().replace(/^https?:\/\//, '');
+  const normalizedPattern = pattern
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '');
+  if (!normalizedPattern) {
+    return false;
+  }
+  if (!normalizedPattern.includes('*')) {
+    return normalizedUrl.includes(normalizedPattern);
+  }
+  return new RegExp(`^${normalizedPattern.split('*').map(escapeRegExp).join('.*')}$`).test(normalizedUrl);
+}
+
+/**
+ * Check whether a navigator action has to be approved by the user before it runs
+ * @param policy The approval policy of the user
+ * @param actionName The name of the action
+ * @param element The element the action interacts with, if any, for a click by coordinates the element at the position
+ * @param url The URL of the page the action runs on
+ * @param dialog The JavaScript dialog the action accepts, if any
+ * @param targetUrl The URL the action navigates to, if any
+ * @param relatedElements Other elements the action triggers, e.g. the drop target of a drag, or the focused element
+ * and the submit buttons of its form for keys sent to the page
+ * @returns Why the action needs approval, null if it may run without
+ */
+export function getApprovalReason(
+  policy: ApprovalPolicyConfig,
+  actionName: string,
+  element: DOMElementNode | DOMHistoryElement | null | undefined,
+  url: string,
+  dialog: PageDialog | null = null,
+  targetUrl: string | null = null,
+  relatedElements: (DOMElementNode | DOMHistoryElement)[] = [],
+): string | null {
+  if (!policy.enabled) {
+    return null;
+  }
+  if (policy.actionTypes.includes(actionName)) {
+    return `${actionName} は常に承認が必要です`;
+  }
+  if (dialog) {
+    // accepting a confirm dialog is what actually triggers e.g. the deletion the page asks about
+    const dialogUrlPattern = policy.urlPatterns.find(pattern => matchesUrlPattern(url, pattern));
+    if (dialogUrlPattern) {
+      return `${dialogUrlPattern} に一致するページのダイアログです`;
+    }
+    const keyword = policy.elementKeywords.find(word => matchesKeyword(dialog.message.toLowerCase(), word));
+    return keyword ? `「${keyword}」を含むダイアログの承諾です` : null;
+  }
+
+  if (targetUrl) {
+    const targetUrlPattern = policy.urlPatterns.find(pattern => matchesUrlPattern(targetUrl, pattern));
+    if (targetUrlPattern) {
+      return `${targetUrlPattern} に一致するページへの移動です`;
+    }
+  }
+  if (!READ_ONLY_ACTIONS.includes(actionName)) {
+    const urlPattern = policy.urlPatterns.find(pattern => matchesUrlPattern(url, pattern));
+    if (urlPattern) {
+      return `${urlPattern} に一致するページでの操作です`;
+    }
+  }
+
+  if (!KEYWORD_CHECKED_ACTIONS.includes(actionName)) {
+    return null;
+  }
+  for (const checkedElement of element ? [element, ...relatedElements] : relatedElements) {
+    const text = [
+      // the element at the position of a click is only described by its attributes
+      'getAllTextTillNextClickableElement' in checkedElement ? checkedElement.getAllTextTillNextClickableElement() : '',
+      ...DESCRIPTIVE_ATTRIBUTES.map(attribute => checkedElement.attributes[attribute] ?? ''),
+    ]
+      .join(' ')
+      .toLowerCase();
+    const keyword = policy.elementKeywords.find(word => matchesKeyword(text, word));
+    if (keyword) {
+      return `「${keyword}」を含む要素の操作です`;
+    }
+  }
+  return null;
+}
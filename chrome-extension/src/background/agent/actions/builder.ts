@@ -1,10 +1,15 @@
 import { ActionResult, type AgentContext } from '@src/background/agent/types';
 import {
   clickElementActionSchema,
+  clickCoordinatesActionSchema,
+  hoverElementActionSchema,
+  dragElementActionSchema,
   doneActionSchema,
   goBackActionSchema,
   goToUrlActionSchema,
   inputTextActionSchema,
+  uploadFileActionSchema,
+  extractStructuredActionSchema,
   openTabActionSchema,
   searchGoogleActionSchema,
   switchTabActionSchema,
@@ -18,16 +23,38 @@ import {
   getDropdownOptionsActionSchema,
   closeTabActionSchema,
   waitActionSchema,
+  askUserActionSchema,
+  waitForDownloadActionSchema,
+  handleDialogActionSchema,
+  queryNetworkActionSchema,
+  requestFullStateActionSchema,
   navigateActionSchema,
 } from './schemas';
 import { z } from 'zod';
 import { createLogger } from '@src/background/log';
+import { URLNotAllowedError } from '@src/background/browser/views';
 import { ExecutionState, Actors } from '../event/types';
 import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
-import { wrapUntrustedContent } from '../messages/utils';
+import { extractJsonFromModelOutput, removeThinkTags, wrapUntrustedContent } from '../messages/utils';
+import {
+  datasetStore,
+  matchesSiteDomain,
+  normalizeSiteDomain,
+  siteKnowledgeStore,
+  type DatasetRow,
+  type VaultCredential,
+} from '@extension/storage';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { jsonSchemaToZod, parseDatasetSchema } from './extraction';
 
 const logger = createLogger('Action');
 
+// Limit the page content sent to the extractor LLM
+const MAX_EXTRACTION_CONTENT_LENGTH = 40000;
+// Limit the API calls listed and the response body returned by query_network
+const MAX_LISTED_NETWORK_REQUESTS = 30;
+const MAX_NETWORK_BODY_LENGTH = 20000;
+
 export class InvalidInputError extends Error {
   constructor(message: string) {
     super(message);
@@ -45,6 +72,8 @@ export class Action {
     public readonly schema: ActionSchema,
     // Whether this action has an index argument
     public readonly hasIndex: boolean = false,
+    // Whether this action has x and y arguments for a position of the viewport
+    public readonly hasCoordinates: boolean = false,
   ) {}
 
   async call(input: unknown): Promise<ActionResult> {
@@ -104,6 +133,42 @@ export class Action {
     }
     return null;
   }
+
+  /**
+   * Get the index of the element the action drops on, e.g. the target of a drag
+   * @param input The input to extract the target index from
+   * @returns The target index if found, null otherwise
+   */
+  getTargetIndexArg(input: unknown): number | null {
+    if (!this.hasIndex) {
+      return null;
+    }
+    if (input && typeof input === 'object' && 'target_index' in input) {
+      const targetIndex = (input as { target_index: unknown }).target_index;
+      if (typeof targetIndex === 'number') {
+        return targetIndex;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get the coordinates arguments from the input if this action has coordinates
+   * @param input The input to extract the coordinates from
+   * @returns The position in the viewport if found, null otherwise
+   */
+  getCoordinatesArg(input: unknown): { x: number; y: number } | null {
+    if (!this.hasCoordinates) {
+      return null;
+    }
+    if (input && typeof input === 'object' && 'x' in input && 'y' in input) {
+      const { x, y } = input as { x: unknown; y: unknown };
+      if (typeof x === 'number' && typeof y === 'number') {
+        return { x, y };
+      }
+    }
+    return null;
+  }
 }
 
 // TODO: can not make every action optional, don't know why
@@ -120,6 +185,46 @@ export function buildDynamicActionSchema(actions: Action[]): z.ZodType {
   return schema;
 }
 
+function isAllowedDomain(hostname: string, domains: string[]): boolean {
+  return domains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+}
+
+/**
+ * Replace <secret>name</secret> placeholders with the values from the credential vault
+ * @param text The text written by the LLM
+ * @param credentials The unlocked credentials
+ * @param url The url of the document the text will be typed into, null if it is unknown
+ * @returns The text to type
+ */
+function resolveSecrets(text: string, credentials: VaultCredential[], url: string | null): string {
+  return text.replace(/<secret>(.*?)<\/secret>/g, (_match, name: string) => {
+    const credential = credentials.find(item => item.name === name.trim());
+    if (!credential) {
+      throw new Error(`Secret ${name} is not available - the credential vault may be locked`);
+    }
+    if (url === null) {
+      throw new Error(`Secret ${credential.name} is not typed into a frame whose URL cannot be determined`);
+    }
+    let hostname = '';
+    try {
+      hostname = new URL(url).hostname.toLowerCase();
+    } catch {
+      // invalid url, no domain is allowed
+    }
+    if (!isAllowedDomain(hostname, credential.domains)) {
+      throw new Error(`Secret ${credential.name} is not allowed on ${hostname || url}`);
+    }
+    return credential.value;
+  });
+}
+
+/**
+ * Get the name of a file from its path, the model only sees the names of the files it can upload
+ */
+export function getFileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() ?? filePath;
+}
+
 export class ActionBuilder {
   private readonly context: AgentContext;
   private readonly extractorLLM: BaseChatModel;
@@ -135,6 +240,7 @@ export class ActionBuilder {
     const done = new Action(async (input: z.infer<typeof doneActionSchema.schema>) => {
       this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, doneActionSchema.name);
       this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, input.text);
+      await this.saveSiteNotes(input.site_notes);
       return new ActionResult({
         isDone: true,
         extractedContent: input.text,
@@ -271,6 +377,121 @@ export class ActionBuilder {
     }, waitActionSchema);
     actions.push(wait);
 
+    const waitForDownload = new Action(async (input: z.infer<typeof waitForDownloadActionSchema.schema>) => {
+      const seconds = Math.min(Math.max(input.seconds ?? 30, 1), 120);
+      const intent = input.intent || 'ダウンロードを待機中';
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
+
+      const download = await this.context.downloads.waitForDownload(seconds * 1000, this.context.controller.signal);
+      if (!download) {
+        const msg = `No download was started within ${seconds} seconds`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, msg);
+        return new ActionResult({ error: msg, includeInMemory: true });
+      }
+
+      const name = getFileName(download.filename) || download.url;
+      if (download.state === 'interrupted') {
+        const msg = `Download of ${name} failed: ${download.error ?? 'unknown error'}`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, msg);
+        return new ActionResult({ error: msg, includeInMemory: true });
+      }
+      const msg =
+        download.state === 'complete'
+          ? `Downloaded ${name} (${download.fileSize} bytes, ${download.mime || 'unknown type'}) from ${download.url}`
+          : `Download of ${name} is still in progress after ${seconds} seconds: ${download.fileSize} of ${
+              download.totalBytes >= 0 ? download.totalBytes : 'unknown'
+            } bytes`;
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+      return new ActionResult({ extractedContent: msg, includeInMemory: true });
+    }, waitForDownloadActionSchema);
+    actions.push(waitForDownload);
+
+    const handleDialog = new Action(async (input: z.infer<typeof handleDialogActionSchema.schema>) => {
+      const intent = input.intent || (input.accept ? 'ダイアログを承諾' : 'ダイアログを閉じる');
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
+
+      const page = await this.context.browserContext.getCurrentPage();
+      const dialog = await page.handleDialog(input.accept, input.prompt_text ?? undefined);
+      const msg = `${input.accept ? 'Accepted' : 'Dismissed'} the ${dialog.type} dialog`;
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+      return new ActionResult({ extractedContent: msg, includeInMemory: true });
+    }, handleDialogActionSchema);
+    actions.push(handleDialog);
+
+    const queryNetwork = new Action(async (input: z.infer<typeof queryNetworkActionSchema.schema>) => {
+      const intent = input.intent || (input.request_id ? 'APIの応答を読み取り中' : 'API呼び出しを確認中');
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
+
+      const page = await this.context.browserContext.getCurrentPage();
+      if (input.request_id) {
+        const request = page.network.getRequest(input.request_id);
+        if (!request) {
+          const msg = `Request ${input.request_id} was not recorded in the current tab`;
+          this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, msg);
+          return new ActionResult({ error: msg, includeInMemory: true });
+        }
+        if (request.body === null) {
+          const msg = `The response body of ${request.method} ${request.url} is not available, only JSON responses up to 200 KB are kept`;
+          this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, msg);
+          return new ActionResult({ error: msg, includeInMemory: true });
+        }
+        const truncated = request.body.length > MAX_NETWORK_BODY_LENGTH;
+        const msg = `Response of ${request.method} ${request.url} (${request.status})${
+          truncated ? `, first ${MAX_NETWORK_BODY_LENGTH} characters` : ''
+        }:\n${wrapUntrustedContent(request.body.slice(0, MAX_NETWORK_BODY_LENGTH))}`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, `Read the response of ${request.url}`);
+        return new ActionResult({ extractedContent: msg, includeInMemory: true });
+      }
+
+      const filter = input.url_contains?.toLowerCase();
+      const requests = page.network
+        .getRequests()
+        .filter(request => !filter || request.url.toLowerCase().includes(filter))
+        .slice(-MAX_LISTED_NETWORK_REQUESTS);
+      if (requests.length === 0) {
+        const msg = filter
+          ? `No API calls matching "${input.url_contains}" were recorded`
+          : 'No API calls were recorded';
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+        return new ActionResult({ extractedContent: msg, includeInMemory: true });
+      }
+      const lines = requests.map(request => {
+        const result =
+          request.endedAt === null
+            ? 'pending'
+            : (request.error ?? `${request.status} ${request.mimeType || 'no content'}`);
+        return `[${request.id}] ${request.method} ${request.url} - ${result}${request.body !== null ? ', body available' : ''}`;
+      });
+      const msg = `Recent API calls of the current tab, oldest first:\n${lines.join('\n')}`;
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, `Found ${requests.length} API calls`);
+      return new ActionResult({ extractedContent: msg, includeInMemory: true });
+    }, queryNetworkActionSchema);
+    actions.push(queryNetwork);
+
+    // the states only list the changes of the page when they are incremental
+    if (this.context.options.incrementalState) {
+      const requestFullState = new Action(async (input: z.infer<typeof requestFullStateActionSchema.schema>) => {
+        const intent = input.intent || 'ページ全体の状態を要求';
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
+        this.context.stateDiff.requestResync();
+        const msg = 'The next state will describe every element of the page';
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+        return new ActionResult({ extractedContent: msg, includeInMemory: true });
+      }, requestFullStateActionSchema);
+      actions.push(requestFullState);
+    }
+
+    const askUser = new Action(async (input: z.infer<typeof askUserActionSchema.schema>) => {
+      const context = this.context;
+      // pause before emitting the question, the remaining actions of the step are skipped
+      context.pendingQuestion = input.question;
+      await context.pause();
+      context.emitEvent(Actors.NAVIGATOR, ExecutionState.TASK_ASK_USER, input.question);
+      // the answer is added to the memory when the user replies
+      return new ActionResult({ extractedContent: `Asked the user: ${input.question}` });
+    }, askUserActionSchema);
+    actions.push(askUser);
+
     // Element Interaction Actions
     const clickElement = new Action(
       async (input: z.infer<typeof clickElementActionSchema.schema>) => {
@@ -287,7 +508,7 @@ export class ActionBuilder {
 
         // Check if element is a file uploader
         if (page.isFileUploader(elementNode)) {
-          const msg = `Index ${input.index} - has an element which opens file upload dialog. To upload files please use a specific function to upload files`;
+          const msg = `Index ${input.index} - has an element which opens file upload dialog. To upload files please use the upload_file action`;
           logger.info(msg);
           return new ActionResult({
             extractedContent: msg,
@@ -328,6 +549,116 @@ export class ActionBuilder {
     );
     actions.push(clickElement);
 
+    // the position can only be chosen by looking at the screenshot
+    if (this.context.options.useVision) {
+      const clickCoordinates = new Action(
+        async (input: z.infer<typeof clickCoordinatesActionSchema.schema>) => {
+          const intent = input.intent || `Click at (${input.x}, ${input.y})`;
+          this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
+
+          const page = await this.context.browserContext.getCurrentPage();
+          try {
+            const initialTabIds = await this.context.browserContext.getAllTabIds();
+            await page.clickCoordinates(input.x, input.y);
+            let msg = `Clicked at (${input.x}, ${input.y})`;
+            logger.info(msg);
+
+            const currentTabIds = await this.context.browserContext.getAllTabIds();
+            const newTabId = Array.from(currentTabIds).find(id => !initialTabIds.has(id));
+            if (newTabId) {
+              msg += ' - New tab opened - switching to it';
+              await this.context.browserContext.switchTab(newTabId);
+            }
+            this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+            return new ActionResult({ extractedContent: msg, includeInMemory: true });
+          } catch (error) {
+            if (error instanceof URLNotAllowedError) {
+              throw error;
+            }
+            const errorMsg = error instanceof Error ? error.message : String(error);
+            this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, errorMsg);
+            return new ActionResult({ error: errorMsg, includeInMemory: true });
+          }
+        },
+        clickCoordinatesActionSchema,
+        false,
+        true,
+      );
+      actions.push(clickCoordinates);
+    }
+
+    const hoverElement = new Action(
+      async (input: z.infer<typeof hoverElementActionSchema.schema>) => {
+        const intent = input.intent || `Hover element with index ${input.index}`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
+
+        const page = await this.context.browserContext.getCurrentPage();
+        const state = await page.getState();
+
+        const elementNode = state?.selectorMap.get(input.index);
+        if (!elementNode) {
+          throw new Error(`Element with index ${input.index} does not exist - retry or use alternative actions`);
+        }
+
+        await page.hoverElementNode(elementNode);
+        const msg = `Hovered element with index ${input.index}: ${elementNode.getAllTextTillNextClickableElement(2)}`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+        return new ActionResult({ extractedContent: msg, includeInMemory: true });
+      },
+      hoverElementActionSchema,
+      true,
+    );
+    actions.push(hoverElement);
+
+    const dragElement = new Action(
+      async (input: z.infer<typeof dragElementActionSchema.schema>) => {
+        const hasTarget = input.target_index !== null && input.target_index !== undefined;
+        const hasOffset = Boolean(input.offset_x || input.offset_y);
+        if (hasTarget === hasOffset) {
+          throw new InvalidInputError('Either target_index or offset_x and offset_y must be provided');
+        }
+        const intent =
+          input.intent ||
+          (hasTarget
+            ? `Drag element with index ${input.index} to element with index ${input.target_index}`
+            : `Drag element with index ${input.index} by (${input.offset_x ?? 0}, ${input.offset_y ?? 0})`);
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
+
+        const page = await this.context.browserContext.getCurrentPage();
+        const state = await page.getState();
+
+        const source = state?.selectorMap.get(input.index);
+        if (!source) {
+          throw new Error(`Element with index ${input.index} does not exist - retry or use alternative actions`);
+        }
+        let target = null;
+        if (hasTarget) {
+          target = state.selectorMap.get(input.target_index as number);
+          if (!target) {
+            throw new Error(
+              `Element with index ${input.target_index} does not exist - retry or use alternative actions`,
+            );
+          }
+        }
+
+        const dropped = await page.dragElementNode(source, target, { x: input.offset_x ?? 0, y: input.offset_y ?? 0 });
+        const destination = hasTarget
+          ? `element with index ${input.target_index}`
+          : `offset (${input.offset_x ?? 0}, ${input.offset_y ?? 0})`;
+        if (!dropped) {
+          const msg = `Dragged element with index ${input.index} to ${destination}, but the page did not accept the drop`;
+          this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_FAIL, msg);
+          return new ActionResult({ error: msg, includeInMemory: true });
+        }
+        const msg = `Dragged element with index ${input.index} to ${destination}`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+        return new ActionResult({ extractedContent: msg, includeInMemory: true });
+      },
+      dragElementActionSchema,
+      true,
+    );
+    actions.push(dragElement);
+
     const inputText = new Action(
       async (input: z.infer<typeof inputTextActionSchema.schema>) => {
         const intent = input.intent || `Input text into index ${input.index}`;
@@ -341,7 +672,14 @@ export class ActionBuilder {
           throw new Error(`Element with index ${input.index} does not exist - retry or use alternative actions`);
         }
 
-        await page.inputTextElementNode(this.context.options.useVision, elementNode, input.text);
+        // the secret values are only resolved here, the message keeps the placeholders
+        // an element of a cross-origin iframe belongs to the site of the iframe, not to the site of the page
+        const text = resolveSecrets(
+          input.text,
+          this.context.credentials,
+          input.text.includes('<secret>') ? await page.getElementDocumentUrl(elementNode) : page.url(),
+        );
+        await page.inputTextElementNode(this.context.options.useVision, elementNode, text);
         const msg = `Input ${input.text} into index ${input.index}`;
         this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
         return new ActionResult({ extractedContent: msg, includeInMemory: true });
@@ -351,6 +689,40 @@ export class ActionBuilder {
     );
     actions.push(inputText);
 
+    const uploadFile = new Action(
+      async (input: z.infer<typeof uploadFileActionSchema.schema>) => {
+        const intent = input.intent || `Upload ${input.file_name} into index ${input.index}`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
+
+        // only files provided by the user can be uploaded, the model refers to them by name
+        const filePath = this.context.filePaths.find(path => getFileName(path) === input.file_name.trim());
+        if (!filePath) {
+          throw new Error(
+            `File ${input.file_name} is not available - available files: ${this.context.filePaths.map(getFileName).join(', ') || 'none'}`,
+          );
+        }
+
+        const page = await this.context.browserContext.getCurrentPage();
+        const state = await page.getState();
+
+        const elementNode = state?.selectorMap.get(input.index);
+        if (!elementNode) {
+          throw new Error(`Element with index ${input.index} does not exist - retry or use alternative actions`);
+        }
+        if (!page.isFileUploader(elementNode)) {
+          throw new Error(`Element with index ${input.index} is not a file input`);
+        }
+
+        await page.uploadFileElementNode(elementNode, filePath);
+        const msg = `Uploaded ${input.file_name} into index ${input.index}`;
+        this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, msg);
+        return new ActionResult({ extractedContent: msg, includeInMemory: true });
+      },
+      uploadFileActionSchema,
+      true,
+    );
+    actions.push(uploadFile);
+
     // Tab Management Actions
     const switchTab = new Action(async (input: z.infer<typeof switchTabActionSchema.schema>) => {
       const intent = input.intent || `Switching to tab ${input.tab_id}`;
@@ -414,6 +786,61 @@ export class ActionBuilder {
     // }, extractContentActionSchema);
     // actions.push(extractContent);
 
+    const extractStructured = new Action(async (input: z.infer<typeof extractStructuredActionSchema.schema>) => {
+      const intent = input.intent || `Extracting ${input.goal}`;
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_START, intent);
+
+      // the schema defined by the user takes precedence over the one inferred by the model
+      let schema = this.context.extractionSchema;
+      if (!schema) {
+        if (!input.schema.trim()) {
+          throw new Error('No schema defined - provide the JSON schema of one record in the schema argument');
+        }
+        schema = parseDatasetSchema(input.schema);
+      }
+      const rowSchema = jsonSchemaToZod(schema);
+
+      const page = await this.context.browserContext.getCurrentPage();
+      const content = (await page.getTextContent()).slice(0, MAX_EXTRACTION_CONTENT_LENGTH);
+      const systemMessage = new SystemMessage({
+        content: `You extract records from web pages. Extract all records matching the goal from the page and respond with a JSON object {"rows": [...]} where every row follows this JSON schema: ${JSON.stringify(schema)}. Use null for values that are not on the page, never make up values. Respond with {"rows": []} if the page contains no matching records.`,
+      });
+      const userMessage = new HumanMessage({
+        content: `Extraction goal: ${input.goal}\n\nPage ${page.url()}:\n${wrapUntrustedContent(content)}`,
+      });
+
+      const output = await this.extractorLLM.invoke([systemMessage, userMessage], {
+        signal: this.context.controller.signal,
+      });
+      const outputText = typeof output.content === 'string' ? output.content : JSON.stringify(output.content);
+      const parsed = extractJsonFromModelOutput(removeThinkTags(outputText));
+      const candidates = Array.isArray(parsed.rows) ? parsed.rows : [];
+
+      const rows: DatasetRow[] = [];
+      for (const candidate of candidates) {
+        const result = rowSchema.safeParse(candidate);
+        if (result.success) {
+          rows.push(result.data as DatasetRow);
+        } else {
+          logger.info(`Dropping invalid row: ${result.error.message}`);
+        }
+      }
+
+      const invalidCount = candidates.length - rows.length;
+      let msg = `Extracted ${rows.length} rows from ${page.url()}`;
+      if (invalidCount > 0) {
+        msg += `, dropped ${invalidCount} rows not matching the schema`;
+      }
+      if (rows.length > 0) {
+        const dataset = await datasetStore.addRows(this.context.taskId, schema, rows);
+        msg += `, ${dataset.rowCount} rows in the dataset. Extracted rows: ${JSON.stringify(rows)}`;
+      }
+      this.context.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_OK, `Extracted ${rows.length} rows`);
+      // extracted rows come from the page, they are not instructions
+      return new ActionResult({ extractedContent: wrapUntrustedContent(msg), includeInMemory: true });
+    }, extractStructuredActionSchema);
+    actions.push(extractStructured);
+
     // cache content for future use
     const cacheContent = new Action(async (input: z.infer<typeof cacheContentActionSchema.schema>) => {
       const intent = input.intent || `Caching findings: ${input.content}`;
@@ -656,4 +1083,35 @@ export class ActionBuilder {
 
     return actions;
   }
+
+  /**
+   * Save the tips the navigator learned, so that later tasks on the same websites can use them
+   * Notes are only saved for the websites the task visited, the pages must not plant notes for other sites
+   * @param notes - The notes of the done action, a missing domain means the current page
+   */
+  private async saveSiteNotes(notes: { domain: string; note: string }[]): Promise<void> {
+    if (notes.length === 0) {
+      return;
+    }
+    let currentHost: string;
+    try {
+      currentHost = normalizeSiteDomain((await this.context.browserContext.getCurrentPage()).url());
+    } catch (error) {
+      logger.warning(`Failed to save site notes: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    const visitedHosts = [...this.context.visitedHosts, currentHost];
+    for (const { domain, note } of notes) {
+      try {
+        const noteDomain = domain ? normalizeSiteDomain(domain) : currentHost;
+        if (!visitedHosts.some(host => matchesSiteDomain(noteDomain, host))) {
+          logger.warning(`Ignoring site note for ${noteDomain}, the task did not visit it`);
+          continue;
+        }
+        await siteKnowledgeStore.addNote(noteDomain, note, this.context.taskId);
+      } catch (error) {
+        logger.warning(`Failed to save site note: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
 }
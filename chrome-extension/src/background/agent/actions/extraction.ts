@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import type { DatasetSchema } from '@extension/storage';
+
+/**
+ * Parse a JSON schema of one dataset row, written by the user or the model
+ * @param text The schema as a JSON string
+ * @returns The parsed schema
+ */
+export function parseDatasetSchema(text: string): DatasetSchema {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Schema is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    throw new Error('Schema must be a JSON object');
+  }
+
+  const objectSchema = schema as DatasetSchema;
+  if (objectSchema.type !== 'object' || !objectSchema.properties || typeof objectSchema.properties !== 'object') {
+    throw new Error('Schema must be an object schema with properties, e.g. {"type": "object", "properties": {...}}');
+  }
+  return objectSchema;
+}
+
+/**
+ * Convert the subset of JSON schema used for dataset rows to a zod schema
+ * Supports string, number, integer, boolean, array, object and enum, anything else accepts any value
+ * @param schema The JSON schema
+ * @returns The zod schema validating the same values
+ */
+export function jsonSchemaToZod(schema: DatasetSchema): z.ZodTypeAny {
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return z.enum(schema.enum.map(String) as [string, ...string[]]);
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return z.string();
+    case 'number':
+      return z.number();
+    case 'integer':
+      return z.number().int();
+    case 'boolean':
+      return z.boolean();
+    case 'array':
+      return z.array(
+        schema.items && typeof schema.items === 'object' ? jsonSchemaToZod(schema.items as DatasetSchema) : z.unknown(),
+      );
+    case 'object': {
+      const properties = (schema.properties ?? {}) as Record<string, DatasetSchema>;
+      const required = Array.isArray(schema.required) ? (schema.required as string[]) : [];
+      const shape: Record<string, z.ZodTypeAny> = {};
+      for (const [key, propertySchema] of Object.entries(properties)) {
+        const propertyZod = jsonSchemaToZod(propertySchema);
+        // models tend to write null for missing values, accept it for optional properties
+        shape[key] = required.includes(key) ? propertyZod : propertyZod.nullable().optional();
+      }
+      return z.object(shape);
+    }
+    default:
+      return z.unknown();
+  }
+}
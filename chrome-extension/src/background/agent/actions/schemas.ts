@@ -12,6 +12,15 @@ export const doneActionSchema: ActionSchema = {
   schema: z.object({
     text: z.string(),
     success: z.boolean(),
+    site_notes: z
+      .array(
+        z.object({
+          domain: z.string().describe('domain of the website the note is about, e.g. example.com'),
+          note: z.string().describe('short tip for future tasks on the website'),
+        }),
+      )
+      .default([])
+      .describe('tips learned about the websites of the task, empty if nothing new was learned'),
   }),
 };
 
@@ -62,6 +71,40 @@ export const clickElementActionSchema: ActionSchema = {
   }),
 };
 
+export const clickCoordinatesActionSchema: ActionSchema = {
+  name: 'click_coordinates',
+  description:
+    'Hover and click at a position of the screenshot, only for targets without an element index such as canvas apps, maps and custom widgets. Use the coordinate marks along the edges of the screenshot',
+  schema: z.object({
+    intent: z.string().default('').describe('purpose of this action'),
+    x: z.number().int().min(0).describe('horizontal position in pixels from the left edge of the screenshot'),
+    y: z.number().int().min(0).describe('vertical position in pixels from the top edge of the screenshot'),
+  }),
+};
+
+export const hoverElementActionSchema: ActionSchema = {
+  name: 'hover_element',
+  description: 'Move the mouse over element by index, e.g. to open menus and tooltips that appear on hover',
+  schema: z.object({
+    intent: z.string().default('').describe('purpose of this action'),
+    index: z.number().int().describe('index of the element'),
+    xpath: z.string().nullable().optional().describe('xpath of the element'),
+  }),
+};
+
+export const dragElementActionSchema: ActionSchema = {
+  name: 'drag_element',
+  description:
+    'Drag element by index and drop it on another element or move it by an offset, e.g. to move cards between columns, drop files or move sliders',
+  schema: z.object({
+    intent: z.string().default('').describe('purpose of this action'),
+    index: z.number().int().describe('index of the element to drag'),
+    target_index: z.number().int().nullable().optional().describe('index of the element to drop on'),
+    offset_x: z.number().int().nullable().optional().describe('pixels to move right, negative to move left'),
+    offset_y: z.number().int().nullable().optional().describe('pixels to move down, negative to move up'),
+  }),
+};
+
 export const inputTextActionSchema: ActionSchema = {
   name: 'input_text',
   description: 'Input text into an interactive input element',
@@ -73,6 +116,16 @@ export const inputTextActionSchema: ActionSchema = {
   }),
 };
 
+export const uploadFileActionSchema: ActionSchema = {
+  name: 'upload_file',
+  description: 'Upload a file provided by the user to a file input element',
+  schema: z.object({
+    intent: z.string().default('').describe('purpose of this action'),
+    index: z.number().int().describe('index of the file input element'),
+    file_name: z.string().describe('name of the file to upload'),
+  }),
+};
+
 // Tab Management Actions
 export const switchTabActionSchema: ActionSchema = {
   name: 'switch_tab',
@@ -111,6 +164,22 @@ export const closeTabActionSchema: ActionSchema = {
 //   }),
 // };
 
+export const extractStructuredActionSchema: ActionSchema = {
+  name: 'extract_structured',
+  description:
+    'Extract records from the current page into the dataset of the task, e.g. all products with their names and prices. Use it on every page that contains records to collect',
+  schema: z.object({
+    intent: z.string().default('').describe('purpose of this action'),
+    goal: z.string().describe('what records to extract'),
+    schema: z
+      .string()
+      .default('')
+      .describe(
+        'JSON schema of one record as a JSON string, inferred from the task. Leave empty if the user defined the schema',
+      ),
+  }),
+};
+
 // Cache Actions
 export const cacheContentActionSchema: ActionSchema = {
   name: 'cache_content',
@@ -177,6 +246,57 @@ export const selectDropdownOptionActionSchema: ActionSchema = {
   }),
 };
 
+export const waitForDownloadActionSchema: ActionSchema = {
+  name: 'wait_for_download',
+  description:
+    'Wait for a file download started by a previous action, e.g. after clicking an export button, and get its file name, size and status',
+  schema: z.object({
+    intent: z.string().default('').describe('purpose of this action'),
+    seconds: z.number().int().min(1).max(120).default(30).describe('maximum seconds to wait (1-120)'),
+  }),
+};
+
+export const handleDialogActionSchema: ActionSchema = {
+  name: 'handle_dialog',
+  description:
+    'Accept or dismiss the JavaScript dialog (alert, confirm, prompt or leave page confirmation) that blocks the page',
+  schema: z.object({
+    intent: z.string().default('').describe('purpose of this action'),
+    accept: z.boolean().describe('true to press OK or leave the page, false to cancel'),
+    prompt_text: z.string().nullable().optional().describe('text to enter into a prompt dialog'),
+  }),
+};
+
+export const queryNetworkActionSchema: ActionSchema = {
+  name: 'query_network',
+  description:
+    'List the recent API calls (XHR and fetch requests) of the current tab, or read the JSON response of one of them. The data a page loads from its API is more reliable than the rendered text of e.g. a dashboard',
+  schema: z.object({
+    intent: z.string().default('').describe('purpose of this action'),
+    url_contains: z.string().nullable().optional().describe('only list the requests whose URL contains this text'),
+    request_id: z.string().nullable().optional().describe('id of a listed request to read its response body'),
+  }),
+};
+
+export const requestFullStateActionSchema: ActionSchema = {
+  name: 'request_full_state',
+  description:
+    'Describe every element of the page with its attributes in the next state instead of only the changes since the previous step',
+  schema: z.object({
+    intent: z.string().default('').describe('purpose of this action'),
+  }),
+};
+
+export const askUserActionSchema: ActionSchema = {
+  name: 'ask_user',
+  description:
+    'Ask the user a question and wait for the answer, e.g. which account to use, which of several matching items to pick or a 2FA code. Only use it when guessing could do the wrong thing.',
+  schema: z.object({
+    intent: z.string().default('').describe('purpose of this action'),
+    question: z.string().describe('a single, specific question for the user'),
+  }),
+};
+
 export const waitActionSchema: ActionSchema = {
   name: 'wait',
   description:
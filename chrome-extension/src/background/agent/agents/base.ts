@@ -2,15 +2,21 @@ import type { z } from 'zod';
 import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import type { AgentContext, AgentOutput } from '../types';
 import type { BasePrompt } from '../prompts/base';
-import type { BaseMessage } from '@langchain/core/messages';
+import type { AIMessage, BaseMessage } from '@langchain/core/messages';
 import { createLogger } from '@src/background/log';
 import type { Action } from '../actions/builder';
 import { convertInputMessages, extractJsonFromModelOutput, removeThinkTags } from '../messages/utils';
-import { isAbortedError, RequestCancelledError } from './errors';
-import { TokenUsageManager } from '@extension/storage';
+import { getRetryAfterSeconds, isAbortedError, isTransientError } from './errors';
+import { calculateCost, llmUsageStore, TokenUsageManager } from '@extension/storage';
+import { Actors, ExecutionState } from '../event/types';
 
 const logger = createLogger('agent');
 
+// Retries of a call that failed with a transient error before the error fails the step
+const MAX_TRANSIENT_RETRIES = 3;
+// Longest wait before a retry, even if the provider asks for more
+const MAX_RETRY_WAIT_SECONDS = 120;
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type CallOptions = Record<string, any>;
 
@@ -136,6 +142,7 @@ export abstract class BaseAgent<T extends z.ZodType, M = unknown> {
 
     let response;
     let success = false;
+    const startTime = Date.now();
 
     try {
       // Use structured output
@@ -147,18 +154,22 @@ export abstract class BaseAgent<T extends z.ZodType, M = unknown> {
         });
         logger.info('🔧 Structured LLM created, making API call...');
 
-        response = await structuredLlm.invoke(inputMessages, {
-          signal: this.context.controller.signal,
-          ...this.callOptions,
-        });
+        response = await this.callWithRetry(inputMessages, () =>
+          structuredLlm.invoke(inputMessages, {
+            signal: this.context.controller.signal,
+            ...this.callOptions,
+          }),
+        );
 
         logger.info('📡 API call completed, checking response...');
+        const usdCost = await this.recordUsage(response.raw);
+        this.recordTrace(inputMessages, response.raw, null, startTime);
 
         if (response.parsed) {
           logger.info('✅ Response parsed successfully');
           success = true;
-          // Consume tokens on successful completion
-          await TokenUsageManager.consumeTokens(this.modelName, this.id);
+          // Consume tokens for the real usage on successful completion
+          await TokenUsageManager.consumeTokens(this.modelName, this.id, usdCost);
           return response.parsed;
         }
         logger.error('❌ Failed to parse response', response);
@@ -169,12 +180,16 @@ export abstract class BaseAgent<T extends z.ZodType, M = unknown> {
         const convertedInputMessages = convertInputMessages(inputMessages, this.modelName);
         logger.info('🔧 Input messages converted, making API call...');
 
-        response = await this.chatLLM.invoke(convertedInputMessages, {
-          signal: this.context.controller.signal,
-          ...this.callOptions,
-        });
+        response = await this.callWithRetry(convertedInputMessages, () =>
+          this.chatLLM.invoke(convertedInputMessages, {
+            signal: this.context.controller.signal,
+            ...this.callOptions,
+          }),
+        );
 
         logger.info('📡 API call completed, processing response...');
+        const usdCost = await this.recordUsage(response);
+        this.recordTrace(convertedInputMessages, response, null, startTime);
 
         if (typeof response.content === 'string') {
           response.content = removeThinkTags(response.content);
@@ -184,8 +199,8 @@ export abstract class BaseAgent<T extends z.ZodType, M = unknown> {
             if (parsed) {
               logger.info('✅ Response processed successfully');
               success = true;
-              // Consume tokens on successful completion
-              await TokenUsageManager.consumeTokens(this.modelName, this.id);
+              // Consume tokens for the real usage on successful completion
+              await TokenUsageManager.consumeTokens(this.modelName, this.id, usdCost);
               return parsed;
             }
           } catch (error) {
@@ -200,6 +215,10 @@ export abstract class BaseAgent<T extends z.ZodType, M = unknown> {
       }
     } catch (error) {
       logger.error('❌ Invoke error:', error);
+      // the call itself failed, a response that could not be parsed is already in the trace
+      if (!response) {
+        this.recordTrace(inputMessages, null, error, startTime);
+      }
       if (isAbortedError(error)) {
         throw error;
       }
@@ -214,6 +233,97 @@ export abstract class BaseAgent<T extends z.ZodType, M = unknown> {
     }
   }
 
+  /**
+   * Call the model, retrying transient failures of the provider with exponential backoff starting at retryDelay,
+   * or after the time the provider asked for. Retried failures do not count as failures of the step.
+   * @param inputMessages - The messages of the call, for the execution trace
+   * @param call - Makes the call to the model
+   */
+  private async callWithRetry<R>(inputMessages: BaseMessage[], call: () => Promise<R>): Promise<R> {
+    for (let attempt = 1; ; attempt++) {
+      const startTime = Date.now();
+      try {
+        return await call();
+      } catch (error) {
+        if (attempt > MAX_TRANSIENT_RETRIES || !isTransientError(error)) {
+          throw error;
+        }
+        this.recordTrace(inputMessages, null, error, startTime);
+
+        const backoff = this.context.options.retryDelay * 2 ** (attempt - 1);
+        const waitSeconds = Math.min(getRetryAfterSeconds(error) ?? backoff, MAX_RETRY_WAIT_SECONDS);
+        logger.warning(
+          `Transient error from ${this.modelName}, retrying in ${waitSeconds}s (${attempt}/${MAX_TRANSIENT_RETRIES})`,
+          error,
+        );
+        const actor = Object.values(Actors).find(actor => actor === this.id);
+        if (actor) {
+          await this.context.emitEvent(
+            actor,
+            ExecutionState.STEP_RETRY,
+            `モデルが一時的に利用できません。${Math.ceil(waitSeconds)}秒後に再試行します (${attempt}/${MAX_TRANSIENT_RETRIES})`,
+          );
+        }
+        await this.waitForRetry(waitSeconds);
+      }
+    }
+  }
+
+  // Sleep before a retry, the wait ends early with an abort error when the task is cancelled
+  private async waitForRetry(seconds: number): Promise<void> {
+    const signal = this.context.controller.signal;
+    signal.throwIfAborted();
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, seconds * 1000);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  // Record the tokens reported by the provider for the current step of the task, returns their cost if known
+  private async recordUsage(message: BaseMessage): Promise<number | null> {
+    const usage = (message as AIMessage).usage_metadata;
+    if (!usage) {
+      logger.debug(`No usage metadata returned by ${this.modelName}`);
+      return null;
+    }
+    const cost = calculateCost(this.modelName, usage.input_tokens, usage.output_tokens);
+    try {
+      await llmUsageStore.addRecord(this.context.taskId, {
+        agent: this.id,
+        model: this.modelName,
+        step: this.context.nSteps,
+        inputTokens: usage.input_tokens,
+        outputTokens: usage.output_tokens,
+        totalTokens: usage.total_tokens,
+        cost,
+        timestamp: Date.now(),
+      });
+    } catch (error) {
+      logger.error('Failed to record usage:', error);
+    }
+    return cost;
+  }
+
+  // Add the prompt and the raw response (or the error) of a call to the execution trace
+  private recordTrace(inputMessages: BaseMessage[], response: BaseMessage | null, error: unknown, startTime: number) {
+    this.context.trace?.recordLLMCall(
+      this.id,
+      this.modelName,
+      this.context.nSteps,
+      inputMessages,
+      response,
+      error,
+      startTime,
+    );
+  }
+
   // Execute the agent and return the result
   abstract execute(): Promise<AgentOutput<M>>;
 
@@ -110,3 +110,120 @@ export class RequestCancelledError extends Error {
     this.name = 'RequestCancelledError';
   }
 }
+
+// HTTP statuses of failures that go away by themselves, 529 is the overloaded status of Anthropic
+const TRANSIENT_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504, 529]);
+
+const TRANSIENT_ERROR_NAMES = new Set([
+  'RateLimitError',
+  'InternalServerError',
+  'APIConnectionError',
+  'APIConnectionTimeoutError',
+  'TimeoutError',
+]);
+
+const TRANSIENT_MESSAGE_PATTERNS = [
+  'rate limit',
+  'too many requests',
+  'overloaded',
+  'service unavailable',
+  'bad gateway',
+  'gateway timeout',
+  'timed out',
+  'timeout',
+  'econnreset',
+  'econnrefused',
+  'failed to fetch',
+  'network error',
+  'networkerror',
+  'fetch failed',
+];
+
+/**
+ * Get the HTTP status of an error thrown by a provider SDK, if any
+ */
+function getErrorStatus(error: Error): number | undefined {
+  const { status, response } = error as Error & { status?: unknown; response?: { status?: unknown } };
+  if (typeof status === 'number') return status;
+  if (typeof response?.status === 'number') return response.status;
+  // some SDKs only keep the status in the message, e.g. "429 Too Many Requests" or "status code 503"
+  const match = error.message.match(/(?:^|status(?: code)?:?\s*)(\d{3})\b/i);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Checks if an error is a temporary failure of the provider, i.e. rate limiting, overload, timeout or network error,
+ * so that the same call can succeed when retried later
+ *
+ * @param error - The error to check
+ * @returns boolean indicating if it's a transient error
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!(error instanceof Error) || isAbortedError(error)) return false;
+
+  const errorMessage = error.message.toLowerCase();
+  // the quota of the account is used up, waiting does not help
+  if (errorMessage.includes('insufficient_quota') || errorMessage.includes('exceeded your current quota')) {
+    return false;
+  }
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return TRANSIENT_STATUSES.has(status);
+  }
+  if (TRANSIENT_ERROR_NAMES.has(error.name) || TRANSIENT_ERROR_NAMES.has(error.constructor?.name)) {
+    return true;
+  }
+  return TRANSIENT_MESSAGE_PATTERNS.some(pattern => errorMessage.includes(pattern));
+}
+
+/**
+ * Parse the value of a Retry-After header, either seconds or an HTTP date
+ */
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value : null;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? seconds : null;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max((date - Date.now()) / 1000, 0);
+}
+
+/**
+ * Gets how long the provider asked to wait before retrying, from the Retry-After header of the response
+ * or the retryAfter field of the error body sent by the rate limiter of the backend service
+ *
+ * @param error - The error to check
+ * @returns The time to wait in seconds, null if the provider did not say
+ */
+export function getRetryAfterSeconds(error: unknown): number | null {
+  if (!(error instanceof Error)) return null;
+
+  const {
+    headers,
+    response,
+    error: body,
+  } = error as Error & {
+    headers?: unknown;
+    response?: { headers?: unknown };
+    error?: { retryAfter?: unknown };
+  };
+  for (const source of [headers, response?.headers]) {
+    if (!source || typeof source !== 'object') continue;
+    const get = (name: string): unknown =>
+      typeof (source as Headers).get === 'function'
+        ? (source as Headers).get(name)
+        : (source as Record<string, unknown>)[name];
+    const retryAfterMs = parseRetryAfter(get('retry-after-ms'));
+    if (retryAfterMs !== null) return retryAfterMs / 1000;
+    const retryAfter = parseRetryAfter(get('retry-after'));
+    if (retryAfter !== null) return retryAfter;
+  }
+  return parseRetryAfter(body?.retryAfter);
+}
@@ -4,6 +4,8 @@ import { createLogger } from '@src/background/log';
 import { ActionResult, type AgentOutput } from '../types';
 import type { Action } from '../actions/builder';
 import { buildDynamicActionSchema } from '../actions/builder';
+import { getApprovalReason } from '../actions/approval';
+import { fingerprintActions, fingerprintPage } from '../utils/loopDetection';
 import { agentBrainSchema } from '../types';
 import { type BaseMessage, HumanMessage } from '@langchain/core/messages';
 import { Actors, ExecutionState } from '../event/types';
@@ -17,12 +19,24 @@ import {
   LLM_FORBIDDEN_ERROR_MESSAGE,
   RequestCancelledError,
 } from './errors';
-import { calcBranchPathHashSet } from '@src/background/browser/dom/views';
-import { URLNotAllowedError } from '@src/background/browser/views';
+import { calcBranchPathHashSet, DOMElementNode } from '@src/background/browser/dom/views';
+import { HistoryTreeProcessor } from '@src/background/browser/dom/history/service';
+import type { DOMHistoryElement } from '@src/background/browser/dom/history/view';
+import { type PageDialog, URLNotAllowedError } from '@src/background/browser/views';
+import {
+  askUserActionSchema,
+  doneActionSchema,
+  handleDialogActionSchema,
+  sendKeysActionSchema,
+} from '@src/background/agent/actions/schemas';
 import { convertZodToJsonSchema, repairJsonString } from '@src/background/utils';
+import { llmUsageStore, normalizeSiteDomain, type RecordedElement } from '@extension/storage';
 
 const logger = createLogger('NavigatorAgent');
 
+// Actions that can run while a JavaScript dialog blocks the page
+const DIALOG_ALLOWED_ACTIONS = [handleDialogActionSchema.name, askUserActionSchema.name, doneActionSchema.name];
+
 export class NavigatorActionRegistry {
   private actions: Record<string, Action> = {};
 
@@ -57,6 +71,24 @@ export interface NavigatorResult {
   done: boolean;
 }
 
+/**
+ * Serializable snapshot of an element for a recording
+ */
+function toRecordedElement(historyElement: DOMHistoryElement): RecordedElement {
+  return {
+    tagName: historyElement.tagName,
+    xpath: historyElement.xpath,
+    highlightIndex: historyElement.highlightIndex,
+    entireParentBranchPath: historyElement.entireParentBranchPath,
+    attributes: historyElement.attributes,
+    shadowRoot: historyElement.shadowRoot,
+    cssSelector: historyElement.cssSelector,
+    pageCoordinates: historyElement.pageCoordinates,
+    viewportCoordinates: historyElement.viewportCoordinates,
+    viewportInfo: historyElement.viewportInfo,
+  };
+}
+
 export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
   private actionRegistry: NavigatorActionRegistry;
   private jsonSchema: Record<string, unknown>;
@@ -158,11 +190,16 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
       }
       // remove the last state message from memory before adding the model output
       this.removeLastStateMessageFromMemory();
+      const sentState = this.context.options.incrementalState ? this.context.stateDiff.commit() : null;
+      if (sentState?.incremental) {
+        await this.recordStateTokensSaved(sentState.tokensSaved);
+      }
       this.addModelOutputToMemory(modelOutput);
 
       // take the actions
       const actionResults = await this.doMultiAction(modelOutput);
       this.context.actionResults = actionResults;
+      this.context.trace?.recordActionResults(this.context.nSteps, actionResults);
 
       // check if the task is paused or stopped
       if (this.context.paused || this.context.stopped) {
@@ -261,6 +298,20 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
     this.context.stateMessageAdded = false;
   }
 
+  /**
+   * Add the tokens an incremental state saved over the full state to the usage of the task
+   */
+  private async recordStateTokensSaved(tokens: number) {
+    if (tokens <= 0) {
+      return;
+    }
+    try {
+      await llmUsageStore.addStateTokensSaved(this.context.taskId, tokens);
+    } catch (error) {
+      logger.error('Failed to record the tokens saved by the incremental state:', error);
+    }
+  }
+
   private async addModelOutputToMemory(modelOutput: this['ModelOutput']) {
     const messageManager = this.context.messageManager;
     messageManager.addModelOutput(modelOutput);
@@ -302,7 +353,21 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
 
     const browserContext = this.context.browserContext;
     const browserState = await browserContext.getState(this.context.options.useVision);
+    if (/^https?:/.test(browserState.url)) {
+      this.context.visitedHosts.add(normalizeSiteDomain(browserState.url));
+    }
     const cachedPathHashes = await calcBranchPathHashSet(browserState);
+    this.context.loopDetector.record({
+      actions: fingerprintActions(actions),
+      page: await fingerprintPage(
+        browserState.url,
+        browserState.pixelsAbove,
+        cachedPathHashes,
+        browserState.elementTree.clickableElementsToString(this.context.options.includeAttributes),
+      ),
+    });
+    // the state the index of the current action refers to
+    let currentState = browserState;
 
     await browserContext.removeHighlight();
 
@@ -336,19 +401,80 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
             );
             break;
           }
+          currentState = newState;
         }
 
+        // the page does not respond until its dialog is handled
+        const dialog = (await browserContext.getCurrentPage()).dialog;
+        if (dialog && !DIALOG_ALLOWED_ACTIONS.includes(actionName)) {
+          results.push(
+            new ActionResult({
+              error: `A ${dialog.type} dialog blocks the page, handle it with ${handleDialogActionSchema.name} before ${actionName}`,
+              includeInMemory: true,
+            }),
+          );
+          break;
+        }
+
+        const interactedElement = indexArg !== null ? currentState.selectorMap.get(indexArg) : undefined;
+        const targetIndexArg = actionInstance.getTargetIndexArg(actionArgs);
+        const targetElement = targetIndexArg !== null ? currentState.selectorMap.get(targetIndexArg) : undefined;
+        // what a click by coordinates hits can only be described before the click
+        let pointElement: DOMHistoryElement | null = null;
+        const coordinatesArg = actionInstance.getCoordinatesArg(actionArgs);
+        if (coordinatesArg !== null) {
+          const page = await browserContext.getCurrentPage();
+          pointElement = await page.getElementAtPoint(coordinatesArg.x, coordinatesArg.y).catch(error => {
+            logger.warning('Failed to get the element at the clicked position', error);
+            return null;
+          });
+        }
+        const acceptedDialog =
+          actionName === handleDialogActionSchema.name && (actionArgs as { accept?: boolean }).accept ? dialog : null;
+        if (
+          !(await this.approveAction(
+            actionName,
+            actionArgs,
+            interactedElement ?? pointElement,
+            currentState.url,
+            acceptedDialog,
+            targetElement ? [targetElement] : [],
+          ))
+        ) {
+          if (this.context.stopped) {
+            return results;
+          }
+          results.push(
+            new ActionResult({
+              error: `The user rejected the action ${actionName}, do not try it again unless the user asks for it`,
+              includeInMemory: true,
+            }),
+          );
+          break;
+        }
         const result = await actionInstance.call(actionArgs);
         if (result === undefined) {
           throw new Error(`Action ${actionName} returned undefined`);
         }
         results.push(result);
+        if (!result.error) {
+          const historyElement = interactedElement
+            ? HistoryTreeProcessor.convertDomElementToHistoryElement(interactedElement)
+            : pointElement;
+          this.recordAction(
+            actionName,
+            actionArgs as Record<string, unknown>,
+            historyElement,
+            targetElement ? HistoryTreeProcessor.convertDomElementToHistoryElement(targetElement) : null,
+            currentState.url,
+          );
+        }
         // check if the task is paused or stopped
         if (this.context.paused || this.context.stopped) {
           return results;
         }
-        // TODO: wait for 1 second for now, need to optimize this to avoid unnecessary waiting
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        // wait for the page to react to the action before the next one
+        await browserContext.waitForPageSettled();
       } catch (error) {
         if (error instanceof URLNotAllowedError) {
           throw error;
@@ -377,4 +503,99 @@ export class NavigatorAgent extends BaseAgent<z.ZodType, NavigatorResult> {
     }
     return results;
   }
+
+  /**
+   * Wait for the approval of the user if the action matches the approval policy,
+   * also used for the actions replayed from a recording
+   * @param relatedElements Other elements the action triggers, e.g. the drop target of a drag
+   * @returns false if the user rejected the action
+   */
+  async approveAction(
+    actionName: string,
+    actionArgs: unknown,
+    actionElement: DOMElementNode | DOMHistoryElement | null | undefined,
+    url: string,
+    dialog: PageDialog | null,
+    relatedElements: (DOMElementNode | DOMHistoryElement)[] = [],
+  ): Promise<boolean> {
+    const policy = this.context.approvalPolicy;
+    if (!policy?.enabled) {
+      return true;
+    }
+    if (actionName === sendKeysActionSchema.name) {
+      // the keys go to the focused element, e.g. Enter submits its form
+      relatedElements = [...relatedElements, ...(await this.getFocusedElements())];
+    }
+    const targetUrl = (actionArgs as { url?: unknown } | null)?.url;
+    const reason = getApprovalReason(
+      policy,
+      actionName,
+      actionElement,
+      url,
+      dialog,
+      typeof targetUrl === 'string' ? targetUrl : null,
+      relatedElements,
+    );
+    if (!reason) {
+      return true;
+    }
+
+    const element = actionElement ?? relatedElements[0];
+    let screenshot: string | null = null;
+    if (element) {
+      try {
+        const page = await this.context.browserContext.getCurrentPage();
+        // the element at the position of a click by coordinates cannot be outlined, the position is in the arguments
+        screenshot =
+          element instanceof DOMElementNode
+            ? await page.takeHighlightedScreenshot(element)
+            : await page.takeScreenshot();
+      } catch (error) {
+        logger.warning('Failed to take a screenshot of the element to approve', error);
+      }
+    }
+
+    const elementText = element instanceof DOMElementNode ? element.getAllTextTillNextClickableElement() : '';
+    let target = element ? ` <${element.tagName}> ${elementText}`.trimEnd() : '';
+    if (dialog) {
+      target = ` ${dialog.type}: ${dialog.message}`;
+    }
+    const details = `承認待ち: ${actionName}${target} — ${reason}\n${JSON.stringify(actionArgs)}`;
+    logger.info(`Waiting for approval of ${actionName}: ${reason}`);
+    return await this.context.waitForApproval(details, screenshot);
+  }
+
+  /**
+   * The focused element and the submit buttons of its form, empty if they are not known
+   */
+  private async getFocusedElements(): Promise<DOMElementNode[]> {
+    try {
+      const page = await this.context.browserContext.getCurrentPage();
+      return await page.getFocusedElements();
+    } catch (error) {
+      logger.warning('Failed to get the focused element', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record an executed action together with the elements it interacted with,
+   * so that the run can be replayed later without calling the LLM
+   */
+  private recordAction(
+    actionName: string,
+    actionArgs: Record<string, unknown>,
+    historyElement: DOMHistoryElement | null,
+    targetHistoryElement: DOMHistoryElement | null,
+    url: string,
+  ) {
+    this.context.recordedActions.push({
+      name: actionName,
+      args: actionArgs,
+      element: historyElement ? toRecordedElement(historyElement) : null,
+      targetElement: targetHistoryElement ? toRecordedElement(targetHistoryElement) : null,
+      url,
+      step: this.context.nSteps,
+    });
+  }
 }
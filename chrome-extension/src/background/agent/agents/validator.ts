@@ -60,6 +60,8 @@ export class ValidatorAgent extends BaseAgent<typeof validatorOutputSchema, Vali
         const mergedMessage = new HumanMessage(`${stateMessage.content}\n\nThe current plan is: \n${this.plan}`);
         stateMessage = mergedMessage;
       }
+      // the page may show secrets typed by the navigator
+      stateMessage = this.context.messageManager.filterSensitiveData(stateMessage);
       // logger.info('validator input', stateMessage);
 
       const systemMessage = this.prompt.getSystemMessage();
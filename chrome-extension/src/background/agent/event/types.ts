@@ -35,17 +35,23 @@ export enum ExecutionState {
   TASK_PAUSE = 'task.pause',
   TASK_RESUME = 'task.resume',
   TASK_CANCEL = 'task.cancel',
+  // The navigator asked the user a question, the task is paused until it is answered
+  TASK_ASK_USER = 'task.ask_user',
 
   // Step level states
   STEP_START = 'step.start',
   STEP_OK = 'step.ok',
   STEP_FAIL = 'step.fail',
   STEP_CANCEL = 'step.cancel',
+  // The call to the model failed temporarily, e.g. rate limited, and is retried after a wait
+  STEP_RETRY = 'step.retry',
 
   // Action/Tool level states
   ACT_START = 'act.start',
   ACT_OK = 'act.ok',
   ACT_FAIL = 'act.fail',
+  // The action matched the approval policy and waits for the user
+  ACT_WAIT_APPROVAL = 'act.wait_approval',
 }
 
 export interface EventData {
@@ -57,6 +63,8 @@ export interface EventData {
   maxSteps: number;
   /** details is the content of the event */
   details: string;
+  /** screenshot is a base64 encoded jpeg attached to the event, e.g. the element of an action to approve */
+  screenshot?: string;
 }
 
 export class AgentEvent {
@@ -1,5 +1,5 @@
 import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
-import { AgentContext, type AgentOptions } from './types';
+import { ActionResult, AgentContext, type AgentOptions } from './types';
 import { NavigatorAgent, NavigatorActionRegistry } from './agents/navigator';
 import { PlannerAgent, type PlannerOutput } from './agents/planner';
 import { ValidatorAgent } from './agents/validator';
@@ -7,15 +7,33 @@ import { NavigatorPrompt } from './prompts/navigator';
 import { PlannerPrompt } from './prompts/planner';
 import { ValidatorPrompt } from './prompts/validator';
 import { createLogger } from '@src/background/log';
-import MessageManager from './messages/service';
+import MessageManager, { MessageManagerSettings } from './messages/service';
 import type BrowserContext from '../browser/context';
-import { ActionBuilder } from './actions/builder';
+import { ActionBuilder, getFileName } from './actions/builder';
+import { doneActionSchema, handleDialogActionSchema } from './actions/schemas';
 import { EventManager } from './event/manager';
 import { Actors, type EventCallback, EventType, ExecutionState } from './event/types';
 import { ChatModelAuthError, ChatModelForbiddenError, RequestCancelledError } from './agents/errors';
 import { wrapUntrustedContent } from './messages/utils';
 import { URLNotAllowedError } from '../browser/views';
 import { detectLanguage } from './utils/languageDetection';
+import { MAX_LOOP_CORRECTIONS } from './utils/loopDetection';
+import { HumanMessage } from '@langchain/core/messages';
+import {
+  executorCheckpointStore,
+  recordingStore,
+  type ExecutorCheckpoint,
+  type RecordedAction,
+  type RecordedElement,
+  type Recording,
+  type VaultCredential,
+  type DatasetSchema,
+  type ApprovalPolicyConfig,
+} from '@extension/storage';
+import { TraceRecorder } from './trace/recorder';
+import { HistoryTreeProcessor } from '../browser/dom/history/service';
+import { DOMHistoryElement } from '../browser/dom/history/view';
+import type { DOMElementNode } from '../browser/dom/views';
 const logger = createLogger('Executor');
 
 export interface ExecutorExtraArgs {
@@ -23,6 +41,48 @@ export interface ExecutorExtraArgs {
   validatorLLM?: BaseChatModel;
   extractorLLM?: BaseChatModel;
   agentOptions?: Partial<AgentOptions>;
+  credentials?: VaultCredential[];
+  filePaths?: string[];
+  extractionSchema?: DatasetSchema | null;
+  approvalPolicy?: ApprovalPolicyConfig | null;
+  // Save a checkpoint after each step so that the user can resume the task after a restart
+  saveCheckpoints?: boolean;
+}
+
+// Loop state of execute() that has to survive a restart of the service worker
+interface ResumeState {
+  step: number;
+  webTask: boolean | undefined;
+  validatorFailed: boolean;
+}
+
+/**
+ * Find the element of a recorded action on the current page
+ * @returns The element with its current highlight index, null if it is not on the page or not interactive
+ */
+async function findRecordedElement(
+  recordedElement: RecordedElement,
+  elementTree: DOMElementNode,
+): Promise<DOMElementNode | null> {
+  const { tagName, xpath, highlightIndex, entireParentBranchPath, attributes, shadowRoot, cssSelector } =
+    recordedElement;
+  const historyElement = new DOMHistoryElement(
+    tagName,
+    xpath,
+    highlightIndex,
+    entireParentBranchPath,
+    attributes,
+    shadowRoot,
+    cssSelector,
+    recordedElement.pageCoordinates ?? null,
+    recordedElement.viewportCoordinates ?? null,
+    recordedElement.viewportInfo ?? null,
+  );
+  const element = await HistoryTreeProcessor.findHistoryElementInTree(historyElement, elementTree);
+  if (element === null || element.highlightIndex === null) {
+    return null;
+  }
+  return element;
 }
 
 export class Executor {
@@ -33,7 +93,10 @@ export class Executor {
   private readonly plannerPrompt: PlannerPrompt;
   private readonly navigatorPrompt: NavigatorPrompt;
   private readonly validatorPrompt: ValidatorPrompt;
+  private readonly actionRegistry: NavigatorActionRegistry;
   private tasks: string[] = [];
+  private resumeState: ResumeState | null = null;
+  private readonly saveCheckpoints: boolean;
   constructor(
     task: string,
     taskId: string,
@@ -41,7 +104,17 @@ export class Executor {
     navigatorLLM: BaseChatModel,
     extraArgs?: Partial<ExecutorExtraArgs>,
   ) {
-    const messageManager = new MessageManager();
+    const credentials = extraArgs?.credentials ?? [];
+    const filePaths = extraArgs?.filePaths ?? [];
+    const messageManager = new MessageManager(
+      new MessageManagerSettings({
+        sensitiveData:
+          credentials.length > 0
+            ? Object.fromEntries(credentials.map(credential => [credential.name, credential.value]))
+            : undefined,
+        availableFilePaths: filePaths.map(getFileName),
+      }),
+    );
 
     const plannerLLM = extraArgs?.plannerLLM ?? navigatorLLM;
     const validatorLLM = extraArgs?.validatorLLM ?? navigatorLLM;
@@ -54,6 +127,12 @@ export class Executor {
       eventManager,
       extraArgs?.agentOptions ?? {},
     );
+    context.credentials = credentials;
+    context.filePaths = filePaths;
+    context.extractionSchema = extraArgs?.extractionSchema ?? null;
+    context.approvalPolicy = extraArgs?.approvalPolicy ?? null;
+    this.saveCheckpoints = extraArgs?.saveCheckpoints ?? true;
+    context.trace = new TraceRecorder(taskId, task, browserContext, messageManager, context.options.traceScreenshots);
 
     this.tasks.push(task);
 
@@ -67,6 +146,7 @@ export class Executor {
 
     const actionBuilder = new ActionBuilder(context, extractorLLM);
     const navigatorActionRegistry = new NavigatorActionRegistry(actionBuilder.buildDefaultActions());
+    this.actionRegistry = navigatorActionRegistry;
 
     // Initialize agents with their respective prompts
     this.navigator = new NavigatorAgent(navigatorActionRegistry, {
@@ -89,7 +169,13 @@ export class Executor {
 
     this.context = context;
     // Initialize message history
-    this.context.messageManager.initTaskMessages(this.navigatorPrompt.getSystemMessage(), task);
+    this.context.messageManager.initTaskMessages(
+      this.navigatorPrompt.getSystemMessage(),
+      task,
+      context.extractionSchema
+        ? `Collect the records with extract_structured and leave its schema empty, the user defined the schema of one record: ${JSON.stringify(context.extractionSchema)}`
+        : undefined,
+    );
   }
 
   subscribeExecutionEvents(callback: EventCallback): void {
@@ -101,12 +187,61 @@ export class Executor {
     this.context.eventManager.clearSubscribers(EventType.EXECUTION);
   }
 
-  addFollowUpTask(task: string): void {
+  addFollowUpTask(task: string, filePaths: string[] = []): void {
     this.tasks.push(task);
     this.context.messageManager.addNewTask(task);
+    this.addFilePaths(filePaths);
     // update validator prompt
     this.validatorPrompt.addFollowUpTask(task);
+    this.updateLanguage(task);
+
+    // need to reset previous action results that are not included in memory
+    this.context.actionResults = this.context.actionResults.filter(result => result.includeInMemory);
+  }
+
+  /**
+   * Restore the state saved in a checkpoint, the next call of execute() continues from the saved step
+   *
+   * @param checkpoint the checkpoint saved by a previous executor of the same task
+   */
+  restoreCheckpoint(checkpoint: ExecutorCheckpoint): void {
+    for (const task of checkpoint.tasks.slice(1)) {
+      this.tasks.push(task);
+      this.validatorPrompt.addFollowUpTask(task);
+      this.updateLanguage(task);
+    }
 
+    const context = this.context;
+    context.messageManager.restoreMessages(checkpoint.messages);
+    context.nSteps = checkpoint.nSteps;
+    context.consecutiveFailures = checkpoint.consecutiveFailures;
+    context.consecutiveValidatorFailures = checkpoint.consecutiveValidatorFailures;
+    context.actionResults = checkpoint.actionResults.map(result => new ActionResult(result));
+    context.recordedActions = checkpoint.recordedActions;
+    context.filePaths = checkpoint.filePaths;
+    context.extractionSchema = checkpoint.extractionSchema;
+
+    this.resumeState = {
+      step: checkpoint.step,
+      webTask: checkpoint.webTask ?? undefined,
+      validatorFailed: checkpoint.validatorFailed,
+    };
+  }
+
+  private addFilePaths(filePaths: string[]): void {
+    const newFilePaths = filePaths.filter(path => !this.context.filePaths.includes(path));
+    if (newFilePaths.length === 0) {
+      return;
+    }
+    this.context.filePaths.push(...newFilePaths);
+    this.context.messageManager.addMessageWithTokens(
+      new HumanMessage({
+        content: `The user provided more files you can upload: ${newFilePaths.map(getFileName).join(', ')}`,
+      }),
+    );
+  }
+
+  private updateLanguage(task: string): void {
     // Detect the language of the new task and update context & prompts so that
     // subsequent planner/navigator/validator steps use the correct language.
     const detectedLanguage = detectLanguage(task);
@@ -117,9 +252,6 @@ export class Executor {
     this.navigatorPrompt.setLanguage(detectedLanguage);
     this.plannerPrompt.setLanguage(detectedLanguage);
     this.validatorPrompt.setLanguage(detectedLanguage);
-
-    // need to reset previous action results that are not included in memory
-    this.context.actionResults = this.context.actionResults.filter(result => result.includeInMemory);
   }
 
   /**
@@ -129,19 +261,28 @@ export class Executor {
    */
   async execute(): Promise<void> {
     logger.info(`🚀 Executing task: ${this.tasks[this.tasks.length - 1]}`);
-    // reset the step counter
     const context = this.context;
-    context.nSteps = 0;
+    const resumeState = this.resumeState;
+    this.resumeState = null;
+    // reset the step counter, unless resuming from a checkpoint
+    if (!resumeState) {
+      context.nSteps = 0;
+      context.loopDetector.reset();
+      context.loopCorrections = 0;
+    }
     const allowedMaxSteps = this.context.options.maxSteps;
+    context.downloads.start();
+    context.browserContext.setNetworkListener(context.network.record);
 
     try {
       this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_START, this.context.taskId);
 
       let done = false;
       let step = 0;
-      let validatorFailed = false;
-      let webTask = undefined;
-      for (step = 0; step < allowedMaxSteps; step++) {
+      let validatorFailed = resumeState?.validatorFailed ?? false;
+      let looping = false;
+      let webTask = resumeState?.webTask;
+      for (step = resumeState?.step ?? 0; step < allowedMaxSteps; step++) {
         context.stepInfo = {
           stepNumber: context.nSteps,
           maxSteps: context.options.maxSteps,
@@ -153,8 +294,9 @@ export class Executor {
         }
 
         // Run planner if configured
-        if (this.planner && (context.nSteps % context.options.planningInterval === 0 || validatorFailed)) {
+        if (this.planner && (context.nSteps % context.options.planningInterval === 0 || validatorFailed || looping)) {
           validatorFailed = false;
+          looping = false;
           // The first planning step is special, we don't want to add the browser state message to memory
           let positionForPlan = 0;
           if (this.tasks.length > 1 || step > 0) {
@@ -199,6 +341,8 @@ export class Executor {
         // execute the navigation step
         if (!done) {
           done = await this.navigate();
+          // let the planner revise the plan when the navigator is stuck
+          looping = !done && this.checkForLoop();
         }
 
         // validate the output
@@ -215,18 +359,92 @@ export class Executor {
             throw new Error('Too many failures of validation');
           }
         }
+
+        await this.saveCheckpoint({ step: step + 1, webTask, validatorFailed });
+        await context.trace?.flush();
       }
 
       if (done) {
+        await this.saveRecording();
+        await executorCheckpointStore.clearCheckpoint(this.context.taskId);
         this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_OK, this.context.taskId);
       } else if (step >= allowedMaxSteps) {
         logger.info('❌ Task failed: Max steps reached');
+        await executorCheckpointStore.clearCheckpoint(this.context.taskId);
         this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_FAIL, 'Task failed: Max steps reached');
       } else if (this.context.stopped) {
+        await executorCheckpointStore.clearCheckpoint(this.context.taskId);
         this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_CANCEL, 'Task cancelled');
       } else {
+        // the task is resumed from the side panel, not offered as interrupted after a restart
+        await executorCheckpointStore.markPaused(this.context.taskId);
         this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_PAUSE, 'Task paused');
       }
+    } catch (error) {
+      await executorCheckpointStore.clearCheckpoint(this.context.taskId);
+      if (error instanceof RequestCancelledError) {
+        this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_CANCEL, 'Task cancelled');
+      } else {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_FAIL, `Task failed: ${errorMessage}`);
+      }
+    } finally {
+      await this.context.trace?.flush();
+    }
+  }
+
+  /**
+   * Replay a recorded run without calling the LLMs.
+   * Elements are re-located by their hash in the current DOM tree, if one can not be found anymore,
+   * the agent takes over and completes the task from the current page.
+   *
+   * @param recording the recording to replay
+   */
+  async replay(recording: Recording): Promise<void> {
+    logger.info(`🔁 Replaying ${recording.actions.length} actions of task: ${recording.task}`);
+    const context = this.context;
+    context.nSteps = 0;
+    context.downloads.start();
+    context.browserContext.setNetworkListener(context.network.record);
+
+    try {
+      this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_START, this.context.taskId);
+
+      for (const [i, recordedAction] of recording.actions.entries()) {
+        if (await this.shouldStop()) {
+          break;
+        }
+        context.nSteps = recordedAction.step;
+
+        const replayed = await this.replayAction(recordedAction, recording.createdAt);
+        if (!replayed) {
+          logger.info(`Element of action ${i + 1} / ${recording.actions.length} not found, falling back to the agent`);
+          this.context.emitEvent(
+            Actors.NAVIGATOR,
+            ExecutionState.ACT_FAIL,
+            `Element for ${recordedAction.name} not found, continuing with the agent`,
+          );
+          const replayedActions = recording.actions
+            .slice(0, i)
+            .map(action => JSON.stringify({ [action.name]: action.args }));
+          this.context.messageManager.addMessageWithTokens(
+            new HumanMessage(
+              `The following actions were replayed from a previous run of this task: [${replayedActions.join(', ')}]. ` +
+                'The next recorded action could not be replayed because its element was not found on the page. ' +
+                'Continue the task from the current page.',
+            ),
+          );
+          return await this.execute();
+        }
+      }
+
+      if (this.context.stopped) {
+        this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_CANCEL, 'Task cancelled');
+      } else {
+        // the replayed actions are already recorded, only a run the agent had to complete is saved again
+        logger.info('✅ Replay completed successfully');
+        this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_OK, this.context.taskId);
+      }
     } catch (error) {
       if (error instanceof RequestCancelledError) {
         this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_CANCEL, 'Task cancelled');
@@ -234,6 +452,164 @@ export class Executor {
         const errorMessage = error instanceof Error ? error.message : String(error);
         this.context.emitEvent(Actors.SYSTEM, ExecutionState.TASK_FAIL, `Task failed: ${errorMessage}`);
       }
+    } finally {
+      await this.context.trace?.flush();
+    }
+  }
+
+  /**
+   * Replay a single recorded action
+   *
+   * @param recordedAt when the recording was made, the result of done is from that time
+   * @returns false if the element the action interacted with can not be found on the current page
+   */
+  private async replayAction(recordedAction: RecordedAction, recordedAt: number): Promise<boolean> {
+    const actionInstance = this.actionRegistry.getAction(recordedAction.name);
+    if (actionInstance === undefined) {
+      throw new Error(`Action ${recordedAction.name} not exists`);
+    }
+
+    const browserContext = this.context.browserContext;
+    const args = { ...recordedAction.args };
+    if (recordedAction.name === doneActionSchema.name) {
+      // the values in the text were extracted by the recorded run, they may be outdated by now
+      args.text = `The recorded actions were replayed. The following result is from the recorded run on ${new Date(
+        recordedAt,
+      ).toLocaleString()} and may be outdated:\n${String(args.text ?? '')}`;
+      args.site_notes = [];
+    }
+    let interactedElement: DOMElementNode | DOMHistoryElement | null = null;
+    let targetElement: DOMElementNode | null = null;
+    const coordinatesArg = actionInstance.getCoordinatesArg(args);
+    if (coordinatesArg !== null) {
+      if (!(await this.restoreClickPosition(coordinatesArg, recordedAction))) {
+        return false;
+      }
+      const page = await browserContext.getCurrentPage();
+      interactedElement = await page.getElementAtPoint(coordinatesArg.x, coordinatesArg.y).catch(error => {
+        logger.warning('Failed to get the element at the clicked position', error);
+        return null;
+      });
+    } else if (recordedAction.element) {
+      const browserState = await browserContext.getState(this.context.options.useVision);
+      await browserContext.removeHighlight();
+      const element = await findRecordedElement(recordedAction.element, browserState.elementTree);
+      if (element === null) {
+        return false;
+      }
+      // the indexes may have changed since the recording
+      args.index = element.highlightIndex;
+      interactedElement = element;
+      if (actionInstance.getTargetIndexArg(args) !== null) {
+        // recordings saved before the target of a drag was recorded can not tell where to drop
+        targetElement = recordedAction.targetElement
+          ? await findRecordedElement(recordedAction.targetElement, browserState.elementTree)
+          : null;
+        if (targetElement === null) {
+          return false;
+        }
+        args.target_index = targetElement.highlightIndex;
+      }
+    }
+
+    // a replayed run may act on other data than the recorded one, e.g. a new order, so the policy applies again
+    const page = await browserContext.getCurrentPage();
+    const acceptedDialog = recordedAction.name === handleDialogActionSchema.name && args.accept ? page.dialog : null;
+    if (
+      !(await this.navigator.approveAction(
+        recordedAction.name,
+        args,
+        interactedElement,
+        page.url(),
+        acceptedDialog,
+        targetElement ? [targetElement] : [],
+      ))
+    ) {
+      if (this.context.stopped) {
+        return true;
+      }
+      throw new Error(`The user rejected the replayed action ${recordedAction.name}`);
+    }
+
+    const result = await actionInstance.call(args);
+    if (result.error) {
+      throw new Error(result.error);
+    }
+    this.context.recordedActions.push({ ...recordedAction, args });
+
+    await browserContext.waitForPageSettled();
+    return true;
+  }
+
+  /**
+   * Scroll the page back to where a click by coordinates was recorded and check that the position
+   * still hits the same element
+   *
+   * @returns false if a different element is at the position now
+   */
+  private async restoreClickPosition(
+    position: { x: number; y: number },
+    recordedAction: RecordedAction,
+  ): Promise<boolean> {
+    const recordedElement = recordedAction.element;
+    if (!recordedElement) {
+      return true;
+    }
+    const page = await this.context.browserContext.getCurrentPage();
+    if (recordedElement.viewportInfo) {
+      await page.scrollTo(recordedElement.viewportInfo.scrollX, recordedElement.viewportInfo.scrollY);
+    }
+    const element = await page.getElementAtPoint(position.x, position.y);
+    if (element?.tagName !== recordedElement.tagName || element.xpath !== recordedElement.xpath) {
+      logger.info(
+        `Position (${position.x}, ${position.y}) hits ${element ? `<${element.tagName}> ${element.xpath}` : 'nothing'}, ` +
+          `recorded <${recordedElement.tagName}> ${recordedElement.xpath}`,
+      );
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Save the state of the executor after a completed step, so that the task can be resumed
+   * if the service worker is terminated while the task is running
+   */
+  private async saveCheckpoint(resumeState: ResumeState): Promise<void> {
+    const context = this.context;
+    if (!this.saveCheckpoints) {
+      return;
+    }
+    try {
+      const currentPage = await context.browserContext.getCurrentPage();
+      await executorCheckpointStore.saveCheckpoint({
+        taskId: context.taskId,
+        tasks: [...this.tasks],
+        tabId: currentPage?.tabId ?? null,
+        step: resumeState.step,
+        nSteps: context.nSteps,
+        consecutiveFailures: context.consecutiveFailures,
+        consecutiveValidatorFailures: context.consecutiveValidatorFailures,
+        validatorFailed: resumeState.validatorFailed,
+        webTask: resumeState.webTask ?? null,
+        messages: context.messageManager.serializeMessages(),
+        actionResults: context.actionResults.map(result => ({ ...result })),
+        recordedActions: context.recordedActions,
+        filePaths: context.filePaths,
+        extractionSchema: context.extractionSchema,
+      });
+    } catch (error) {
+      logger.error(`Failed to save checkpoint: ${error}`);
+    }
+  }
+
+  private async saveRecording(): Promise<void> {
+    if (this.context.recordedActions.length === 0) {
+      return;
+    }
+    try {
+      await recordingStore.saveRecording(this.context.taskId, this.tasks[0], this.context.recordedActions);
+    } catch (error) {
+      logger.error(`Failed to save recording: ${error}`);
     }
   }
 
@@ -277,6 +653,38 @@ export class Executor {
     return false;
   }
 
+  /**
+   * Check if the navigator keeps repeating itself without progress. The first times it is told to change
+   * its approach, if it still loops afterwards the task fails.
+   * @returns true if a loop was detected
+   */
+  private checkForLoop(): boolean {
+    const context = this.context;
+    const reason = context.loopDetector.detect();
+    if (!reason) {
+      // the corrections only add up while the agent makes no progress in between
+      if (context.loopDetector.changedPage()) {
+        context.loopCorrections = 0;
+      }
+      return false;
+    }
+    if (context.loopCorrections >= MAX_LOOP_CORRECTIONS) {
+      throw new Error(`Agent is looping: ${reason}`);
+    }
+    context.loopCorrections++;
+    context.loopDetector.reset();
+    logger.warning(`Loop detected (${context.loopCorrections} / ${MAX_LOOP_CORRECTIONS}): ${reason}`);
+    context.emitEvent(Actors.NAVIGATOR, ExecutionState.STEP_FAIL, `同じ操作を繰り返しています: ${reason}`);
+    context.messageManager.addMessageWithTokens(
+      new HumanMessage(
+        `You are stuck in a loop: ${reason}. Repeating these actions will not complete the task. ` +
+          'Do not repeat them, reconsider what is blocking the progress and take a different approach, ' +
+          'e.g. another element, another page, scrolling to find the target, or ask the user if you can not continue.',
+      ),
+    );
+    return true;
+  }
+
   private async shouldStop(): Promise<boolean> {
     if (this.context.stopped) {
       logger.info('Agent stopped');
@@ -310,7 +718,36 @@ export class Executor {
     this.context.pause();
   }
 
+  /**
+   * Answer the question asked with the ask_user action and resume the task
+   *
+   * @param answer the answer of the user
+   */
+  async answerQuestion(answer: string): Promise<void> {
+    const question = this.context.pendingQuestion;
+    if (question === null) {
+      throw new Error('No question to answer');
+    }
+    this.context.pendingQuestion = null;
+    this.context.messageManager.addUserAnswer(question, answer);
+    this.context.resume();
+  }
+
+  /**
+   * Approve or reject the action waiting for approval
+   *
+   * @param approved whether the user approved the action
+   */
+  async approveAction(approved: boolean): Promise<void> {
+    if (!this.context.resolveApproval(approved)) {
+      throw new Error('No action waiting for approval');
+    }
+  }
+
   async cleanup(): Promise<void> {
+    this.context.downloads.stop();
+    this.context.browserContext.setNetworkListener(null);
+    await this.context.network.flush();
     try {
       await this.context.browserContext.cleanup();
     } catch (error) {
@@ -8,8 +8,11 @@ import { ChatCerebras } from '@langchain/cerebras';
 import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { ChatOllama } from '@langchain/ollama';
 import { ChatDeepSeek } from '@langchain/deepseek';
+import { ScriptedChatModel } from './scripted';
 
 const maxTokens = 1024 * 4;
+// the agents retry transient errors themselves and honor Retry-After, see BaseAgent.invoke
+const maxRetries = 0;
 
 function isOpenAIOModel(modelName: string): boolean {
   if (modelName.startsWith('openai/')) {
@@ -36,9 +39,11 @@ function createOpenAIChatModel(
     topP?: number;
     temperature?: number;
     maxTokens?: number;
+    maxRetries: number;
   } = {
     model: modelConfig.modelName,
     apiKey: providerConfig.apiKey,
+    maxRetries,
   };
 
   const configuration: Record<string, unknown> = {};
@@ -142,6 +147,7 @@ function createAzureChatModel(providerConfig: ProviderConfig, modelConfig: Model
     azureOpenAIApiVersion: providerConfig.azureApiVersion,
     // For Azure, the model name should be the deployment name itself
     model: deploymentName, // Set model = deployment name to fix Azure requests
+    maxRetries,
     // For O series models, use modelKwargs instead of temperature/topP
     ...(isOSeriesModel
       ? {
@@ -184,6 +190,7 @@ export function createChatModel(providerConfig: ProviderConfig, modelConfig: Mod
       const args = {
         model: modelConfig.modelName,
         apiKey: providerConfig.apiKey,
+        maxRetries,
         maxTokens,
         temperature,
         topP,
@@ -195,6 +202,7 @@ export function createChatModel(providerConfig: ProviderConfig, modelConfig: Mod
       const args = {
         model: modelConfig.modelName,
         apiKey: providerConfig.apiKey,
+        maxRetries,
         temperature,
         topP,
       };
@@ -204,6 +212,7 @@ export function createChatModel(providerConfig: ProviderConfig, modelConfig: Mod
       const args = {
         model: modelConfig.modelName,
         apiKey: providerConfig.apiKey,
+        maxRetries,
         temperature,
         topP,
       };
@@ -213,6 +222,7 @@ export function createChatModel(providerConfig: ProviderConfig, modelConfig: Mod
       const args = {
         model: modelConfig.modelName,
         apiKey: providerConfig.apiKey,
+        maxRetries,
         temperature,
         topP,
         maxTokens,
@@ -224,6 +234,7 @@ export function createChatModel(providerConfig: ProviderConfig, modelConfig: Mod
       const args = {
         model: modelConfig.modelName,
         apiKey: providerConfig.apiKey,
+        maxRetries,
         temperature,
         topP,
         maxTokens,
@@ -234,6 +245,7 @@ export function createChatModel(providerConfig: ProviderConfig, modelConfig: Mod
       const args = {
         model: modelConfig.modelName,
         apiKey: providerConfig.apiKey,
+        maxRetries,
         temperature,
         topP,
         maxTokens,
@@ -250,8 +262,10 @@ export function createChatModel(providerConfig: ProviderConfig, modelConfig: Mod
         temperature?: number;
         maxTokens?: number;
         numCtx: number;
+        maxRetries: number;
       } = {
         model: modelConfig.modelName,
+        maxRetries,
         // required but ignored by ollama
         apiKey: providerConfig.apiKey === '' ? 'ollama' : providerConfig.apiKey,
         baseUrl: providerConfig.baseUrl ?? 'http://localhost:11434',
@@ -286,6 +300,13 @@ export function createChatModel(providerConfig: ProviderConfig, modelConfig: Mod
         },
       });
     }
+    case ProviderTypeEnum.Scripted: {
+      // replays the responses of the fixture at the base url, no request is sent to an LLM
+      return new ScriptedChatModel({
+        model: modelConfig.modelName,
+        fixtureUrl: providerConfig.baseUrl,
+      });
+    }
     default: {
       // by default, we think it's a openai-compatible provider
       // Pass undefined for extraFetchOptions for default/custom cases
@@ -1,4 +1,13 @@
-import { type BaseMessage, AIMessage, HumanMessage, type SystemMessage, ToolMessage } from '@langchain/core/messages';
+import {
+  type BaseMessage,
+  type StoredMessage,
+  AIMessage,
+  HumanMessage,
+  type SystemMessage,
+  ToolMessage,
+  mapStoredMessageToChatMessage,
+} from '@langchain/core/messages';
+import type { CheckpointMessage } from '@extension/storage';
 import { MessageHistory, MessageMetadata } from '@src/background/agent/messages/views';
 import { createLogger } from '@src/background/log';
 import { wrapUserRequest } from '@src/background/agent/messages/utils';
@@ -121,7 +130,7 @@ export default class MessageManager {
     // Add available file paths if provided
     if (this.settings.availableFilePaths && this.settings.availableFilePaths.length > 0) {
       const filepathsMsg = new HumanMessage({
-        content: `Here are file paths you can use: ${this.settings.availableFilePaths}`,
+        content: `Here are the files you can upload with upload_file, refer to them by name: ${this.settings.availableFilePaths.join(', ')}`,
       });
       this.addMessageWithTokens(filepathsMsg, 'init');
     }
@@ -163,6 +172,18 @@ export default class MessageManager {
     this.addMessageWithTokens(msg);
   }
 
+  /**
+   * Adds the answer of the user to a question asked with the ask_user action
+   * @param question - The question the navigator asked
+   * @param answer - The answer typed by the user, trusted like the task itself
+   */
+  public addUserAnswer(question: string, answer: string): void {
+    const content = `You asked the user: """${question}""". The user answered: """${answer}""". Continue the task with this answer.`;
+    const wrappedContent = wrapUserRequest(content);
+    const msg = new HumanMessage({ content: wrappedContent });
+    this.addMessageWithTokens(msg);
+  }
+
   /**
    * Adds a plan message to the history
    * @param plan - The raw description of the plan
@@ -249,23 +270,49 @@ export default class MessageManager {
     this.history.addMessage(filteredMessage, metadata, position);
   }
 
+  /**
+   * Replaces sensitive data with its placeholder in a message that is sent to the LLM without being added to the history
+   * @param message - The BaseMessage object to filter
+   * @returns The filtered BaseMessage object
+   */
+  public filterSensitiveData(message: BaseMessage): BaseMessage {
+    if (!this.settings.sensitiveData) {
+      return message;
+    }
+    return this._filterSensitiveData(message);
+  }
+
+  /**
+   * Whether secrets are replaced by their placeholders, i.e. credentials from the vault are loaded
+   */
+  public hasSensitiveData(): boolean {
+    return !!this.settings.sensitiveData;
+  }
+
+  /**
+   * Replaces sensitive data with its placeholder in a text that is stored outside of the history, e.g. in the trace
+   * @param value - The text to filter
+   * @returns The filtered text
+   */
+  public filterSensitiveText(value: string): string {
+    let filteredValue = value;
+    if (!this.settings.sensitiveData) return filteredValue;
+
+    for (const [key, val] of Object.entries(this.settings.sensitiveData)) {
+      // Skip empty values to match Python behavior
+      if (!val) continue;
+      filteredValue = filteredValue.replaceAll(val, `<secret>${key}</secret>`);
+    }
+    return filteredValue;
+  }
+
   /**
    * Filters out sensitive data from the message
    * @param message - The BaseMessage object to filter
    * @returns The filtered BaseMessage object
    */
   private _filterSensitiveData(message: BaseMessage): BaseMessage {
-    const replaceSensitive = (value: string): string => {
-      let filteredValue = value;
-      if (!this.settings.sensitiveData) return filteredValue;
-
-      for (const [key, val] of Object.entries(this.settings.sensitiveData)) {
-        // Skip empty values to match Python behavior
-        if (!val) continue;
-        filteredValue = filteredValue.replace(val, `<secret>${key}</secret>`);
-      }
-      return filteredValue;
-    };
+    const replaceSensitive = (value: string): string => this.filterSensitiveText(value);
 
     if (typeof message.content === 'string') {
       message.content = replaceSensitive(message.content);
@@ -320,6 +367,15 @@ export default class MessageManager {
     return Math.floor(text.length / this.settings.estimatedCharactersPerToken);
   }
 
+  /**
+   * Estimates the tokens of a text the same way as the messages in the history
+   * @param text - The text to count the tokens
+   * @returns The estimated number of tokens
+   */
+  public estimateTokens(text: string): number {
+    return this._countTextTokens(text);
+  }
+
   /**
    * Cuts the last message if the total tokens exceed the max input tokens
    *
@@ -395,4 +451,34 @@ export default class MessageManager {
     const msg = new ToolMessage({ content, tool_call_id: String(id) });
     this.addMessageWithTokens(msg, messageType);
   }
+
+  /**
+   * Serializes the message history so that it can be saved in a checkpoint
+   * @returns The serialized messages with their token metadata
+   */
+  public serializeMessages(): CheckpointMessage[] {
+    return this.history.messages.map(m => ({
+      message: m.message.toDict() as unknown as CheckpointMessage['message'],
+      tokens: m.metadata.tokens,
+      messageType: m.metadata.message_type,
+    }));
+  }
+
+  /**
+   * Replaces the message history with messages restored from a checkpoint
+   * @param messages - The serialized messages
+   */
+  public restoreMessages(messages: CheckpointMessage[]): void {
+    this.history = new MessageHistory();
+    let lastToolId = 0;
+    for (const m of messages) {
+      const message = mapStoredMessageToChatMessage(m.message as unknown as StoredMessage);
+      if (message instanceof ToolMessage) {
+        lastToolId = Math.max(lastToolId, Number(message.tool_call_id) || 0);
+      }
+      // messages were already filtered when they were added, so add them to the history directly
+      this.history.addMessage(message, new MessageMetadata(m.tokens, m.messageType));
+    }
+    this.toolId = lastToolId + 1;
+  }
 }
@@ -1,5 +1,6 @@
 import { HumanMessage, type SystemMessage } from '@langchain/core/messages';
 import type { AgentContext } from '@src/background/agent/types';
+import { siteKnowledgeStore } from '@extension/storage';
 import { wrapUntrustedContent } from '../messages/utils';
 
 /**
@@ -22,17 +23,31 @@ abstract class BasePrompt {
   /**
    * Builds the user message containing the browser state
    * @param context - The agent context
+   * @param incremental - Only describe the elements that changed since the previous state of the same page
    * @returns HumanMessage from LangChain
    */
-  async buildBrowserStateUserMessage(context: AgentContext): Promise<HumanMessage> {
+  async buildBrowserStateUserMessage(context: AgentContext, incremental = false): Promise<HumanMessage> {
     const browserState = await context.browserContext.getState(context.options.useVision);
+    await context.trace?.recordBrowserState(context.nSteps, browserState);
     const rawElementsText = browserState.elementTree.clickableElementsToString(context.options.includeAttributes);
     const hasContentAbove = (browserState.pixelsAbove || 0) > 0;
     const hasContentBelow = (browserState.pixelsBelow || 0) > 0;
 
     let formattedElementsText = '';
     if (rawElementsText !== '') {
-      const elementsText = wrapUntrustedContent(rawElementsText);
+      let elementsText = wrapUntrustedContent(rawElementsText);
+      if (incremental) {
+        const diff = context.stateDiff.update(browserState, rawElementsText);
+        if (diff.incremental) {
+          const fullElementsText = elementsText;
+          elementsText = `Only the changes since the previous step on this page are described in full, use request_full_state to see every element with its attributes again:\n${wrapUntrustedContent(diff.text)}`;
+          diff.tokensSaved = Math.max(
+            0,
+            context.messageManager.estimateTokens(fullElementsText) -
+              context.messageManager.estimateTokens(elementsText),
+          );
+        }
+      }
 
       if (hasContentAbove) {
         // formattedElementsText = `... ${browserState.pixelsAbove} pixels above - scroll up or extract content to see more ...\n${elementsText}`;
@@ -78,6 +93,20 @@ abstract class BasePrompt {
     const otherTabs = browserState.tabs
       .filter(tab => tab.id !== browserState.tabId)
       .map(tab => `- {id: ${tab.id}, url: ${tab.url}, title: ${tab.title}}`);
+
+    let siteNotesDescription = '';
+    const siteNotes = await siteKnowledgeStore.getNotesForUrl(browserState.url);
+    if (siteNotes.length > 0) {
+      // the notes were learned from pages in earlier tasks, so they are as untrusted as the pages
+      const notesText = wrapUntrustedContent(siteNotes.map(note => `- [${note.domain}] ${note.content}`).join('\n'));
+      siteNotesDescription = `Notes about this website learned in previous tasks:\n${notesText}\n`;
+    }
+    let dialogDescription = '';
+    if (browserState.dialog) {
+      const { type, message, defaultValue } = browserState.dialog;
+      const dialogText = wrapUntrustedContent(defaultValue ? `${message}\nDefault value: ${defaultValue}` : message);
+      dialogDescription = `A JavaScript ${type} dialog blocks the page, handle it with handle_dialog before anything else:\n${dialogText}\n`;
+    }
     const stateDescription = `
 [Task history memory ends]
 [Current state starts here]
@@ -85,7 +114,7 @@ The following is one-time information - if you need to remember it write it to m
 Current tab: ${currentTab}
 Other available tabs:
   ${otherTabs.join('\n')}
-Interactive elements from top layer of the current page inside the viewport:
+${siteNotesDescription}${dialogDescription}Interactive elements from top layer of the current page inside the viewport:
 ${formattedElementsText}
 ${stepInfoDescription}
 ${actionResultsDescription}
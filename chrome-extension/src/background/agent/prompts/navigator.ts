@@ -47,6 +47,6 @@ export class NavigatorPrompt extends BasePrompt {
   }
 
   async getUserMessage(context: AgentContext): Promise<HumanMessage> {
-    return await this.buildBrowserStateUserMessage(context);
+    return await this.buildBrowserStateUserMessage(context, context.options.incrementalState);
   }
 }
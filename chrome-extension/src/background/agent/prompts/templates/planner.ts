@@ -26,6 +26,7 @@ ${commonSecurityRules}
   - 次に取るべき高レベルなステップを提案する
   - 直接URLがわかる場合は、検索する代わりに直接使用する（例：github.com、www.espn.com）。直接URLがわからない場合は検索する
   - 可能な限り現在のタブを使用することを提案し、タスクで必要でない限り新しいタブを開かない
+  - 現在のサイトについて以前のタスクで学んだメモが提供された場合は計画に活かす
   - **重要**: 
     - 常に現在のビューポートで見える内容を最優先で作業する
     - スクロールなしで即座に見える要素に焦点を当てる
@@ -0,0 +1,144 @@
+import { BaseChatModel, type BaseChatModelCallOptions } from '@langchain/core/language_models/chat_models';
+import type { BaseLanguageModelInput, ToolDefinition } from '@langchain/core/language_models/base';
+import { AIMessage, type AIMessageChunk, type BaseMessage } from '@langchain/core/messages';
+import type { ChatResult } from '@langchain/core/outputs';
+import type { Runnable } from '@langchain/core/runnables';
+
+/**
+ * A canned model response, either the raw text content or the object the agent is expected to output
+ */
+export type ScriptedResponse = string | Record<string, unknown>;
+
+/**
+ * Canned responses keyed by the model name, e.g. { planner: [...], navigator: [...], validator: [...] }
+ * Each call to a model consumes the next response of its key
+ */
+export type ChatScript = Record<string, ScriptedResponse[]>;
+
+/**
+ * A call received by the scripted model
+ */
+export interface ScriptedCall {
+  model: string;
+  messages: BaseMessage[];
+  tools: string[];
+  response: ScriptedResponse;
+}
+
+// Calls of every scripted model, createChatModel does not expose the model instances it creates
+const recordedCalls: ScriptedCall[] = [];
+
+/**
+ * Calls received by all the scripted models since the last clearRecordedCalls, in order
+ */
+export function getRecordedCalls(model?: string): ScriptedCall[] {
+  return recordedCalls.filter(call => model === undefined || call.model === model);
+}
+
+export function clearRecordedCalls(): void {
+  recordedCalls.length = 0;
+}
+
+export interface ScriptedChatModelInput {
+  model: string;
+  // Responses to replay, takes precedence over fixtureUrl
+  script?: ChatScript;
+  // URL of a JSON fixture containing a ChatScript, fetched on the first call
+  fixtureUrl?: string;
+}
+
+export interface ScriptedChatModelCallOptions extends BaseChatModelCallOptions {
+  tools?: ToolDefinition[];
+}
+
+/**
+ * Chat model that replays scripted responses instead of calling an LLM and records every prompt it receives,
+ * so that the agents can run deterministically without network access
+ */
+export class ScriptedChatModel extends BaseChatModel<ScriptedChatModelCallOptions> {
+  model: string;
+  calls: ScriptedCall[] = [];
+  private script: ChatScript | null;
+  private fixtureUrl?: string;
+  private cursors: Record<string, number> = {};
+
+  constructor(fields: ScriptedChatModelInput) {
+    super({});
+    this.model = fields.model;
+    this.script = fields.script ?? null;
+    this.fixtureUrl = fields.fixtureUrl;
+  }
+
+  _llmType(): string {
+    return 'scripted';
+  }
+
+  bindTools(
+    tools: ToolDefinition[],
+    kwargs?: Partial<ScriptedChatModelCallOptions>,
+  ): Runnable<BaseLanguageModelInput, AIMessageChunk, ScriptedChatModelCallOptions> {
+    return this.withConfig({ tools, ...kwargs });
+  }
+
+  /**
+   * Reset the recorded calls and replay the script from the beginning
+   */
+  reset(): void {
+    this.calls = [];
+    this.cursors = {};
+  }
+
+  private async loadScript(): Promise<ChatScript> {
+    if (this.script) {
+      return this.script;
+    }
+    if (!this.fixtureUrl) {
+      throw new Error('Scripted model requires a script or a fixture URL');
+    }
+    const response = await fetch(this.fixtureUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to load the script from ${this.fixtureUrl}: ${response.status} ${response.statusText}`);
+    }
+    this.script = (await response.json()) as ChatScript;
+    return this.script;
+  }
+
+  private async nextResponse(): Promise<ScriptedResponse> {
+    const script = await this.loadScript();
+    const responses = script[this.model];
+    if (!responses) {
+      throw new Error(`Script has no responses for model ${this.model}`);
+    }
+    const cursor = this.cursors[this.model] ?? 0;
+    if (cursor >= responses.length) {
+      throw new Error(`Script for model ${this.model} ran out of responses after ${responses.length} calls`);
+    }
+    this.cursors[this.model] = cursor + 1;
+    return responses[cursor];
+  }
+
+  async _generate(messages: BaseMessage[], options: this['ParsedCallOptions']): Promise<ChatResult> {
+    options.signal?.throwIfAborted();
+
+    const response = await this.nextResponse();
+    const tools = options.tools ?? [];
+    const call = { model: this.model, messages, tools: tools.map(tool => tool.function.name), response };
+    this.calls.push(call);
+    recordedCalls.push(call);
+
+    let message: AIMessage;
+    if (tools.length > 0) {
+      // answer with a call of the first tool, which is the output schema of the agent with structured output
+      const args = typeof response === 'string' ? (JSON.parse(response) as Record<string, unknown>) : response;
+      message = new AIMessage({
+        content: '',
+        tool_calls: [
+          { id: `call_${this.calls.length}`, name: tools[0].function.name, args, type: 'tool_call' as const },
+        ],
+      });
+    } else {
+      message = new AIMessage({ content: typeof response === 'string' ? response : JSON.stringify(response) });
+    }
+    return { generations: [{ text: typeof message.content === 'string' ? message.content : '', message }] };
+  }
+}
@@ -0,0 +1,183 @@
+import type { BaseMessage, MessageContent } from '@langchain/core/messages';
+import { traceStore, type TraceEntry, type TraceMessage } from '@extension/storage';
+import { createLogger } from '@src/background/log';
+import type BrowserContext from '../../browser/context';
+import type MessageManager from '../messages/service';
+import type { BrowserState } from '../../browser/views';
+import type { AgentEvent } from '../event/types';
+import type { ActionResult } from '../types';
+
+const logger = createLogger('TraceRecorder');
+
+// Large pages have thousands of interactive elements, only keep the first ones
+const MAX_TRACE_ELEMENTS = 300;
+const MAX_ELEMENT_TEXT_LENGTH = 100;
+
+function contentToString(content: MessageContent): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .map(part => {
+      if (part.type === 'text' && 'text' in part) {
+        return part.text as string;
+      }
+      // screenshots are recorded with the browser state, don't store them twice
+      if (part.type === 'image_url') {
+        return '[image]';
+      }
+      return JSON.stringify(part);
+    })
+    .join('\n');
+}
+
+function toTraceMessage(message: BaseMessage): TraceMessage {
+  return {
+    role: message._getType(),
+    content: contentToString(message.content),
+  };
+}
+
+/**
+ * Records everything the agents see and do during a task, so that a failed task can be exported and inspected.
+ * Entries are buffered in memory and written to the trace storage when flushed.
+ */
+export class TraceRecorder {
+  private readonly taskId: string;
+  private readonly task: string;
+  private readonly browserContext: BrowserContext;
+  // replaces the secrets of the vault shown on the pages, the trace is exported as plain text
+  private readonly messageManager: MessageManager;
+  private readonly captureScreenshots: boolean;
+  private pendingEntries: TraceEntry[] = [];
+  private flushPromise: Promise<void> = Promise.resolve();
+
+  constructor(
+    taskId: string,
+    task: string,
+    browserContext: BrowserContext,
+    messageManager: MessageManager,
+    captureScreenshots: boolean,
+  ) {
+    this.taskId = taskId;
+    this.task = task;
+    this.browserContext = browserContext;
+    this.messageManager = messageManager;
+    this.captureScreenshots = captureScreenshots;
+  }
+
+  recordEvent(event: AgentEvent): void {
+    this.pendingEntries.push({
+      kind: 'event',
+      step: event.data.step,
+      timestamp: event.timestamp,
+      actor: event.actor,
+      state: event.state,
+      details: event.data.details,
+    });
+  }
+
+  recordLLMCall(
+    agent: string,
+    model: string,
+    step: number,
+    inputMessages: BaseMessage[],
+    response: BaseMessage | null,
+    error: unknown,
+    startTime: number,
+  ): void {
+    let output: string | null = null;
+    if (response) {
+      output = contentToString(response.content);
+      const toolCalls = (response as BaseMessage & { tool_calls?: unknown[] }).tool_calls;
+      if (toolCalls && toolCalls.length > 0) {
+        output = [output, JSON.stringify(toolCalls, null, 2)].filter(Boolean).join('\n');
+      }
+    }
+
+    const currentTime = Date.now();
+    this.pendingEntries.push({
+      kind: 'llm',
+      step,
+      timestamp: currentTime,
+      agent,
+      model,
+      input: inputMessages.map(toTraceMessage),
+      output,
+      error: error ? (error instanceof Error ? error.message : String(error)) : null,
+      durationMs: currentTime - startTime,
+    });
+  }
+
+  /**
+   * Record the page the agents see, the secrets of the vault are replaced in the text.
+   * Screenshots are not recorded while credentials are loaded, a secret typed into a field can not be hidden in them.
+   */
+  async recordBrowserState(step: number, state: BrowserState): Promise<void> {
+    const filter = (text: string) => this.messageManager.filterSensitiveText(text);
+    const hasSecrets = this.messageManager.hasSensitiveData();
+    let screenshot = hasSecrets ? null : state.screenshot;
+    if (!screenshot && this.captureScreenshots && !hasSecrets) {
+      try {
+        const page = await this.browserContext.getCurrentPage();
+        screenshot = await page.takeScreenshot();
+      } catch (error) {
+        logger.warning('Failed to take screenshot for the trace:', error);
+      }
+    }
+
+    const elements = Array.from(state.selectorMap.entries())
+      .slice(0, MAX_TRACE_ELEMENTS)
+      .map(([index, node]) => ({
+        index,
+        tagName: node.tagName ?? '',
+        text: filter(node.getAllTextTillNextClickableElement()).slice(0, MAX_ELEMENT_TEXT_LENGTH),
+      }));
+
+    this.pendingEntries.push({
+      kind: 'state',
+      step,
+      timestamp: Date.now(),
+      url: filter(state.url),
+      title: filter(state.title),
+      tabs: state.tabs.map(tab => ({ ...tab, url: filter(tab.url), title: filter(tab.title) })),
+      elementCount: state.selectorMap.size,
+      elements,
+      pixelsAbove: state.pixelsAbove,
+      pixelsBelow: state.pixelsBelow,
+      screenshot,
+    });
+  }
+
+  recordActionResults(step: number, results: ActionResult[]): void {
+    this.pendingEntries.push({
+      kind: 'action_result',
+      step,
+      timestamp: Date.now(),
+      results: results.map(result => ({
+        isDone: result.isDone,
+        extractedContent: result.extractedContent && this.messageManager.filterSensitiveText(result.extractedContent),
+        error: result.error && this.messageManager.filterSensitiveText(result.error),
+      })),
+    });
+  }
+
+  /**
+   * Write the buffered entries to the trace storage, flushes are serialized to keep the entries in order
+   */
+  async flush(): Promise<void> {
+    this.flushPromise = this.flushPromise.then(async () => {
+      if (this.pendingEntries.length === 0) {
+        return;
+      }
+      const entries = this.pendingEntries;
+      this.pendingEntries = [];
+      try {
+        await traceStore.appendEntries(this.taskId, this.task, entries);
+      } catch (error) {
+        logger.error('Failed to save trace entries:', error);
+      }
+    });
+    await this.flushPromise;
+  }
+}
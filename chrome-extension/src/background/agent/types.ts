@@ -2,8 +2,14 @@ import { z } from 'zod';
 import type BrowserContext from '../browser/context';
 import type MessageManager from './messages/service';
 import type { EventManager } from './event/manager';
-import { type Actors, type ExecutionState, AgentEvent } from './event/types';
+import type { TraceRecorder } from './trace/recorder';
+import { Actors, ExecutionState, AgentEvent } from './event/types';
 import type { DetectedLanguage } from './utils/languageDetection';
+import { LoopDetector } from './utils/loopDetection';
+import { StateDiffTracker } from './utils/stateDiff';
+import { DownloadTracker } from '../browser/downloads';
+import { TaskNetworkLog } from '../browser/network';
+import type { ApprovalPolicyConfig, DatasetSchema, RecordedAction, VaultCredential } from '@extension/storage';
 
 export interface AgentOptions {
   maxSteps: number;
@@ -18,6 +24,8 @@ export interface AgentOptions {
   validateOutput: boolean;
   includeAttributes: string[];
   planningInterval: number;
+  traceScreenshots: boolean;
+  incrementalState: boolean;
 }
 
 export const DEFAULT_AGENT_OPTIONS: AgentOptions = {
@@ -46,6 +54,8 @@ export const DEFAULT_AGENT_OPTIONS: AgentOptions = {
     'data-date-format',
   ],
   planningInterval: 3,
+  traceScreenshots: false,
+  incrementalState: false,
 };
 
 export class AgentContext {
@@ -64,6 +74,33 @@ export class AgentContext {
   actionResults: ActionResult[];
   stateMessageAdded: boolean;
   language: DetectedLanguage;
+  // actions executed so far, saved as a replayable recording when the task succeeds
+  recordedActions: RecordedAction[];
+  // secrets from the credential vault, the LLM only sees their names
+  credentials: VaultCredential[];
+  // local files provided by the user that the agent may upload, the LLM only sees their names
+  filePaths: string[];
+  // schema of the records to collect with extract_structured, defined by the user
+  extractionSchema: DatasetSchema | null;
+  // records events, LLM calls, browser states and action results for the exportable trace
+  trace: TraceRecorder | null;
+  // question asked with the ask_user action, the task stays paused until the user answers it
+  pendingQuestion: string | null;
+  // rules for the actions that wait for the approval of the user before they run
+  approvalPolicy: ApprovalPolicyConfig | null;
+  // fingerprints of the recent navigator steps, to notice the agent repeating itself
+  loopDetector: LoopDetector;
+  // corrections given to the agent for looping since it last changed the page
+  loopCorrections: number;
+  // files downloaded while the task is running, linked to the step that started them
+  downloads: DownloadTracker;
+  // API calls made by the pages while the task is running
+  network: TaskNetworkLog;
+  // elements of the last page state sent to the navigator, to only send the changes in the next one
+  stateDiff: StateDiffTracker;
+  // hosts of the pages the navigator acted on, site notes are only saved for them
+  visitedHosts: Set<string>;
+  private approvalResolver: ((approved: boolean) => void) | null;
   constructor(
     taskId: string,
     browserContext: BrowserContext,
@@ -87,15 +124,31 @@ export class AgentContext {
     this.actionResults = [];
     this.stateMessageAdded = false;
     this.language = 'auto';
+    this.recordedActions = [];
+    this.credentials = [];
+    this.filePaths = [];
+    this.extractionSchema = null;
+    this.trace = null;
+    this.pendingQuestion = null;
+    this.approvalResolver = null;
+    this.approvalPolicy = null;
+    this.loopDetector = new LoopDetector();
+    this.loopCorrections = 0;
+    this.downloads = new DownloadTracker(taskId, () => this.nSteps);
+    this.network = new TaskNetworkLog(taskId, () => this.nSteps);
+    this.stateDiff = new StateDiffTracker();
+    this.visitedHosts = new Set();
   }
 
-  async emitEvent(actor: Actors, state: ExecutionState, eventDetails: string) {
+  async emitEvent(actor: Actors, state: ExecutionState, eventDetails: string, screenshot?: string) {
     const event = new AgentEvent(actor, state, {
       taskId: this.taskId,
       step: this.nSteps,
       maxSteps: this.options.maxSteps,
       details: eventDetails,
+      ...(screenshot ? { screenshot } : {}),
     });
+    this.trace?.recordEvent(event);
     await this.eventManager.emit(event);
   }
 
@@ -107,8 +160,36 @@ export class AgentContext {
     this.paused = false;
   }
 
+  /**
+   * Ask the user to approve an action and wait for the decision, stopping the task rejects it
+   * @param details What the action does and why it needs approval
+   * @param screenshot The page with the target element outlined
+   * @returns Whether the user approved the action
+   */
+  async waitForApproval(details: string, screenshot: string | null): Promise<boolean> {
+    const approval = new Promise<boolean>(resolve => {
+      this.approvalResolver = resolve;
+    });
+    await this.emitEvent(Actors.NAVIGATOR, ExecutionState.ACT_WAIT_APPROVAL, details, screenshot ?? undefined);
+    const approved = await approval;
+    this.approvalResolver = null;
+    return approved;
+  }
+
+  /**
+   * @returns false if no action is waiting for approval
+   */
+  resolveApproval(approved: boolean): boolean {
+    if (!this.approvalResolver) {
+      return false;
+    }
+    this.approvalResolver(approved);
+    return true;
+  }
+
   async stop() {
     this.stopped = true;
+    this.resolveApproval(false);
     setTimeout(() => this.controller.abort(), 300);
   }
 }
@@ -0,0 +1,120 @@
+// A sequence of steps repeated this many times in a row without changing the page is a loop
+const REPEAT_COUNT = 3;
+// Longest sequence of steps checked for repetition, e.g. 2 for clicking back and forth between two elements
+const MAX_PATTERN_LENGTH = 3;
+// Steps in a row after which an unchanged page is considered stagnation
+const STAGNATION_STEPS = 6;
+// Most different actions taken during those steps for them to be stagnation, more is e.g. filling a form field by field
+const MAX_STAGNATION_ACTIONS = STAGNATION_STEPS / 2;
+// Corrections the agent gets before the task fails because it keeps looping
+export const MAX_LOOP_CORRECTIONS = 2;
+
+/**
+ * What the navigator did in a step and the page it did it on
+ */
+export interface StepFingerprint {
+  actions: string;
+  page: string;
+}
+
+async function sha256(input: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(hashBuffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Fingerprint of the state of a page
+ * @param url The URL of the page
+ * @param scrollY The scroll position, scrolling changes the state even if the elements are the same
+ * @param pathHashes The branch path hashes of the interactive elements, see calcBranchPathHashSet
+ * @param elementsText The description of the elements with their text and attributes, see clickableElementsToString,
+ * which changes with the content even if the elements are the same
+ */
+export async function fingerprintPage(
+  url: string,
+  scrollY: number,
+  pathHashes: Set<string>,
+  elementsText: string,
+): Promise<string> {
+  return sha256(`${url}\n${scrollY}\n${Array.from(pathHashes).sort().join(',')}\n${elementsText}`);
+}
+
+/**
+ * Fingerprint of the actions of a step, the intent is ignored because the model rephrases it every time
+ */
+export function fingerprintActions(actions: Record<string, unknown>[]): string {
+  return JSON.stringify(
+    actions.map(action =>
+      Object.fromEntries(
+        Object.entries(action).map(([name, args]) => {
+          if (args && typeof args === 'object') {
+            return [name, Object.fromEntries(Object.entries(args).filter(([key]) => key !== 'intent'))];
+          }
+          return [name, args];
+        }),
+      ),
+    ),
+  );
+}
+
+/**
+ * Detects the navigator repeating the same actions or acting without changing the page,
+ * which the failure counters miss because every action succeeds
+ */
+export class LoopDetector {
+  private steps: StepFingerprint[] = [];
+
+  record(step: StepFingerprint): void {
+    this.steps.push(step);
+    const maxSteps = Math.max(REPEAT_COUNT * MAX_PATTERN_LENGTH, STAGNATION_STEPS);
+    if (this.steps.length > maxSteps) {
+      this.steps.splice(0, this.steps.length - maxSteps);
+    }
+  }
+
+  /**
+   * Check the recorded steps for a loop
+   * @returns Why the agent is considered looping, null if it is making progress
+   */
+  detect(): string | null {
+    for (let length = 1; length <= MAX_PATTERN_LENGTH; length++) {
+      const recent = this.steps.slice(-length * REPEAT_COUNT);
+      if (recent.length < length * REPEAT_COUNT) {
+        break;
+      }
+      const repeated = recent.every(
+        (step, i) => step.actions === recent[i % length].actions && step.page === recent[i % length].page,
+      );
+      if (repeated) {
+        return length === 1
+          ? `the same action was repeated ${REPEAT_COUNT} times on an unchanged page`
+          : `the same ${length} steps were repeated ${REPEAT_COUNT} times without progress`;
+      }
+    }
+
+    // the same few actions on a page that does not change, different actions are work the page does not show
+    const recent = this.steps.slice(-STAGNATION_STEPS);
+    if (
+      recent.length === STAGNATION_STEPS &&
+      recent.every(step => step.page === recent[0].page) &&
+      new Set(recent.map(step => step.actions)).size <= MAX_STAGNATION_ACTIONS
+    ) {
+      return `the page did not change for ${STAGNATION_STEPS} steps`;
+    }
+    return null;
+  }
+
+  /**
+   * Whether the actions of the step before the last recorded one changed the page, i.e. the agent made progress
+   */
+  changedPage(): boolean {
+    const [previous, last] = this.steps.slice(-2);
+    return !!previous && !!last && previous.page !== last.page;
+  }
+
+  reset(): void {
+    this.steps = [];
+  }
+}
@@ -0,0 +1,164 @@
+import type { DOMElementNode } from '@src/background/browser/dom/views';
+import type { BrowserState } from '@src/background/browser/views';
+
+// Longest text of an element in the compact summary of the unchanged elements
+const MAX_SUMMARY_TEXT_LENGTH = 40;
+// Highlight index at the start of an element line, e.g. [12] or *[12]* for an element new on the page
+const INDEX_PATTERN = /^\*?\[(\d+)\]\*?/;
+
+interface ElementLine {
+  key: string;
+  line: string; // The line of the element as in the full state
+  description: string; // The line without the highlight index, which changes from step to step
+  summary: string; // Tag and start of the text without the highlight index
+}
+
+export interface StateDiff {
+  // Whether text only lists the changes, false for a full state
+  incremental: boolean;
+  text: string;
+  // Estimated input tokens of the full state minus those of the message actually sent, set by the prompt sending it
+  tokensSaved: number;
+}
+
+interface PageSnapshot {
+  tabId: number;
+  url: string;
+  elements: Map<string, ElementLine>;
+  texts: Set<string>;
+}
+
+/**
+ * Short description of an element, the role and name in accessibility mode or the tag and text in DOM mode
+ */
+function summarizeElement(node: DOMElementNode): string {
+  const tag = node.accessibility?.role ?? node.tagName;
+  const text = (
+    node.accessibility
+      ? node.accessibility.name
+      : node.getAllTextTillNextClickableElement() || node.attributes['aria-label'] || ''
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+  return `<${tag}>${text.length > MAX_SUMMARY_TEXT_LENGTH ? `${text.slice(0, MAX_SUMMARY_TEXT_LENGTH)}…` : text}`;
+}
+
+/**
+ * Remembers the interactive elements of the last state sent to the navigator, so that the next state of the same
+ * page only describes the added, removed and changed elements in full and summarizes the others. The states are not
+ * kept in the history, the navigator asks for the full state with request_full_state when it needs the details
+ */
+export class StateDiffTracker {
+  // The last state the navigator answered to, the changes are described relative to it
+  private reference: PageSnapshot | null = null;
+  // The state given to the navigator in the current step, until its model call succeeds
+  private pending: { snapshot: PageSnapshot; diff: StateDiff } | null = null;
+  private resyncRequested = false;
+
+  /**
+   * Send the full state next time, e.g. when the navigator needs the attributes of the unchanged elements
+   */
+  requestResync(): void {
+    this.resyncRequested = true;
+  }
+
+  /**
+   * Compare the elements of the page with the last committed state, the reference only changes with commit
+   * @param state The current browser state, its selector map identifies the elements
+   * @param elementsText The full description of the elements, see clickableElementsToString
+   * @returns The changes, or the full description after a navigation, a resync request or when the changes are not shorter
+   */
+  update(state: BrowserState, elementsText: string): StateDiff {
+    const elements = new Map<string, ElementLine>();
+    const texts = new Set<string>();
+    const lines: (ElementLine | string)[] = [];
+
+    for (const rawLine of elementsText.split('\n')) {
+      const line = rawLine.trim();
+      const match = line.match(INDEX_PATTERN);
+      const node = match ? state.selectorMap.get(Number(match[1])) : undefined;
+      if (!match || !node) {
+        if (line) {
+          texts.add(line);
+          lines.push(line);
+        }
+        continue;
+      }
+      // the xpath is relative to the frame or shadow root, count the elements sharing one to keep the keys unique
+      const baseKey = `${node.frameId ?? ''}|${node.xpath ?? ''}`;
+      let key = baseKey;
+      for (let n = 2; elements.has(key); n++) {
+        key = `${baseKey}#${n}`;
+      }
+      const element = {
+        key,
+        line,
+        description: line.slice(match[0].length),
+        summary: summarizeElement(node),
+      };
+      elements.set(key, element);
+      lines.push(element);
+    }
+
+    const snapshot = { tabId: state.tabId, url: state.url, elements, texts };
+    const diff = this.diff(snapshot, lines, elementsText);
+    this.pending = { snapshot, diff };
+    return diff;
+  }
+
+  /**
+   * The state of the last update was sent and the model answered, it becomes the reference of the next one
+   * @returns The state that was sent, null if there was no update since the last commit
+   */
+  commit(): StateDiff | null {
+    if (!this.pending) {
+      return null;
+    }
+    const { snapshot, diff } = this.pending;
+    this.pending = null;
+    this.reference = snapshot;
+    if (!diff.incremental) {
+      this.resyncRequested = false;
+    }
+    return diff;
+  }
+
+  private diff(snapshot: PageSnapshot, lines: (ElementLine | string)[], elementsText: string): StateDiff {
+    const reference = this.reference;
+    const fullState = { incremental: false, text: elementsText, tokensSaved: 0 };
+    if (this.resyncRequested || !reference || reference.tabId !== snapshot.tabId || reference.url !== snapshot.url) {
+      return fullState;
+    }
+
+    const changed: string[] = [];
+    const unchanged: string[] = [];
+    for (const entry of lines) {
+      if (typeof entry === 'string') {
+        if (!reference.texts.has(entry)) {
+          changed.push(entry);
+        }
+      } else if (reference.elements.get(entry.key)?.description !== entry.description) {
+        changed.push(entry.line);
+      } else {
+        const index = entry.line.match(INDEX_PATTERN)?.[1];
+        unchanged.push(`[${index}]${entry.summary}`);
+      }
+    }
+    const removed = Array.from(reference.elements.values())
+      .filter(element => !snapshot.elements.has(element.key))
+      .map(element => element.summary);
+
+    const sections = [
+      changed.length > 0 ? `Added or changed:\n${changed.join('\n')}` : 'Added or changed: none',
+      ...(removed.length > 0 ? [`Removed:\n${removed.join('\n')}`] : []),
+      ...(unchanged.length > 0
+        ? [`Unchanged (current index, tag and start of the text):\n${unchanged.join('\n')}`]
+        : []),
+    ];
+    const text = sections.join('\n');
+    if (text.length >= elementsText.length) {
+      return fullState;
+    }
+    return { incremental: true, text, tokensSaved: 0 };
+  }
+}
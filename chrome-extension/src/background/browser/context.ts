@@ -1,5 +1,6 @@
 import 'webextension-polyfill';
 import {
+  BrowserError,
   type BrowserContextConfig,
   type BrowserState,
   DEFAULT_BROWSER_CONTEXT_CONFIG,
@@ -9,12 +10,31 @@ import {
 import Page, { build_initial_state } from './page';
 import { createLogger } from '@src/background/log';
 import { isUrlAllowed } from './util';
+import type { NetworkRequest } from './network';
+import type { TaskIsolation } from '@extension/storage';
 
 const logger = createLogger('BrowserContext');
+
+// Longest label of the tab group of a task
+const MAX_GROUP_TITLE_LENGTH = 30;
+
+/**
+ * The tab group or window a task runs in, the agent only uses its tabs
+ */
+interface TaskWorkspace {
+  isolation: Exclude<TaskIsolation, 'none'>;
+  title: string;
+  // null until the window or group is created, and again after it is closed
+  windowId: number | null;
+  groupId: number | null;
+}
+
 export default class BrowserContext {
   private _config: BrowserContextConfig;
   private _currentTabId: number | null = null;
   private _attachedPages: Map<number, Page> = new Map();
+  private _networkListener: ((request: NetworkRequest) => void) | null = null;
+  private _workspace: TaskWorkspace | null = null;
 
   constructor(config: Partial<BrowserContextConfig>) {
     this._config = { ...DEFAULT_BROWSER_CONTEXT_CONFIG, ...config };
@@ -53,14 +73,170 @@ export default class BrowserContext {
   }
 
   public async cleanup(): Promise<void> {
-    const currentPage = await this.getCurrentPage();
-    currentPage?.removeHighlight();
+    // do not open a tab in the closed group or window of the task only to remove the highlight
+    if (this._currentTabId || !this._workspace) {
+      const currentPage = await this.getCurrentPage();
+      currentPage?.removeHighlight();
+    }
     // detach all pages
     for (const page of this._attachedPages.values()) {
       await page.detachPuppeteer();
     }
     this._attachedPages.clear();
     this._currentTabId = null;
+    await this._finishWorkspace();
+  }
+
+  /**
+   * Run the next task in its own tab group or window, starting from a copy of the page the user is on.
+   * The agent can then only see and switch to the tabs of the group or window, so it never acts in
+   * the tabs the user keeps browsing in.
+   * @param isolation - Where the task runs, 'none' uses the tabs of the current window
+   * @param title - The task, used as label of the tab group
+   */
+  public async startWorkspace(isolation: TaskIsolation, title: string): Promise<void> {
+    this._workspace = null;
+    if (isolation === 'none') {
+      return;
+    }
+
+    // the current tab is set when resuming an interrupted task, otherwise start from the page the user is on
+    const [sourceTab] = this._currentTabId
+      ? [await chrome.tabs.get(this._currentTabId).catch(() => undefined)]
+      : await chrome.tabs.query({ active: true, currentWindow: true });
+    const sourceUrl = sourceTab?.url ?? '';
+    const url =
+      sourceUrl.startsWith('http') && isUrlAllowed(sourceUrl, this._config.allowedUrls, this._config.deniedUrls)
+        ? sourceUrl
+        : this._config.homePageUrl;
+    const label = title.trim().replace(/\s+/g, ' ');
+    this._workspace = {
+      isolation,
+      title: label.length > MAX_GROUP_TITLE_LENGTH ? `${label.slice(0, MAX_GROUP_TITLE_LENGTH - 1)}…` : label,
+      windowId: isolation === 'tabGroup' ? (sourceTab?.windowId ?? null) : null,
+      groupId: null,
+    };
+    try {
+      const tab = await this._createTab(url);
+      if (!tab.id) {
+        throw new Error('No tab ID available');
+      }
+      await this.waitForTabEvents(tab.id);
+      this._currentTabId = tab.id;
+    } catch (error) {
+      // e.g. the browser does not support tab groups
+      logger.warning(`Failed to open the ${isolation} of the task, using the tabs of the current window`, error);
+      this._workspace = null;
+    }
+  }
+
+  /**
+   * Collapse the tab group or minimize the window of the finished task, or close it if the user chose so
+   */
+  private async _finishWorkspace(): Promise<void> {
+    const workspace = this._workspace;
+    if (!workspace) {
+      return;
+    }
+    try {
+      if (workspace.isolation === 'tabGroup' && workspace.groupId !== null) {
+        if (this._config.closeTaskTabs) {
+          const tabIds = (await chrome.tabs.query({ groupId: workspace.groupId }))
+            .map(tab => tab.id)
+            .filter((id): id is number => id !== undefined);
+          if (tabIds.length > 0) {
+            await chrome.tabs.remove(tabIds);
+          }
+          workspace.groupId = null;
+        } else {
+          await chrome.tabGroups.update(workspace.groupId, { collapsed: true });
+        }
+      } else if (workspace.isolation === 'window' && workspace.windowId !== null) {
+        if (this._config.closeTaskTabs) {
+          await chrome.windows.remove(workspace.windowId);
+          workspace.windowId = null;
+        } else {
+          await chrome.windows.update(workspace.windowId, { state: 'minimized' });
+        }
+      }
+    } catch (error) {
+      // the user already closed the group or window
+      logger.info('Failed to finish the workspace of the task', error);
+    }
+  }
+
+  /**
+   * Open a tab in the tab group or window of the task, or in the current window without one.
+   * A group or window closed by the user is opened again.
+   */
+  private async _createTab(url: string): Promise<chrome.tabs.Tab> {
+    const workspace = this._workspace;
+    if (!workspace) {
+      return await chrome.tabs.create({ url, active: true });
+    }
+
+    if (workspace.isolation === 'window') {
+      if (workspace.windowId !== null) {
+        try {
+          return await chrome.tabs.create({ url, active: true, windowId: workspace.windowId });
+        } catch (error) {
+          logger.info('The window of the task was closed, opening a new one', error);
+        }
+      }
+      // the user keeps browsing in the focused window
+      const window = await chrome.windows.create({ url, focused: false });
+      const tab = window?.tabs?.[0];
+      if (!window?.id || !tab) {
+        throw new Error('Failed to open the window of the task');
+      }
+      workspace.windowId = window.id;
+      return tab;
+    }
+
+    const tab = await chrome.tabs.create({ url, active: true, windowId: workspace.windowId ?? undefined });
+    if (!tab.id) {
+      throw new Error('No tab ID available');
+    }
+    if (workspace.groupId !== null) {
+      try {
+        await chrome.tabs.group({ groupId: workspace.groupId, tabIds: tab.id });
+        return tab;
+      } catch (error) {
+        logger.info('The tab group of the task was closed, creating a new one', error);
+      }
+    }
+    workspace.groupId = await chrome.tabs.group({ tabIds: tab.id, createProperties: { windowId: tab.windowId } });
+    workspace.windowId = tab.windowId;
+    await chrome.tabGroups.update(workspace.groupId, {
+      title: workspace.title,
+      color: 'blue',
+      collapsed: false,
+    });
+    return tab;
+  }
+
+  /**
+   * Get the tabs the agent may use, those of the tab group or window of the task if it has one
+   */
+  private async _getWorkspaceTabs(): Promise<chrome.tabs.Tab[]> {
+    const workspace = this._workspace;
+    if (!workspace) {
+      return await chrome.tabs.query({});
+    }
+    if (workspace.isolation === 'tabGroup') {
+      return workspace.groupId !== null ? await chrome.tabs.query({ groupId: workspace.groupId }) : [];
+    }
+    return workspace.windowId !== null ? await chrome.tabs.query({ windowId: workspace.windowId }) : [];
+  }
+
+  private async _checkWorkspaceTab(tabId: number): Promise<void> {
+    if (!this._workspace) {
+      return;
+    }
+    const tabs = await this._getWorkspaceTabs();
+    if (!tabs.some(tab => tab.id === tabId)) {
+      throw new BrowserError(`Tab ${tabId} is not one of the tabs of the task`);
+    }
   }
 
   public async attachPage(page: Page): Promise<boolean> {
@@ -74,11 +250,22 @@ export default class BrowserContext {
       logger.info('attachPage', page.tabId, 'attached');
       // add page to managed pages
       this._attachedPages.set(page.tabId, page);
+      page.network.onFinished = this._networkListener;
       return true;
     }
     return false;
   }
 
+  /**
+   * Set the listener for the XHR and fetch requests finished in the attached pages
+   */
+  public setNetworkListener(listener: ((request: NetworkRequest) => void) | null): void {
+    this._networkListener = listener;
+    for (const page of this._attachedPages.values()) {
+      page.network.onFinished = listener;
+    }
+  }
+
   public async detachPage(tabId: number): Promise<void> {
     // detach page
     const page = this._attachedPages.get(tabId);
@@ -93,10 +280,13 @@ export default class BrowserContext {
     // 1. If _currentTabId not set, query the active tab and attach it
     if (!this._currentTabId) {
       let activeTab: chrome.tabs.Tab;
-      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      // prefer the active tab of the task, the user may have switched to another tab of its window
+      const [tab] = this._workspace
+        ? (await this._getWorkspaceTabs()).sort((a, b) => Number(b.active) - Number(a.active))
+        : await chrome.tabs.query({ active: true, currentWindow: true });
       if (!tab?.id) {
         // open a new tab with blank page
-        const newTab = await chrome.tabs.create({ url: this._config.homePageUrl });
+        const newTab = await this._createTab(this._config.homePageUrl);
         if (!newTab.id) {
           // this should rarely happen
           throw new Error('No tab ID available');
@@ -131,7 +321,7 @@ export default class BrowserContext {
    * @returns A set of tab IDs.
    */
   public async getAllTabIds(): Promise<Set<number>> {
-    const tabs = await chrome.tabs.query({ currentWindow: true });
+    const tabs = this._workspace ? await this._getWorkspaceTabs() : await chrome.tabs.query({ currentWindow: true });
     return new Set(tabs.map(tab => tab.id).filter(id => id !== undefined));
   }
 
@@ -219,6 +409,7 @@ export default class BrowserContext {
 
   public async switchTab(tabId: number): Promise<Page> {
     logger.info('switchTab', tabId);
+    await this._checkWorkspaceTab(tabId);
 
     await chrome.tabs.update(tabId, { active: true });
     await this.waitForTabEvents(tabId, { waitForUpdate: false });
@@ -283,7 +474,7 @@ export default class BrowserContext {
     }
 
     // Create the new tab
-    const tab = await chrome.tabs.create({ url, active: true });
+    const tab = await this._createTab(url);
     if (!tab.id) {
       throw new Error('No tab ID available');
     }
@@ -301,6 +492,7 @@ export default class BrowserContext {
   }
 
   public async closeTab(tabId: number): Promise<void> {
+    await this._checkWorkspaceTab(tabId);
     await this.detachPage(tabId);
     await chrome.tabs.remove(tabId);
     // update current tab id if needed
@@ -322,7 +514,7 @@ export default class BrowserContext {
   }
 
   public async getTabInfos(): Promise<TabInfo[]> {
-    const tabs = await chrome.tabs.query({});
+    const tabs = await this._getWorkspaceTabs();
     const tabInfos: TabInfo[] = [];
 
     for (const tab of tabs) {
@@ -352,6 +544,16 @@ export default class BrowserContext {
     return browserState;
   }
 
+  /**
+   * Wait until the current page has settled after an action, see Page.waitForSettled
+   */
+  public async waitForPageSettled(): Promise<void> {
+    const page = await this.getCurrentPage();
+    if (page) {
+      await page.waitForSettled();
+    }
+  }
+
   public async removeHighlight(): Promise<void> {
     const page = await this.getCurrentPage();
     if (page) {
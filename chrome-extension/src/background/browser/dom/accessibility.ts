@@ -0,0 +1,403 @@
+import { createLogger } from '@src/background/log';
+import { type AccessibilityInfo, type DOMState, DOMElementNode, DOMTextNode } from './views';
+import type { CoordinateSet, ViewportInfo } from './history/view';
+
+const logger = createLogger('AccessibilityTree');
+
+// Roles of the nodes the agent can interact with
+const INTERACTIVE_ROLES = new Set([
+  'button',
+  'link',
+  'textbox',
+  'searchbox',
+  'combobox',
+  'listbox',
+  'option',
+  'checkbox',
+  'radio',
+  'switch',
+  'slider',
+  'spinbutton',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'tab',
+  'treeitem',
+  'gridcell',
+  'PopUpButton',
+  'DisclosureTriangle',
+]);
+
+// Roles that are focusable without being something to interact with
+const NON_INTERACTIVE_FOCUSABLE_ROLES = new Set(['RootWebArea', 'Iframe', 'generic', 'none', 'group', 'region']);
+
+// Object group of the remote objects resolved while building the tree, released at the end
+const OBJECT_GROUP = 'nanobrowser-accessibility';
+
+// Longest name kept for an element, e.g. links that wrap a whole card
+const MAX_NAME_LENGTH = 200;
+
+// Subset of the Accessibility domain of the Chrome DevTools Protocol
+interface AXValue {
+  type: string;
+  value?: unknown;
+}
+
+interface AXNode {
+  nodeId: string;
+  ignored: boolean;
+  role?: AXValue;
+  name?: AXValue;
+  value?: AXValue;
+  properties?: { name: string; value: AXValue }[];
+  childIds?: string[];
+  backendDOMNodeId?: number;
+}
+
+// Element of the page found for an accessibility node, computed in the page
+interface RawAXElement {
+  tagName: string;
+  xpath: string;
+  attributes: Record<string, string>;
+  isVisible: boolean;
+  isTopElement: boolean;
+  isInViewport: boolean;
+  shadowRoot: boolean;
+  viewportCoordinates: CoordinateSet;
+  pageCoordinates: CoordinateSet;
+  viewportInfo: ViewportInfo;
+}
+
+async function sendCommand<T>(tabId: number, method: string, params?: Record<string, unknown>): Promise<T> {
+  return (await chrome.debugger.sendCommand({ tabId }, method, params)) as T;
+}
+
+function getText(value: AXValue | undefined): string {
+  if (value?.value === undefined || value.value === null) {
+    return '';
+  }
+  return String(value.value).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Get the states of an accessibility node worth telling the model, e.g. checked or disabled
+ */
+function getStates(node: AXNode): string[] {
+  const states: string[] = [];
+  for (const property of node.properties ?? []) {
+    const value = property.value.value;
+    switch (property.name) {
+      case 'checked':
+      case 'pressed':
+        if (value === 'mixed') {
+          states.push(`${property.name}=mixed`);
+        } else {
+          states.push(value === true || value === 'true' ? property.name : `not ${property.name}`);
+        }
+        break;
+      case 'expanded':
+        states.push(value ? 'expanded' : 'collapsed');
+        break;
+      case 'selected':
+      case 'disabled':
+      case 'required':
+      case 'readonly':
+      case 'focused':
+      case 'multiselectable':
+        if (value) {
+          states.push(property.name);
+        }
+        break;
+      case 'invalid':
+        if (value && value !== 'false') {
+          states.push('invalid');
+        }
+        break;
+    }
+  }
+  return states;
+}
+
+function isInteractive(node: AXNode, role: string): boolean {
+  if (INTERACTIVE_ROLES.has(role)) {
+    return true;
+  }
+  const focusable = node.properties?.some(property => property.name === 'focusable' && property.value.value === true);
+  return !!focusable && !NON_INTERACTIVE_FOCUSABLE_ROLES.has(role);
+}
+
+/**
+ * Describe the elements of the page in the page, called with the elements as arguments.
+ * The xpath is computed like in buildDomTree, relative to the shadow root or document of the element.
+ */
+function describeElements(this: unknown, ...args: unknown[]): (RawAXElement | null)[] {
+  const expansion = args[0] as number;
+  const elements = args.slice(1) as Element[];
+  const viewportWidth = window.innerWidth;
+  const viewportHeight = window.innerHeight;
+  const viewportInfo = {
+    scrollX: window.scrollX,
+    scrollY: window.scrollY,
+    width: viewportWidth,
+    height: viewportHeight,
+  };
+
+  const toCoordinateSet = (left: number, top: number, width: number, height: number) => ({
+    topLeft: { x: left, y: top },
+    topRight: { x: left + width, y: top },
+    bottomLeft: { x: left, y: top + height },
+    bottomRight: { x: left + width, y: top + height },
+    center: { x: left + width / 2, y: top + height / 2 },
+    width,
+    height,
+  });
+
+  const getXPath = (element: Element) => {
+    const segments: string[] = [];
+    let current: Node | null = element;
+    while (current && current.nodeType === Node.ELEMENT_NODE) {
+      if (current.parentNode instanceof ShadowRoot || current.parentNode instanceof HTMLIFrameElement) {
+        break;
+      }
+      const nodeName = current.nodeName;
+      const siblings = current.parentElement
+        ? Array.from(current.parentElement.children).filter(sibling => sibling.nodeName === nodeName)
+        : [];
+      const tagName = nodeName.toLowerCase();
+      segments.unshift(siblings.length > 1 ? `${tagName}[${siblings.indexOf(current as Element) + 1}]` : tagName);
+      current = current.parentNode;
+    }
+    return segments.join('/');
+  };
+
+  return elements.map(element => {
+    if (!(element instanceof Element)) {
+      return null;
+    }
+    const rect = element.getBoundingClientRect();
+    const isVisible =
+      rect.width > 0 && rect.height > 0 && element.checkVisibility({ checkOpacity: true, checkVisibilityCSS: true });
+    const isInViewport =
+      expansion === -1 ||
+      (rect.bottom >= -expansion &&
+        rect.top <= viewportHeight + expansion &&
+        rect.right >= -expansion &&
+        rect.left <= viewportWidth + expansion);
+
+    // an element covered by e.g. a modal is not the top element at its center
+    let isTopElement = true;
+    const centerX = rect.left + rect.width / 2;
+    const centerY = rect.top + rect.height / 2;
+    if (centerX >= 0 && centerX < viewportWidth && centerY >= 0 && centerY < viewportHeight) {
+      const root = element.getRootNode() as Document | ShadowRoot;
+      const topElement = root.elementFromPoint(centerX, centerY);
+      isTopElement =
+        !topElement || element === topElement || element.contains(topElement) || topElement.contains(element);
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const attribute of Array.from(element.attributes)) {
+      attributes[attribute.name] = attribute.value;
+    }
+    return {
+      tagName: element.tagName.toLowerCase(),
+      xpath: getXPath(element),
+      attributes,
+      isVisible,
+      isTopElement,
+      isInViewport,
+      shadowRoot: !!element.shadowRoot,
+      viewportCoordinates: toCoordinateSet(rect.left, rect.top, rect.width, rect.height),
+      pageCoordinates: toCoordinateSet(rect.left + window.scrollX, rect.top + window.scrollY, rect.width, rect.height),
+      viewportInfo,
+    };
+  });
+}
+
+/**
+ * Draw the indexes of the elements over the page, like the highlights of buildDomTree
+ */
+async function highlightElements(tabId: number, elements: DOMElementNode[]): Promise<void> {
+  const boxes = elements.map(element => ({
+    index: element.highlightIndex,
+    coordinates: element.viewportCoordinates,
+  }));
+  await chrome.scripting.executeScript({
+    target: { tabId },
+    func: (boxes: { index: number | null; coordinates?: CoordinateSet }[]) => {
+      const colors = ['#FF0000', '#00FF00', '#0000FF', '#FFA500', '#800080', '#008080', '#FF69B4', '#4B0082'];
+      const container = document.createElement('div');
+      container.id = 'playwright-highlight-container';
+      container.style.cssText = 'position:fixed;top:0;left:0;width:0;height:0;pointer-events:none;z-index:2147483647;';
+      for (const box of boxes) {
+        if (box.index === null || !box.coordinates) {
+          continue;
+        }
+        const color = colors[box.index % colors.length];
+        const { topLeft, width, height } = box.coordinates;
+        const overlay = document.createElement('div');
+        overlay.style.cssText = `position:fixed;left:${topLeft.x}px;top:${topLeft.y}px;width:${width}px;height:${height}px;border:2px solid ${color};background:${color}1A;box-sizing:border-box;`;
+        const label = document.createElement('div');
+        label.textContent = String(box.index);
+        label.style.cssText = `position:absolute;top:0;right:0;background:${color};color:white;font:12px sans-serif;padding:1px 4px;border-radius:4px;`;
+        overlay.appendChild(label);
+        container.appendChild(overlay);
+      }
+      document.body.appendChild(container);
+    },
+    args: [boxes],
+  });
+}
+
+/**
+ * Build the interactive elements of the page from the accessibility tree of Chrome instead of buildDomTree.
+ * The elements get the same highlight indexes and selector map as the ones of buildDomTree, so the actions
+ * locate them the same way, and keep their role, name, state and value for the state message.
+ * Only the elements of the top frame are included, the accessibility tree of each iframe is separate.
+ * @param tabId - The ID of the tab, the debugger must be attached to it.
+ * @param showHighlightElements - Whether to show the indexes of the elements on the page.
+ * @param viewportExpansion - Pixels around the viewport to include the elements of, -1 for the whole page.
+ * @returns A DOMState with the elements as children of the body, in document order.
+ */
+export async function getAccessibilityElements(
+  tabId: number,
+  showHighlightElements = true,
+  viewportExpansion = 0,
+): Promise<DOMState> {
+  const { nodes } = await sendCommand<{ nodes: AXNode[] }>(tabId, 'Accessibility.getFullAXTree');
+  const nodesById = new Map(nodes.map(node => [node.nodeId, node]));
+
+  // walk the tree from the root for the document order, the list of nodes is not ordered
+  const candidates: { node: AXNode; role: string }[] = [];
+  const visit = (node: AXNode) => {
+    const role = getText(node.role);
+    if (!node.ignored && node.backendDOMNodeId !== undefined && (role === 'heading' || isInteractive(node, role))) {
+      candidates.push({ node, role });
+    }
+    for (const childId of node.childIds ?? []) {
+      const child = nodesById.get(childId);
+      if (child) {
+        visit(child);
+      }
+    }
+  };
+  const root = nodes.find(node => getText(node.role) === 'RootWebArea') ?? nodes[0];
+  if (root) {
+    visit(root);
+  }
+
+  const elementTree = new DOMElementNode({
+    tagName: 'body',
+    xpath: '',
+    attributes: {},
+    children: [],
+    isVisible: true,
+    isTopElement: true,
+    parent: null,
+  });
+  const selectorMap = new Map<number, DOMElementNode>();
+  if (candidates.length === 0) {
+    return { elementTree, selectorMap };
+  }
+
+  try {
+    const objectIds: (string | null)[] = [];
+    for (const { node } of candidates) {
+      try {
+        const { object } = await sendCommand<{ object: { objectId?: string } }>(tabId, 'DOM.resolveNode', {
+          backendNodeId: node.backendDOMNodeId,
+          objectGroup: OBJECT_GROUP,
+        });
+        objectIds.push(object.objectId ?? null);
+      } catch (error) {
+        // the node was removed since the tree was taken
+        logger.debug(`Failed to resolve the node ${node.backendDOMNodeId}:`, error);
+        objectIds.push(null);
+      }
+    }
+    const resolved = candidates.filter((_, i) => objectIds[i] !== null);
+    const firstObjectId = objectIds.find(objectId => objectId !== null);
+    if (!firstObjectId) {
+      return { elementTree, selectorMap };
+    }
+
+    const { result, exceptionDetails } = await sendCommand<{
+      result: { value?: (RawAXElement | null)[] };
+      exceptionDetails?: { text: string };
+    }>(tabId, 'Runtime.callFunctionOn', {
+      functionDeclaration: describeElements.toString(),
+      objectId: firstObjectId,
+      arguments: [
+        { value: viewportExpansion },
+        ...objectIds.filter(objectId => objectId !== null).map(objectId => ({ objectId })),
+      ],
+      returnByValue: true,
+    });
+    if (exceptionDetails || !result.value) {
+      throw new Error(`Failed to describe the elements: ${exceptionDetails?.text ?? 'no result'}`);
+    }
+
+    let highlightIndex = 0;
+    resolved.forEach(({ node, role }, i) => {
+      const raw = result.value?.[i];
+      if (!raw || !raw.isVisible || !raw.isInViewport) {
+        return;
+      }
+      const name = getText(node.name).slice(0, MAX_NAME_LENGTH);
+      if (role === 'heading') {
+        // headings give the context of the elements below them, they are not indexed
+        if (name) {
+          elementTree.children.push(new DOMTextNode(`# ${name}`, true, elementTree));
+        }
+        return;
+      }
+      if (!raw.isTopElement) {
+        return;
+      }
+
+      const accessibility: AccessibilityInfo = {
+        role,
+        name,
+        value: getText(node.value) || null,
+        states: getStates(node),
+      };
+      const element = new DOMElementNode({
+        tagName: raw.tagName,
+        xpath: raw.xpath,
+        attributes: raw.attributes,
+        children: [],
+        isVisible: true,
+        isInteractive: true,
+        isTopElement: true,
+        isInViewport: true,
+        shadowRoot: raw.shadowRoot,
+        highlightIndex,
+        viewportCoordinates: raw.viewportCoordinates,
+        pageCoordinates: raw.pageCoordinates,
+        viewportInfo: raw.viewportInfo,
+        accessibility,
+        parent: elementTree,
+      });
+      if (name) {
+        // the name is the text of the element for e.g. the history and the approval details
+        element.children.push(new DOMTextNode(name, true, element));
+      }
+      elementTree.children.push(element);
+      selectorMap.set(highlightIndex, element);
+      highlightIndex++;
+    });
+  } finally {
+    sendCommand(tabId, 'Runtime.releaseObjectGroup', { objectGroup: OBJECT_GROUP }).catch(error => {
+      logger.debug('Failed to release the resolved nodes:', error);
+    });
+  }
+
+  if (showHighlightElements && selectorMap.size > 0) {
+    try {
+      await highlightElements(tabId, Array.from(selectorMap.values()));
+    } catch (error) {
+      logger.warning('Failed to highlight the elements:', error);
+    }
+  }
+  return { elementTree, selectorMap };
+}
@@ -208,6 +208,32 @@ class DOMutationObserver {
   }
 }
 
+/**
+ * Function to evaluate in the page, resolves when the document is loaded and has not been mutated for quietMs,
+ * or after timeoutMs at the latest
+ */
+export function waitForDomQuiet(quietMs: number, timeoutMs: number): Promise<void> {
+  return new Promise<void>(resolve => {
+    const deadline = Date.now() + timeoutMs;
+    let lastMutation = Date.now();
+    const observer = new MutationObserver(() => {
+      lastMutation = Date.now();
+    });
+    observer.observe(document, { subtree: true, childList: true, attributes: true, characterData: true });
+
+    const check = () => {
+      const now = Date.now();
+      if ((document.readyState === 'complete' && now - lastMutation >= quietMs) || now >= deadline) {
+        observer.disconnect();
+        resolve();
+        return;
+      }
+      setTimeout(check, 50);
+    };
+    check();
+  });
+}
+
 // Singleton instance
 export const domMutationObserver = new DOMutationObserver();
 
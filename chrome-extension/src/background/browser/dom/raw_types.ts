@@ -22,6 +22,7 @@ export type RawDomElementNode = {
   pageCoordinates?: CoordinateSet;
   viewportInfo?: ViewportInfo;
   shadowRoot?: boolean;
+  frameIndex?: number; // Index of an iframe in the frames of its window
 };
 
 export type RawDomTreeNode = RawDomTextNode | RawDomElementNode;
@@ -31,6 +32,7 @@ export interface BuildDomTreeArgs {
   focusHighlightIndex: number;
   viewportExpansion: number;
   debugMode?: boolean;
+  startHighlightIndex?: number;
 }
 
 export interface PerfMetrics {
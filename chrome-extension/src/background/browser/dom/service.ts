@@ -1,10 +1,13 @@
 import { createLogger } from '@src/background/log';
-import type { BuildDomTreeArgs, RawDomTreeNode, BuildDomTreeResult } from './raw_types';
+import type { BuildDomTreeArgs, RawDomElementNode, RawDomTreeNode, BuildDomTreeResult } from './raw_types';
 import { type DOMState, type DOMBaseNode, DOMElementNode, DOMTextNode } from './views';
 import type { ViewportInfo } from './history/view';
 
 const logger = createLogger('DOMService');
 
+// Limit the frames built separately, pages full of ads can embed dozens of them
+const MAX_CROSS_ORIGIN_FRAMES = 20;
+
 export interface ReadabilityResult {
   title: string;
   content: string;
@@ -121,36 +124,19 @@ async function _buildDomTree(
 
   const MAX_RETRIES = 3;
   const RETRY_DELAY_MS = 100;
+  const args: BuildDomTreeArgs = {
+    showHighlightElements,
+    focusHighlightIndex: focusElement,
+    viewportExpansion,
+    debugMode,
+  };
 
   for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
     try {
-      const results = await chrome.scripting.executeScript({
-        target: { tabId },
-        func: args => {
-          // Access buildDomTree from the window context of the target page
-          return window.buildDomTree(args);
-        },
-        args: [
-          {
-            showHighlightElements,
-            focusHighlightIndex: focusElement,
-            viewportExpansion,
-            debugMode,
-          },
-        ],
-      });
-
-      // First cast to unknown, then to BuildDomTreeResult
-      const evalPage = results[0]?.result as unknown as BuildDomTreeResult;
-      if (!evalPage || !evalPage.map || !evalPage.rootId) {
-        throw new Error('Failed to build DOM tree: No result returned or invalid structure');
-      }
-
-      // Log performance metrics in debug mode
-      if (debugMode && evalPage.perfMetrics) {
-        logger.debug('DOM Tree Building Performance Metrics:', evalPage.perfMetrics);
-      }
-      return await _constructDomTree(evalPage);
+      const evalPage = await _evaluateBuildDomTree(tabId, args);
+      const [elementTree, selectorMap, frameIndexes] = _constructDomTree(evalPage);
+      await _addCrossOriginFrames(tabId, args, elementTree, selectorMap, frameIndexes);
+      return [elementTree, selectorMap];
     } catch (error) {
       logger.error(`Attempt ${attempt} to build DOM tree failed:`, error);
       if (attempt === MAX_RETRIES) {
@@ -163,16 +149,186 @@ async function _buildDomTree(
   throw new Error('Exhausted retries for building DOM tree');
 }
 
+/**
+ * Run buildDomTree in a frame of the tab.
+ * @param tabId - The ID of the tab.
+ * @param args - The arguments of buildDomTree.
+ * @param frameId - The frame to run it in, the top frame if not provided.
+ * @returns The raw DOM tree of the frame.
+ */
+async function _evaluateBuildDomTree(
+  tabId: number,
+  args: BuildDomTreeArgs,
+  frameId?: number,
+): Promise<BuildDomTreeResult> {
+  const results = await chrome.scripting.executeScript({
+    target: frameId === undefined ? { tabId } : { tabId, frameIds: [frameId] },
+    func: args => {
+      // Access buildDomTree from the window context of the target page
+      return window.buildDomTree(args);
+    },
+    args: [args],
+  });
+
+  // First cast to unknown, then to BuildDomTreeResult
+  const evalPage = results[0]?.result as unknown as BuildDomTreeResult;
+  if (!evalPage || !evalPage.map || !evalPage.rootId) {
+    throw new Error('Failed to build DOM tree: No result returned or invalid structure');
+  }
+
+  // Log performance metrics in debug mode
+  if (args.debugMode && evalPage.perfMetrics) {
+    logger.debug('DOM Tree Building Performance Metrics:', evalPage.perfMetrics);
+  }
+  return evalPage;
+}
+
+/**
+ * Get the frames of the tab keyed by their path, the indexes in window.frames from the top frame down to the frame,
+ * and inject buildDomTree into the frames that do not have it yet.
+ * @param tabId - The ID of the tab.
+ * @returns The frame IDs keyed by the path joined with '/'.
+ */
+async function _getFramesByPath(tabId: number): Promise<Map<string, number>> {
+  const results = await chrome.scripting.executeScript({
+    target: { tabId, allFrames: true },
+    func: () => {
+      // parent, frames and indexing are accessible across origins
+      const path: number[] = [];
+      let current: Window = window;
+      while (current !== window.top) {
+        const parent: Window = current.parent;
+        let index = -1;
+        for (let i = 0; i < parent.frames.length; i++) {
+          if (parent.frames[i] === current) {
+            index = i;
+            break;
+          }
+        }
+        path.unshift(index);
+        current = parent;
+      }
+      return { path, injected: typeof window.buildDomTree === 'function' };
+    },
+  });
+
+  const framesByPath = new Map<string, number>();
+  const notInjected: number[] = [];
+  for (const result of results) {
+    if (!result.result || result.frameId === 0) {
+      continue;
+    }
+    framesByPath.set(result.result.path.join('/'), result.frameId);
+    if (!result.result.injected) {
+      notInjected.push(result.frameId);
+    }
+  }
+
+  if (notInjected.length > 0) {
+    await chrome.scripting.executeScript({
+      target: { tabId, frameIds: notInjected },
+      files: ['buildDomTree.js'],
+    });
+  }
+  return framesByPath;
+}
+
+/**
+ * Build the frames the page cannot access, e.g. cross-origin iframes, and add them under their iframe elements,
+ * so that the elements inside them are part of the same indexed tree.
+ * @param tabId - The ID of the tab.
+ * @param args - The arguments of buildDomTree.
+ * @param elementTree - The DOM tree of the page, the frames are added to it.
+ * @param selectorMap - The selector map of the page, the elements of the frames are added to it.
+ * @param frameIndexes - The indexes in window.frames of the iframes of the page.
+ */
+async function _addCrossOriginFrames(
+  tabId: number,
+  args: BuildDomTreeArgs,
+  elementTree: DOMElementNode,
+  selectorMap: Map<number, DOMElementNode>,
+  frameIndexes: Map<DOMElementNode, number>,
+): Promise<void> {
+  // iframes without children are the ones the page could not look into
+  const inaccessibleFrames = (indexes: Map<DOMElementNode, number>) =>
+    Array.from(indexes.keys()).filter(iframe => iframe.children.length === 0);
+
+  const pending = inaccessibleFrames(frameIndexes);
+  if (pending.length === 0) {
+    return;
+  }
+
+  let framesByPath: Map<string, number>;
+  try {
+    framesByPath = await _getFramesByPath(tabId);
+  } catch (error) {
+    logger.warning('Failed to get the frames of the page:', error);
+    return;
+  }
+
+  const builtFrames = new Set<number>();
+  while (pending.length > 0 && builtFrames.size < MAX_CROSS_ORIGIN_FRAMES) {
+    const iframe = pending.shift() as DOMElementNode;
+    const path = _getFramePath(iframe, frameIndexes);
+    const frameId = path && framesByPath.get(path.join('/'));
+    if (frameId === undefined || frameId === null || builtFrames.has(frameId)) {
+      continue;
+    }
+    builtFrames.add(frameId);
+
+    try {
+      const startHighlightIndex = selectorMap.size > 0 ? Math.max(...selectorMap.keys()) + 1 : 0;
+      const evalFrame = await _evaluateBuildDomTree(tabId, { ...args, startHighlightIndex }, frameId);
+      const [frameTree, frameSelectorMap, frameFrameIndexes] = _constructDomTree(evalFrame, frameId);
+      frameTree.parent = iframe;
+      iframe.children.push(frameTree);
+      for (const [index, node] of frameSelectorMap) {
+        selectorMap.set(index, node);
+      }
+      for (const [node, index] of frameFrameIndexes) {
+        frameIndexes.set(node, index);
+      }
+      pending.push(...inaccessibleFrames(frameFrameIndexes));
+    } catch (error) {
+      logger.warning(`Failed to build the DOM tree of frame ${frameId}:`, error);
+    }
+  }
+}
+
+/**
+ * Get the path of the frame of an iframe element, the indexes in window.frames of the iframe and the iframes around it.
+ * @returns The path, null if the index of one of the iframes is unknown.
+ */
+function _getFramePath(iframe: DOMElementNode, frameIndexes: Map<DOMElementNode, number>): number[] | null {
+  const path: number[] = [];
+  for (let current: DOMElementNode | null = iframe; current; current = current.parent) {
+    if (current.tagName !== 'iframe') {
+      continue;
+    }
+    const index = frameIndexes.get(current);
+    if (index === undefined) {
+      return null;
+    }
+    path.unshift(index);
+  }
+  return path;
+}
+
 /**
  * Constructs a DOM tree from the evaluated page data.
  * @param evalPage - The result of building the DOM tree.
- * @returns A tuple containing the DOM element tree and selector map.
+ * @param frameId - The frame the tree was built in, null for the page.
+ * @returns A tuple containing the DOM element tree, the selector map and the indexes in window.frames of the iframes.
  */
-function _constructDomTree(evalPage: BuildDomTreeResult): [DOMElementNode, Map<number, DOMElementNode>] {
+function _constructDomTree(
+  evalPage: BuildDomTreeResult,
+  frameId: number | null = null,
+): [DOMElementNode, Map<number, DOMElementNode>, Map<DOMElementNode, number>] {
   const jsNodeMap = evalPage.map;
   const jsRootId = evalPage.rootId;
 
   const selectorMap = new Map<number, DOMElementNode>();
+  const frameIndexes = new Map<DOMElementNode, number>();
   const nodeMap: Record<string, DOMBaseNode> = {};
 
   // First pass: create all nodes
@@ -184,6 +340,14 @@ function _constructDomTree(evalPage: BuildDomTreeResult): [DOMElementNode, Map<n
 
     nodeMap[id] = node;
 
+    if (node instanceof DOMElementNode) {
+      node.frameId = frameId;
+      const frameIndex = (nodeData as RawDomElementNode).frameIndex;
+      if (frameIndex !== undefined) {
+        frameIndexes.set(node, frameIndex);
+      }
+    }
+
     // Add to selector map if it has a highlight index
     if (node instanceof DOMElementNode && node.highlightIndex !== undefined && node.highlightIndex !== null) {
       selectorMap.set(node.highlightIndex, node);
@@ -215,7 +379,7 @@ function _constructDomTree(evalPage: BuildDomTreeResult): [DOMElementNode, Map<n
     throw new Error('Failed to parse HTML to dictionary');
   }
 
-  return [htmlToDict, selectorMap];
+  return [htmlToDict, selectorMap, frameIndexes];
 }
 
 /**
@@ -273,7 +437,7 @@ export function _parse_node(nodeData: RawDomTreeNode): [DOMBaseNode | null, stri
 export async function removeHighlights(tabId: number): Promise<void> {
   try {
     await chrome.scripting.executeScript({
-      target: { tabId },
+      target: { tabId, allFrames: true },
       func: () => {
         // Remove the highlight container and all its contents
         const container = document.getElementById('playwright-highlight-container');
@@ -318,3 +482,175 @@ export async function getScrollInfo(tabId: number): Promise<[number, number]> {
   }
   return [result.pixels_above, result.pixels_below];
 }
+
+/**
+ * A step to resolve an element of a frame from the document of the frame, the xpath is relative to the root
+ * entered by the previous step and the element found is entered if it is an iframe or a shadow host
+ */
+export interface FrameElementStep {
+  xpath: string;
+  enter: 'iframe' | 'shadow' | null;
+}
+
+/**
+ * Position of an element in the viewport of its frame
+ */
+export interface FrameElementPosition {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Top left corner of the content box, where the document of an iframe starts
+  contentX: number;
+  contentY: number;
+}
+
+/**
+ * Get the iframe element a frame built separately was added under.
+ * @param element - An element of the frame.
+ * @returns The iframe element, null if the element is not in a frame built separately.
+ */
+export function getFrameHost(element: DOMElementNode): DOMElementNode | null {
+  let current = element.parent;
+  while (current && current.frameId === element.frameId) {
+    current = current.parent;
+  }
+  return current;
+}
+
+/**
+ * Get the steps to resolve an element from the document of its frame, through the iframes the frame can access
+ * and the shadow roots around the element.
+ * @param element - The element to resolve.
+ * @returns The steps, the last one resolves the element itself.
+ */
+export function getFrameElementSteps(element: DOMElementNode): FrameElementStep[] {
+  const steps: FrameElementStep[] = [{ xpath: element.xpath ?? '', enter: null }];
+  let current = element.parent;
+  while (current && current.frameId === element.frameId) {
+    const xpath = current.xpath ?? '';
+    if (current.tagName === 'iframe') {
+      steps.unshift({ xpath, enter: 'iframe' });
+    } else if (current.shadowRoot && !steps[0].xpath.startsWith(`${xpath}/`)) {
+      // light DOM children of a shadow host continue its xpath, the children in its shadow root start over
+      steps.unshift({ xpath, enter: 'shadow' });
+    }
+    current = current.parent;
+  }
+  return steps;
+}
+
+/**
+ * Get the URL of the document in a frame of the tab.
+ * @param tabId - The ID of the tab.
+ * @param frameId - The frame, 0 for the top frame.
+ * @returns The URL, null if the frame is gone or cannot be scripted.
+ */
+export async function getFrameUrl(tabId: number, frameId: number): Promise<string | null> {
+  try {
+    const [result] = await chrome.scripting.executeScript({
+      target: { tabId, frameIds: [frameId] },
+      func: () => location.href,
+    });
+    return typeof result?.result === 'string' ? result.result : null;
+  } catch (error) {
+    logger.warning(`Failed to get the URL of frame ${frameId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Resolve an element in a frame of the tab and scroll it into view. Works where puppeteer cannot reach,
+ * e.g. in cross-origin iframes, since the script runs in the frame itself, and in closed shadow roots.
+ * @param tabId - The ID of the tab.
+ * @param frameId - The frame of the element, 0 for the top frame.
+ * @param steps - The steps to resolve the element, see getFrameElementSteps.
+ * @param clear - Whether to clear the value of the element, before typing into it.
+ * @returns The position of the element in the viewport of the frame, null if it was not found.
+ */
+export async function locateFrameElement(
+  tabId: number,
+  frameId: number,
+  steps: FrameElementStep[],
+  clear = false,
+): Promise<FrameElementPosition | null> {
+  const results = await chrome.scripting.executeScript({
+    target: { tabId, frameIds: [frameId] },
+    func: (steps: FrameElementStep[], clear: boolean) => {
+      // xpaths have the form tag[n]/tag[n], n is the position among the siblings with the same tag
+      const resolve = (root: Document | ShadowRoot, xpath: string): Element | null => {
+        let current: Document | ShadowRoot | Element = root;
+        for (const segment of xpath.split('/').filter(Boolean)) {
+          const match = segment.match(/^([^[]+)(?:\[(\d+)\])?$/);
+          if (!match) return null;
+          const candidates: Element[] = Array.from(current.children).filter(
+            child => child.nodeName.toLowerCase() === match[1],
+          );
+          const next: Element | undefined = candidates[match[2] ? Number(match[2]) - 1 : 0];
+          if (!next) return null;
+          current = next;
+        }
+        return current instanceof Element ? current : null;
+      };
+
+      let root: Document | ShadowRoot = document;
+      const iframes: Element[] = [];
+      let element: Element | null = null;
+      for (const step of steps) {
+        element = resolve(root, step.xpath);
+        if (!element) return null;
+        if (step.enter === 'iframe') {
+          const contentDocument = (element as HTMLIFrameElement).contentDocument;
+          if (!contentDocument) return null;
+          iframes.push(element);
+          root = contentDocument;
+        } else if (step.enter === 'shadow') {
+          const shadowRoot = element.shadowRoot || chrome.dom?.openOrClosedShadowRoot(element as HTMLElement);
+          if (!shadowRoot) return null;
+          root = shadowRoot;
+        }
+      }
+      if (!element) return null;
+
+      element.scrollIntoView({ block: 'center', inline: 'center' });
+      if (clear) {
+        if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+          element.value = '';
+        } else if (element instanceof HTMLElement && element.isContentEditable) {
+          element.textContent = '';
+        }
+        element.dispatchEvent(new Event('input', { bubbles: true }));
+        element.dispatchEvent(new Event('change', { bubbles: true }));
+      }
+
+      // the rects are relative to the viewport of their own document, add the positions of the iframes around them
+      const contentOrigin = (el: Element) => {
+        const rect = el.getBoundingClientRect();
+        const style = getComputedStyle(el);
+        return {
+          x: rect.left + el.clientLeft + Number.parseFloat(style.paddingLeft),
+          y: rect.top + el.clientTop + Number.parseFloat(style.paddingTop),
+        };
+      };
+      let offsetX = 0;
+      let offsetY = 0;
+      for (const iframe of iframes) {
+        const origin = contentOrigin(iframe);
+        offsetX += origin.x;
+        offsetY += origin.y;
+      }
+      const rect = element.getBoundingClientRect();
+      const origin = contentOrigin(element);
+      return {
+        x: offsetX + rect.left,
+        y: offsetY + rect.top,
+        width: rect.width,
+        height: rect.height,
+        contentX: offsetX + origin.x,
+        contentY: offsetY + origin.y,
+      };
+    },
+    args: [steps, clear],
+  });
+  return results[0]?.result ?? null;
+}
@@ -47,6 +47,17 @@ export class DOMTextNode extends DOMBaseNode {
   }
 }
 
+/**
+ * What the accessibility tree of the browser tells about an element, see getAccessibilityElements
+ */
+export interface AccessibilityInfo {
+  role: string;
+  name: string;
+  value: string | null;
+  // e.g. checked, expanded or disabled
+  states: string[];
+}
+
 export class DOMElementNode extends DOMBaseNode {
   tagName: string | null;
   /**
@@ -64,6 +75,16 @@ export class DOMElementNode extends DOMBaseNode {
   viewportCoordinates?: CoordinateSet;
   pageCoordinates?: CoordinateSet;
   viewportInfo?: ViewportInfo;
+  /**
+   * frameId: the id of the frame the element was built in when its iframe is not accessible from the page,
+   * e.g. cross-origin iframes. null for the elements of the page and of the iframes it can access.
+   */
+  frameId: number | null;
+  /**
+   * accessibility: the role, name, state and value of the element when the page is represented by its
+   * accessibility tree, null when it was built by buildDomTree.
+   */
+  accessibility: AccessibilityInfo | null;
 
   /*
 	### State injected by the browser context.
@@ -86,6 +107,8 @@ export class DOMElementNode extends DOMBaseNode {
     viewportCoordinates?: CoordinateSet;
     pageCoordinates?: CoordinateSet;
     viewportInfo?: ViewportInfo;
+    frameId?: number | null;
+    accessibility?: AccessibilityInfo | null;
     isNew?: boolean | null;
     parent?: DOMElementNode | null;
   }) {
@@ -102,6 +125,8 @@ export class DOMElementNode extends DOMBaseNode {
     this.viewportCoordinates = params.viewportCoordinates;
     this.pageCoordinates = params.pageCoordinates;
     this.viewportInfo = params.viewportInfo;
+    this.frameId = params.frameId ?? null;
+    this.accessibility = params.accessibility ?? null;
     this.isNew = params.isNew ?? null;
   }
 
@@ -198,7 +223,10 @@ export class DOMElementNode extends DOMBaseNode {
 
       if (node instanceof DOMElementNode) {
         // Add element with highlight_index
-        if (node.highlightIndex !== null) {
+        if (node.highlightIndex !== null && node.accessibility) {
+          nextDepth += 1;
+          formattedText.push(`${depthStr}${node.accessibilityToString()}`);
+        } else if (node.highlightIndex !== null) {
           nextDepth += 1;
 
           const text = node.getAllTextTillNextClickableElement();
@@ -325,6 +353,19 @@ export class DOMElementNode extends DOMBaseNode {
     return formattedText.join('\n');
   }
 
+  /**
+   * Format the element from its accessibility info, e.g. [3]<checkbox checked>Remember me />
+   */
+  accessibilityToString(): string {
+    const highlightIndicator = this.isNew ? `*[${this.highlightIndex}]*` : `[${this.highlightIndex}]`;
+    const info = this.accessibility;
+    if (!info) {
+      return highlightIndicator;
+    }
+    const details = [...(info.value !== null ? [`value='${info.value}'`] : []), ...info.states];
+    return `${highlightIndicator}<${info.role}${details.length > 0 ? ` ${details.join(' ')}` : ''}>${info.name} />`;
+  }
+
   getFileUploadElement(checkSiblings = true): DOMElementNode | null {
     // Check if current element is a file input
     if (this.tagName === 'input' && this.attributes?.type === 'file') {
@@ -0,0 +1,139 @@
+import { taskDownloadStore, type TaskDownload, type TaskDownloadState } from '@extension/storage';
+import { createLogger } from '@src/background/log';
+
+const logger = createLogger('DownloadTracker');
+
+function toTaskDownload(item: chrome.downloads.DownloadItem, taskId: string, step: number): TaskDownload {
+  return {
+    downloadId: item.id,
+    taskId,
+    step,
+    url: item.finalUrl || item.url,
+    filename: item.filename,
+    mime: item.mime,
+    fileSize: item.fileSize > 0 ? item.fileSize : item.bytesReceived,
+    totalBytes: item.totalBytes,
+    state: item.state as TaskDownloadState,
+    error: item.error ?? null,
+    startedAt: Date.parse(item.startTime) || Date.now(),
+    endedAt: item.endTime ? Date.parse(item.endTime) : null,
+  };
+}
+
+/**
+ * Tracks the files downloaded while a task is running and links them to the step that started them.
+ * chrome.downloads does not tell which tab started a download, so every download created while the task
+ * is running is attributed to it.
+ */
+export class DownloadTracker {
+  private readonly taskId: string;
+  private readonly getStep: () => number;
+  private readonly downloads = new Map<number, TaskDownload>();
+  // downloads already reported to the model by waitForDownload
+  private readonly reported = new Set<number>();
+  private listeners: (() => void)[] = [];
+  private listening = false;
+
+  constructor(taskId: string, getStep: () => number) {
+    this.taskId = taskId;
+    this.getStep = getStep;
+  }
+
+  private readonly handleCreated = (item: chrome.downloads.DownloadItem) => {
+    this.update(toTaskDownload(item, this.taskId, this.getStep()));
+  };
+
+  private readonly handleChanged = async (delta: chrome.downloads.DownloadDelta) => {
+    const download = this.downloads.get(delta.id);
+    if (!download) {
+      return;
+    }
+    try {
+      const [item] = await chrome.downloads.search({ id: delta.id });
+      if (item) {
+        this.update(toTaskDownload(item, download.taskId, download.step));
+      }
+    } catch (error) {
+      logger.warning(`Failed to get download ${delta.id}:`, error);
+    }
+  };
+
+  private update(download: TaskDownload): void {
+    this.downloads.set(download.downloadId, download);
+    taskDownloadStore.saveDownload(download).catch(error => {
+      logger.error(`Failed to save download ${download.downloadId}:`, error);
+    });
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+
+  start(): void {
+    if (this.listening) {
+      return;
+    }
+    if (!chrome.downloads) {
+      logger.warning('The downloads API is not available, downloads are not tracked');
+      return;
+    }
+    chrome.downloads.onCreated.addListener(this.handleCreated);
+    chrome.downloads.onChanged.addListener(this.handleChanged);
+    this.listening = true;
+  }
+
+  stop(): void {
+    if (!this.listening) {
+      return;
+    }
+    chrome.downloads.onCreated.removeListener(this.handleCreated);
+    chrome.downloads.onChanged.removeListener(this.handleChanged);
+    this.listening = false;
+  }
+
+  /**
+   * Downloads of the task, oldest first
+   */
+  getDownloads(): TaskDownload[] {
+    return Array.from(this.downloads.values());
+  }
+
+  /**
+   * Wait for the oldest download that has not been reported yet to finish, if no download
+   * was started yet wait for one to start first
+   * @param timeoutMs How long to wait at most
+   * @param signal Aborts the wait when the task is cancelled
+   * @returns The download, still in progress if the wait timed out. null if no download was started
+   */
+  async waitForDownload(timeoutMs: number, signal?: AbortSignal): Promise<TaskDownload | null> {
+    const pending = () => this.getDownloads().find(download => !this.reported.has(download.downloadId));
+    if (signal?.aborted) {
+      return pending() ?? null;
+    }
+
+    await new Promise<void>(resolve => {
+      const check = () => {
+        const download = pending();
+        if (!download || download.state === 'in_progress') {
+          return;
+        }
+        finish();
+      };
+      const finish = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', finish);
+        this.listeners = this.listeners.filter(listener => listener !== check);
+        resolve();
+      };
+      const timer = setTimeout(finish, timeoutMs);
+      signal?.addEventListener('abort', finish);
+      this.listeners.push(check);
+      check();
+    });
+
+    const download = pending() ?? null;
+    if (download && download.state !== 'in_progress') {
+      this.reported.add(download.downloadId);
+    }
+    return download;
+  }
+}
@@ -0,0 +1,205 @@
+import type { HTTPRequest } from 'puppeteer-core/lib/esm/puppeteer/puppeteer-core-browser.js';
+import type { Page as PuppeteerPage } from 'puppeteer-core/lib/esm/puppeteer/api/Page.js';
+import { taskNetworkStore, type TaskNetworkRequest } from '@extension/storage';
+import { createLogger } from '@src/background/log';
+
+const logger = createLogger('NetworkRecorder');
+
+// Requests kept for each tab, the oldest are dropped first
+const MAX_REQUESTS_PER_TAB = 200;
+// Bodies of larger JSON responses are not kept
+const MAX_BODY_BYTES = 200_000;
+// Finished requests are saved to the storage in batches, a page polling an API would write it constantly otherwise
+const SAVE_DELAY_MS = 1000;
+
+/**
+ * An XHR or fetch request made by a page
+ */
+export interface NetworkRequest {
+  id: string;
+  tabId: number;
+  method: string;
+  url: string;
+  resourceType: 'xhr' | 'fetch';
+  status: number | null;
+  mimeType: string;
+  // bytes of the response body, -1 if unknown
+  size: number;
+  error: string | null;
+  startedAt: number;
+  // null while the request is pending
+  endedAt: number | null;
+  // only kept for JSON responses up to MAX_BODY_BYTES
+  body: string | null;
+}
+
+function isJsonMimeType(mimeType: string): boolean {
+  return mimeType === 'application/json' || mimeType.endsWith('+json');
+}
+
+/**
+ * Records the XHR and fetch requests of a page, the API calls that load the data of e.g. a dashboard
+ */
+export class NetworkRecorder {
+  private readonly tabId: number;
+  private readonly pending = new Map<HTTPRequest, NetworkRequest>();
+  private requests: NetworkRequest[] = [];
+  private nextId = 1;
+  private page: PuppeteerPage | null = null;
+  // called when a request finished or failed
+  onFinished: ((request: NetworkRequest) => void) | null = null;
+
+  constructor(tabId: number) {
+    this.tabId = tabId;
+  }
+
+  private readonly handleRequest = (request: HTTPRequest) => {
+    const resourceType = request.resourceType();
+    if (resourceType !== 'xhr' && resourceType !== 'fetch') {
+      return;
+    }
+    const entry: NetworkRequest = {
+      id: `${this.tabId}.${this.nextId++}`,
+      tabId: this.tabId,
+      method: request.method(),
+      url: request.url(),
+      resourceType,
+      status: null,
+      mimeType: '',
+      size: -1,
+      error: null,
+      startedAt: Date.now(),
+      endedAt: null,
+      body: null,
+    };
+    this.pending.set(request, entry);
+    this.requests.push(entry);
+    if (this.requests.length > MAX_REQUESTS_PER_TAB) {
+      this.requests.splice(0, this.requests.length - MAX_REQUESTS_PER_TAB);
+    }
+  };
+
+  private readonly handleFinished = async (request: HTTPRequest) => {
+    const entry = this.pending.get(request);
+    if (!entry) {
+      return;
+    }
+    this.pending.delete(request);
+
+    const response = request.response();
+    if (response) {
+      const headers = response.headers();
+      const contentLength = Number.parseInt(headers['content-length'] ?? '', 10);
+      entry.status = response.status();
+      entry.mimeType = (headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+      entry.size = Number.isNaN(contentLength) ? -1 : contentLength;
+      if (isJsonMimeType(entry.mimeType) && entry.size <= MAX_BODY_BYTES) {
+        try {
+          const body = await response.text();
+          entry.size = new TextEncoder().encode(body).length;
+          entry.body = entry.size <= MAX_BODY_BYTES ? body : null;
+        } catch (error) {
+          // the body is gone when the page navigated away in the meantime
+          logger.debug(`Failed to get the response body of ${entry.url}:`, error);
+        }
+      }
+    }
+    entry.endedAt = Date.now();
+    this.onFinished?.(entry);
+  };
+
+  private readonly handleFailed = (request: HTTPRequest) => {
+    const entry = this.pending.get(request);
+    if (!entry) {
+      return;
+    }
+    this.pending.delete(request);
+    entry.status = request.response()?.status() ?? null;
+    entry.error = request.failure()?.errorText ?? 'unknown error';
+    entry.endedAt = Date.now();
+    this.onFinished?.(entry);
+  };
+
+  attach(page: PuppeteerPage): void {
+    this.detach();
+    page.on('request', this.handleRequest);
+    page.on('requestfinished', this.handleFinished);
+    page.on('requestfailed', this.handleFailed);
+    this.page = page;
+  }
+
+  detach(): void {
+    if (!this.page) {
+      return;
+    }
+    this.page.off('request', this.handleRequest);
+    this.page.off('requestfinished', this.handleFinished);
+    this.page.off('requestfailed', this.handleFailed);
+    this.page = null;
+    this.pending.clear();
+  }
+
+  /**
+   * Recorded requests of the page, oldest first
+   */
+  getRequests(): NetworkRequest[] {
+    return [...this.requests];
+  }
+
+  getRequest(id: string): NetworkRequest | undefined {
+    return this.requests.find(request => request.id === id);
+  }
+}
+
+/**
+ * Saves the API calls finished while a task is running to the network log of the task, without their bodies
+ */
+export class TaskNetworkLog {
+  private readonly taskId: string;
+  private readonly getStep: () => number;
+  private unsaved: TaskNetworkRequest[] = [];
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(taskId: string, getStep: () => number) {
+    this.taskId = taskId;
+    this.getStep = getStep;
+  }
+
+  readonly record = (request: NetworkRequest) => {
+    this.unsaved.push({
+      requestId: request.id,
+      taskId: this.taskId,
+      step: this.getStep(),
+      tabId: request.tabId,
+      method: request.method,
+      url: request.url,
+      resourceType: request.resourceType,
+      status: request.status,
+      mimeType: request.mimeType,
+      size: request.size,
+      error: request.error,
+      startedAt: request.startedAt,
+      endedAt: request.endedAt ?? Date.now(),
+    });
+    if (!this.saveTimer) {
+      this.saveTimer = setTimeout(() => this.flush(), SAVE_DELAY_MS);
+    }
+  };
+
+  /**
+   * Save the requests recorded since the last save
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    const requests = this.unsaved;
+    this.unsaved = [];
+    try {
+      await taskNetworkStore.saveRequests(requests);
+    } catch (error) {
+      logger.error(`Failed to save ${requests.length} network requests:`, error);
+    }
+  }
+}
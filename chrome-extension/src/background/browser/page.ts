@@ -8,22 +8,44 @@ import {
   type KeyInput,
 } from 'puppeteer-core/lib/esm/puppeteer/puppeteer-core-browser.js';
 import type { Browser } from 'puppeteer-core/lib/esm/puppeteer/api/Browser.js';
-import type { Page as PuppeteerPage } from 'puppeteer-core/lib/esm/puppeteer/api/Page.js';
+import type { Page as PuppeteerPage, ScreenshotClip } from 'puppeteer-core/lib/esm/puppeteer/api/Page.js';
 import type { ElementHandle } from 'puppeteer-core/lib/esm/puppeteer/api/ElementHandle.js';
 import type { Frame } from 'puppeteer-core/lib/esm/puppeteer/api/Frame.js';
+import type { Dialog } from 'puppeteer-core/lib/esm/puppeteer/api/Dialog.js';
 import {
   getClickableElements as _getClickableElements,
   removeHighlights as _removeHighlights,
   getScrollInfo as _getScrollInfo,
+  getMarkdownContent as _getMarkdownContent,
+  getReadabilityContent as _getReadabilityContent,
+  getFrameElementSteps,
+  getFrameHost,
+  getFrameUrl,
+  locateFrameElement,
 } from './dom/service';
 import { DOMElementNode, type DOMState } from './dom/views';
-import { type BrowserContextConfig, DEFAULT_BROWSER_CONTEXT_CONFIG, type PageState, URLNotAllowedError } from './views';
+import { type CoordinateSet, DOMHistoryElement } from './dom/history/view';
+import {
+  type BrowserContextConfig,
+  DEFAULT_BROWSER_CONTEXT_CONFIG,
+  type PageDialog,
+  type PageState,
+  URLNotAllowedError,
+} from './views';
 import { createLogger } from '@src/background/log';
 import { ClickableElementProcessor } from './dom/clickable/service';
-import { isUrlAllowed } from './util';
+import { getPageRepresentation, isUrlAllowed } from './util';
+import { getAccessibilityElements } from './dom/accessibility';
+import { waitForDomQuiet } from './dom/mutation-observer';
+import { NetworkRecorder } from './network';
 
 const logger = createLogger('Page');
 
+// Overlay with the coordinates drawn on the screenshots for the vision model
+const COORDINATE_MARKS_CONTAINER_ID = 'nanobrowser-coordinate-marks';
+// Distance in CSS pixels between the coordinate marks
+const COORDINATE_MARKS_SPACING = 100;
+
 export function build_initial_state(tabId?: number, url?: string, title?: string): PageState {
   return {
     elementTree: new DOMElementNode({
@@ -41,6 +63,20 @@ export function build_initial_state(tabId?: number, url?: string, title?: string
     screenshot: null,
     pixelsAbove: 0,
     pixelsBelow: 0,
+    dialog: null,
+  };
+}
+
+function toCoordinateSet(rect: { x: number; y: number; width: number; height: number }): CoordinateSet {
+  const { x, y, width, height } = rect;
+  return {
+    topLeft: { x, y },
+    topRight: { x: x + width, y },
+    bottomLeft: { x, y: y + height },
+    bottomRight: { x: x + width, y: y + height },
+    center: { x: x + width / 2, y: y + height / 2 },
+    width,
+    height,
   };
 }
 
@@ -66,11 +102,15 @@ export default class Page {
   private _validWebPage = false;
   private _cachedState: PageState | null = null;
   private _cachedStateClickableElementsHashes: CachedStateClickableElementsHashes | null = null;
+  // JavaScript dialog waiting to be accepted or dismissed, the page does not run scripts until then
+  private _dialog: Dialog | null = null;
+  private _network: NetworkRecorder;
 
   constructor(tabId: number, url: string, title: string, config: Partial<BrowserContextConfig> = {}) {
     this._tabId = tabId;
     this._config = { ...DEFAULT_BROWSER_CONTEXT_CONFIG, ...config };
     this._state = build_initial_state(tabId, url, title);
+    this._network = new NetworkRecorder(tabId);
     // chrome://newtab/, chrome://newtab/extensions, https://chromewebstore.google.com/ are not valid web pages, can't be attached
     const lowerCaseUrl = url.trim().toLowerCase();
     this._validWebPage =
@@ -89,6 +129,13 @@ export default class Page {
     return this._validWebPage;
   }
 
+  /**
+   * The XHR and fetch requests of the page
+   */
+  get network(): NetworkRecorder {
+    return this._network;
+  }
+
   get attached(): boolean {
     return this._validWebPage && this._puppeteerPage !== null;
   }
@@ -112,6 +159,11 @@ export default class Page {
 
     const [page] = await browser.pages();
     this._puppeteerPage = page;
+    page.on('dialog', dialog => {
+      logger.info(`${dialog.type()} dialog opened:`, dialog.message());
+      this._dialog = dialog;
+    });
+    this._network.attach(page);
 
     // Add anti-detection scripts
     await this._addAntiDetectionScripts();
@@ -166,6 +218,8 @@ export default class Page {
       await this._browser.disconnect();
       this._browser = null;
       this._puppeteerPage = null;
+      this._dialog = null;
+      this._network.detach();
       // reset the state
       this._state = build_initial_state(this._tabId);
     }
@@ -181,13 +235,20 @@ export default class Page {
     if (!this._validWebPage) {
       return null;
     }
-    return _getClickableElements(
-      this._tabId,
-      this.url(),
-      showHighlightElements,
-      focusElement,
-      this._config.viewportExpansion,
+    const url = this.url();
+    const representation = getPageRepresentation(
+      url,
+      this._config.pageRepresentation,
+      this._config.pageRepresentationDomains,
     );
+    if (representation === 'accessibility' && this._puppeteerPage && url !== 'about:blank') {
+      try {
+        return await getAccessibilityElements(this._tabId, showHighlightElements, this._config.viewportExpansion);
+      } catch (error) {
+        logger.warning('Failed to build the elements from the accessibility tree, using buildDomTree:', error);
+      }
+    }
+    return _getClickableElements(this._tabId, url, showHighlightElements, focusElement, this._config.viewportExpansion);
   }
 
   // Get scroll position information for the current page.
@@ -205,11 +266,41 @@ export default class Page {
     return await this._puppeteerPage.content();
   }
 
+  /**
+   * Get the text content of the page for extraction, as markdown if possible
+   * @returns The markdown, the readable article text or the visible text of the page
+   */
+  async getTextContent(): Promise<string> {
+    if (!this._validWebPage) {
+      return '';
+    }
+    try {
+      return await _getMarkdownContent(this._tabId);
+    } catch (error) {
+      logger.debug(`Markdown content is not available, using readability: ${error}`);
+    }
+    try {
+      const readability = await _getReadabilityContent(this._tabId);
+      return `# ${readability.title}\n\n${readability.textContent}`;
+    } catch (error) {
+      logger.debug(`Readability content is not available, using the visible text: ${error}`);
+    }
+    if (!this._puppeteerPage) {
+      throw new Error('Puppeteer page is not connected');
+    }
+    return await this._puppeteerPage.evaluate(() => document.body?.innerText ?? '');
+  }
+
   async getState(useVision = false, cacheClickableElementsHashes = false): Promise<PageState> {
     if (!this._validWebPage) {
       // return the initial state
       return build_initial_state(this._tabId);
     }
+    await this._checkDialogClosed();
+    if (this._dialog) {
+      // the page can not be inspected while the dialog blocks it, the dialog has to be handled first
+      return { ...build_initial_state(this._tabId, this._state.url, this._state.title), dialog: this.dialog };
+    }
     await this.waitForPageAndFramesLoad();
     const updatedState = await this._updateState(useVision);
 
@@ -285,7 +376,7 @@ export default class Page {
       }
 
       // Take screenshot if needed
-      const screenshot = useVision ? await this.takeScreenshot() : null;
+      const screenshot = useVision ? await this.takeMarkedScreenshot() : null;
       const [pixelsAbove, pixelsBelow] = await this.getScrollInfo();
 
       // update the state
@@ -304,7 +395,96 @@ export default class Page {
     }
   }
 
-  async takeScreenshot(fullPage = false): Promise<string | null> {
+  /**
+   * The JavaScript dialog that blocks the page, null if there is none
+   */
+  get dialog(): PageDialog | null {
+    if (!this._dialog) {
+      return null;
+    }
+    return {
+      type: this._dialog.type() as PageDialog['type'],
+      message: this._dialog.message(),
+      defaultValue: this._dialog.defaultValue(),
+    };
+  }
+
+  /**
+   * Accept or dismiss the JavaScript dialog that blocks the page
+   * @param accept Whether to press OK, or leave the page for a beforeunload dialog
+   * @param promptText Text to enter into a prompt dialog, its default value if not given
+   * @returns The handled dialog
+   */
+  async handleDialog(accept: boolean, promptText?: string): Promise<PageDialog> {
+    const dialog = this._dialog;
+    const info = this.dialog;
+    if (!dialog || !info) {
+      throw new Error('No dialog is open');
+    }
+    this._dialog = null;
+    if (accept) {
+      await dialog.accept(promptText);
+    } else {
+      await dialog.dismiss();
+    }
+    return info;
+  }
+
+  /**
+   * Forget the dialog if the user closed it in the browser, scripts of the page run again once it is closed
+   */
+  private async _checkDialogClosed(): Promise<void> {
+    if (!this._dialog || !this._puppeteerPage) {
+      return;
+    }
+    const closed = await Promise.race([
+      this._puppeteerPage.evaluate('1').then(
+        () => true,
+        () => false,
+      ),
+      new Promise<boolean>(resolve => setTimeout(() => resolve(false), 300)),
+    ]);
+    if (closed) {
+      logger.info('Dialog was closed outside of the agent');
+      this._dialog = null;
+    }
+  }
+
+  /**
+   * Wait for a promise of the page, but stop waiting when a JavaScript dialog opens,
+   * e.g. a click that opens confirm() or a navigation blocked by a beforeunload dialog only
+   * continue after the dialog is handled
+   * @returns The result of the promise, undefined if a dialog opened first
+   */
+  private async _untilDialog<T>(promise: Promise<T>): Promise<T | undefined> {
+    const page = this._puppeteerPage;
+    if (this._dialog) {
+      promise.catch(error => logger.debug('Blocked by a dialog:', error));
+      throw new Error(`A ${this._dialog.type()} dialog blocks the page, handle it with handle_dialog first`);
+    }
+    if (!page) {
+      return await promise;
+    }
+    let onDialog: () => void = () => {};
+    const dialogOpened = new Promise<undefined>(resolve => {
+      onDialog = () => resolve(undefined);
+      page.once('dialog', onDialog);
+    });
+    // the promise may still fail after the dialog is handled, nobody is waiting for it then
+    promise.catch(error => logger.debug('Interrupted by a dialog:', error));
+    try {
+      return await Promise.race([promise, dialogOpened]);
+    } finally {
+      page.off('dialog', onDialog);
+    }
+  }
+
+  /**
+   * Take a screenshot of the page
+   * @param fullPage Capture the whole page instead of the viewport
+   * @param cssPixels Scale the screenshot of the viewport so that a pixel of the screenshot is a CSS pixel of the viewport
+   */
+  async takeScreenshot(fullPage = false, cssPixels = false): Promise<string | null> {
     if (!this._puppeteerPage) {
       throw new Error('Puppeteer page is not connected');
     }
@@ -326,9 +506,24 @@ export default class Page {
         }
       });
 
+      let clip: ScreenshotClip | undefined;
+      if (cssPixels && !fullPage) {
+        clip = await this._puppeteerPage.evaluate(() => {
+          const viewport = window.visualViewport;
+          return {
+            x: viewport?.pageLeft ?? window.scrollX,
+            y: viewport?.pageTop ?? window.scrollY,
+            width: viewport?.width ?? window.innerWidth,
+            height: viewport?.height ?? window.innerHeight,
+            scale: 1 / window.devicePixelRatio,
+          };
+        });
+      }
+
       // Take the screenshot using JPEG format with 80% quality
       const screenshot = await this._puppeteerPage.screenshot({
         fullPage: fullPage,
+        clip,
         encoding: 'base64',
         type: 'jpeg',
         quality: 80, // Good balance between quality and file size
@@ -349,6 +544,85 @@ export default class Page {
     }
   }
 
+  /**
+   * Take a screenshot of the viewport for the vision model. The coordinates are marked along the edges of the
+   * screenshot and a pixel of it is a CSS pixel of the viewport, so that the model can click positions it sees
+   * with click_coordinates. The indexes of the highlighted elements are marked by the highlights of the DOM tree.
+   */
+  async takeMarkedScreenshot(): Promise<string | null> {
+    if (!this._puppeteerPage) {
+      throw new Error('Puppeteer page is not connected');
+    }
+
+    await this._puppeteerPage.evaluate(
+      (containerId, spacing) => {
+        document.getElementById(containerId)?.remove();
+        const container = document.createElement('div');
+        container.id = containerId;
+        container.style.cssText =
+          'position:fixed;top:0;left:0;width:100%;height:100%;pointer-events:none;z-index:2147483647;';
+
+        const addMark = (position: number, vertical: boolean) => {
+          const line = document.createElement('div');
+          line.style.cssText = vertical
+            ? `position:absolute;top:0;left:${position}px;width:0;height:100%;border-left:1px dashed rgba(255,0,128,0.35);`
+            : `position:absolute;left:0;top:${position}px;height:0;width:100%;border-top:1px dashed rgba(255,0,128,0.35);`;
+          container.appendChild(line);
+
+          const label = document.createElement('div');
+          label.textContent = String(position);
+          label.style.cssText =
+            'position:absolute;padding:0 2px;font:bold 10px monospace;line-height:12px;color:#fff;background:rgba(255,0,128,0.85);' +
+            (vertical ? `top:0;left:${position + 1}px;` : `left:0;top:${position + 1}px;`);
+          container.appendChild(label);
+        };
+        for (let x = spacing; x < window.innerWidth; x += spacing) {
+          addMark(x, true);
+        }
+        for (let y = spacing; y < window.innerHeight; y += spacing) {
+          addMark(y, false);
+        }
+        document.documentElement.appendChild(container);
+      },
+      COORDINATE_MARKS_CONTAINER_ID,
+      COORDINATE_MARKS_SPACING,
+    );
+    try {
+      return await this.takeScreenshot(false, true);
+    } finally {
+      await this._puppeteerPage
+        .evaluate(containerId => document.getElementById(containerId)?.remove(), COORDINATE_MARKS_CONTAINER_ID)
+        .catch(error => logger.warning('Failed to remove the coordinate marks:', error));
+    }
+  }
+
+  /**
+   * Take a screenshot of the viewport with an element outlined, e.g. to show the user what the agent is about to click
+   * @param elementNode The element to outline
+   * @returns Base64 encoded jpeg, null if the element can not be found
+   */
+  async takeHighlightedScreenshot(elementNode: DOMElementNode): Promise<string | null> {
+    const element = await this.locateElement(elementNode);
+    if (!element) {
+      return null;
+    }
+
+    await this._scrollIntoViewIfNeeded(element);
+    const previousOutline = await element.evaluate(el => {
+      const style = (el as HTMLElement).style;
+      const outline = style.outline;
+      style.outline = '3px solid #ef4444';
+      return outline;
+    });
+    try {
+      return await this.takeScreenshot();
+    } finally {
+      await element.evaluate((el, outline) => {
+        (el as HTMLElement).style.outline = outline;
+      }, previousOutline);
+    }
+  }
+
   url(): string {
     if (this._puppeteerPage) {
       return this._puppeteerPage.url();
@@ -375,7 +649,7 @@ export default class Page {
     }
 
     try {
-      await Promise.all([this.waitForPageAndFramesLoad(), this._puppeteerPage.goto(url)]);
+      await this._untilDialog(Promise.all([this.waitForPageAndFramesLoad(), this._puppeteerPage.goto(url)]));
       logger.info('navigateTo complete');
     } catch (error) {
       if (error instanceof URLNotAllowedError) {
@@ -396,7 +670,7 @@ export default class Page {
     if (!this._puppeteerPage) return;
 
     try {
-      await Promise.all([this.waitForPageAndFramesLoad(), this._puppeteerPage.reload()]);
+      await this._untilDialog(Promise.all([this.waitForPageAndFramesLoad(), this._puppeteerPage.reload()]));
       logger.info('Page refresh complete');
     } catch (error) {
       if (error instanceof URLNotAllowedError) {
@@ -417,7 +691,7 @@ export default class Page {
     if (!this._puppeteerPage) return;
 
     try {
-      await Promise.all([this.waitForPageAndFramesLoad(), this._puppeteerPage.goBack()]);
+      await this._untilDialog(Promise.all([this.waitForPageAndFramesLoad(), this._puppeteerPage.goBack()]));
       logger.info('Navigation back completed');
     } catch (error) {
       if (error instanceof URLNotAllowedError) {
@@ -438,7 +712,7 @@ export default class Page {
     if (!this._puppeteerPage) return;
 
     try {
-      await Promise.all([this.waitForPageAndFramesLoad(), this._puppeteerPage.goForward()]);
+      await this._untilDialog(Promise.all([this.waitForPageAndFramesLoad(), this._puppeteerPage.goForward()]));
       logger.info('Navigation forward completed');
     } catch (error) {
       if (error instanceof URLNotAllowedError) {
@@ -475,6 +749,10 @@ export default class Page {
     }
   }
 
+  async scrollTo(x: number, y: number): Promise<void> {
+    await this._puppeteerPage?.evaluate((x, y) => window.scrollTo(x, y), x, y);
+  }
+
   async sendKeys(keys: string): Promise<void> {
     if (!this._puppeteerPage) {
       throw new Error('Puppeteer page is not connected');
@@ -493,10 +771,9 @@ export default class Page {
       }
       // Press the main key
       // also wait for stable state
-      await Promise.all([
-        this._puppeteerPage.keyboard.press(this._convertKey(mainKey)),
-        this.waitForPageAndFramesLoad(),
-      ]);
+      await this._untilDialog(
+        Promise.all([this._puppeteerPage.keyboard.press(this._convertKey(mainKey)), this.waitForPageAndFramesLoad()]),
+      );
       logger.info('sendKeys complete', keys);
     } catch (error) {
       logger.error('Failed to send keys:', error);
@@ -831,9 +1108,12 @@ export default class Page {
       //   await this._updateState(useVision, elementNode.highlightIndex);
       // }
 
-      const element = await this.locateElement(elementNode);
+      const element = elementNode.frameId === null ? await this.locateElement(elementNode) : null;
       if (!element) {
-        throw new Error(`Element: ${elementNode} not found`);
+        // elements in cross-origin iframes and closed shadow roots are not reachable through puppeteer
+        await this._inputTextByPosition(elementNode, text);
+        await this.waitForPageAndFramesLoad();
+        return;
       }
 
       // Ensure element is ready for input
@@ -912,6 +1192,34 @@ export default class Page {
     }
   }
 
+  async uploadFileElementNode(elementNode: DOMElementNode, filePath: string): Promise<void> {
+    if (!this._puppeteerPage) {
+      throw new Error('Puppeteer is not connected');
+    }
+
+    try {
+      const element = await this.locateElement(elementNode);
+      if (!element) {
+        throw new Error(`Element: ${elementNode} not found`);
+      }
+
+      // the indexed element may be a wrapper (e.g. a label or a drop zone) around the file input
+      const isFileInput = await element.evaluate(el => el instanceof HTMLInputElement && el.type === 'file');
+      const fileInput = isFileInput ? element : await element.$('input[type="file"]');
+      if (!fileInput) {
+        throw new Error('No file input found in the element');
+      }
+
+      // uploadFile sets the files through DOM.setFileInputFiles and dispatches the input and change events
+      await (fileInput as ElementHandle<HTMLInputElement>).uploadFile(filePath);
+      await this.waitForPageAndFramesLoad();
+    } catch (error) {
+      const errorMsg = `Failed to upload file into element: ${elementNode}. Error: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(errorMsg);
+      throw new Error(errorMsg);
+    }
+  }
+
   /**
    * Wait for an element to become stable (no position/size changes)
    * Similar to Playwright's wait_for_element_state('stable')
@@ -1014,9 +1322,12 @@ export default class Page {
       //   await this._updateState(useVision, elementNode.highlightIndex);
       // }
 
-      const element = await this.locateElement(elementNode);
+      const element = elementNode.frameId === null ? await this.locateElement(elementNode) : null;
       if (!element) {
-        throw new Error(`Element: ${elementNode} not found`);
+        // elements in cross-origin iframes and closed shadow roots are not reachable through puppeteer
+        await this._clickByPosition(elementNode);
+        await this._checkAndHandleNavigation();
+        return;
       }
 
       // Scroll element into view if needed
@@ -1024,16 +1335,22 @@ export default class Page {
 
       try {
         // First attempt: Use Puppeteer's click method with timeout
-        await Promise.race([
-          element.click(),
-          new Promise((_, reject) => setTimeout(() => reject(new Error('Click timeout')), 2000)),
-        ]);
+        await this._untilDialog(
+          Promise.race([
+            element.click(),
+            new Promise((_, reject) => setTimeout(() => reject(new Error('Click timeout')), 2000)),
+          ]),
+        );
         await this._checkAndHandleNavigation();
       } catch (error) {
         // if URLNotAllowedError, throw it
         if (error instanceof URLNotAllowedError) {
           throw error;
         }
+        // the click went through if it opened a dialog, clicking again would open it twice
+        if (this._dialog) {
+          return;
+        }
         // Second attempt: Use evaluate to perform a direct click
         logger.info('Failed to click element, trying again', error);
         try {
@@ -1055,6 +1372,392 @@ export default class Page {
     }
   }
 
+  /**
+   * Click an element with the mouse at its position in the viewport,
+   * for elements that can only be resolved by the frame they are in
+   */
+  private async _clickByPosition(elementNode: DOMElementNode): Promise<void> {
+    if (!this._puppeteerPage) {
+      throw new Error('Puppeteer is not connected');
+    }
+    const point = await this._getElementCenter(elementNode);
+    await this._untilDialog(this._puppeteerPage.mouse.click(point.x, point.y));
+  }
+
+  /**
+   * Focus an element by clicking it and type into it with the keyboard,
+   * for elements that can only be resolved by the frame they are in
+   */
+  private async _inputTextByPosition(elementNode: DOMElementNode, text: string): Promise<void> {
+    const point = await this._getElementCenter(elementNode);
+    await this._puppeteerPage?.mouse.click(point.x, point.y);
+    await locateFrameElement(this._tabId, elementNode.frameId ?? 0, getFrameElementSteps(elementNode), true);
+    await this._puppeteerPage?.keyboard.type(text, { delay: 50 });
+  }
+
+  /**
+   * Get the center of an element in the viewport of the page, resolving the element in its frame
+   */
+  private async _getElementCenter(elementNode: DOMElementNode): Promise<{ x: number; y: number }> {
+    const position = await locateFrameElement(this._tabId, elementNode.frameId ?? 0, getFrameElementSteps(elementNode));
+    if (!position) {
+      throw new Error(`Element: ${elementNode} not found`);
+    }
+    const origin = await this._getFrameOrigin(elementNode);
+    return { x: origin.x + position.x + position.width / 2, y: origin.y + position.y + position.height / 2 };
+  }
+
+  /**
+   * Get the URL of the document an element is in, which differs from the URL of the page for the elements of
+   * cross-origin iframes
+   * @returns The URL, null if the frame of the element is gone or cannot be scripted
+   */
+  async getElementDocumentUrl(elementNode: DOMElementNode): Promise<string | null> {
+    if (elementNode.frameId === null) {
+      return this.url();
+    }
+    return getFrameUrl(this._tabId, elementNode.frameId);
+  }
+
+  /**
+   * Get where the viewport of the frame of an element starts in the viewport of the page
+   */
+  private async _getFrameOrigin(elementNode: DOMElementNode): Promise<{ x: number; y: number }> {
+    if (elementNode.frameId === null) {
+      return { x: 0, y: 0 };
+    }
+    const iframe = getFrameHost(elementNode);
+    if (!iframe) {
+      throw new Error(`Iframe of element: ${elementNode} not found`);
+    }
+
+    if (iframe.frameId === null) {
+      // the iframe is in the page, puppeteer gives its position including the iframes the page can access
+      const iframeHandle = await this.locateElement(iframe);
+      const boxModel = await iframeHandle?.boxModel();
+      if (!boxModel) {
+        throw new Error(`Iframe: ${iframe} not found`);
+      }
+      return { x: boxModel.content[0].x, y: boxModel.content[0].y };
+    }
+
+    const position = await locateFrameElement(this._tabId, iframe.frameId, getFrameElementSteps(iframe));
+    if (!position) {
+      throw new Error(`Iframe: ${iframe} not found`);
+    }
+    const origin = await this._getFrameOrigin(iframe);
+    return { x: origin.x + position.contentX, y: origin.y + position.contentY };
+  }
+
+  async hoverElementNode(elementNode: DOMElementNode): Promise<void> {
+    if (!this._puppeteerPage) {
+      throw new Error('Puppeteer is not connected');
+    }
+
+    try {
+      const element = elementNode.frameId === null ? await this.locateElement(elementNode) : null;
+      if (element) {
+        await this._scrollIntoViewIfNeeded(element);
+      }
+      const point = await this._getInteractionPoint(elementNode, element);
+      await this._puppeteerPage.mouse.move(point.x, point.y, { steps: 5 });
+    } catch (error) {
+      throw new Error(
+        `Failed to hover element: ${elementNode}. Error: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Drag an element with the mouse and drop it on another element or at an offset from where it was.
+   * Draggable elements get the HTML5 drag events, which the browser does not fire for emulated mouse input,
+   * other elements are dragged by pressing, moving and releasing the mouse.
+   * @param source The element to drag
+   * @param target The element to drop on, null to move by the offset
+   * @param offset Pixels to move the element by if there is no target
+   * @returns false if the drop target did not accept the HTML5 drop
+   */
+  async dragElementNode(
+    source: DOMElementNode,
+    target: DOMElementNode | null,
+    offset: { x: number; y: number },
+  ): Promise<boolean> {
+    if (!this._puppeteerPage) {
+      throw new Error('Puppeteer is not connected');
+    }
+
+    try {
+      const sourceHandle = source.frameId === null ? await this.locateElement(source) : null;
+      if (sourceHandle) {
+        await this._scrollIntoViewIfNeeded(sourceHandle);
+      }
+      const start = await this._getInteractionPoint(source, sourceHandle);
+
+      // the target is not scrolled into view, scrolling could move the source out of it
+      const targetHandle = target && target.frameId === null ? await this.locateElement(target) : null;
+      const end = target
+        ? await this._getInteractionPoint(target, targetHandle)
+        : { x: start.x + offset.x, y: start.y + offset.y };
+      const viewport = await this._puppeteerPage.evaluate(() => ({
+        width: window.innerWidth,
+        height: window.innerHeight,
+      }));
+      if (end.x < 0 || end.y < 0 || end.x >= viewport.width || end.y >= viewport.height) {
+        throw new Error('Drop position is outside of the viewport, scroll so that the source and target are visible');
+      }
+
+      const mouse = this._puppeteerPage.mouse;
+      await mouse.move(start.x, start.y, { steps: 5 });
+
+      const isHtml5Draggable =
+        sourceHandle !== null && (await sourceHandle.evaluate(el => el.closest('[draggable="true"]') !== null));
+      // the HTML5 events are dispatched in the frame of the source, the target has to be in the same frame
+      if (isHtml5Draggable && (targetHandle === null || targetHandle.frame === sourceHandle.frame)) {
+        await mouse.move(end.x, end.y, { steps: 20 });
+        return await sourceHandle.evaluate(
+          (el, dropElement, offsetX, offsetY) => {
+            const dragged = el.closest('[draggable="true"]') ?? el;
+            const center = (element: Element) => {
+              const rect = element.getBoundingClientRect();
+              return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+            };
+            const startPoint = center(dragged);
+            const endPoint = dropElement
+              ? center(dropElement)
+              : { x: startPoint.x + offsetX, y: startPoint.y + offsetY };
+            const dropTarget = dropElement ?? document.elementFromPoint(endPoint.x, endPoint.y);
+
+            const dataTransfer = new DataTransfer();
+            // returns false if the page cancelled the event
+            const fire = (element: Element, type: string, point: { x: number; y: number }) =>
+              element.dispatchEvent(
+                new DragEvent(type, {
+                  bubbles: true,
+                  cancelable: true,
+                  composed: true,
+                  clientX: point.x,
+                  clientY: point.y,
+                  dataTransfer,
+                }),
+              );
+
+            if (!fire(dragged, 'dragstart', startPoint)) {
+              return false;
+            }
+            fire(dragged, 'drag', startPoint);
+            let dropped = false;
+            if (dropTarget) {
+              fire(dropTarget, 'dragenter', endPoint);
+              // drop targets accept the drop by cancelling dragover
+              if (!fire(dropTarget, 'dragover', endPoint)) {
+                fire(dropTarget, 'drop', endPoint);
+                dropped = true;
+              } else {
+                fire(dropTarget, 'dragleave', endPoint);
+              }
+            }
+            fire(dragged, 'dragend', endPoint);
+            return dropped;
+          },
+          targetHandle,
+          offset.x,
+          offset.y,
+        );
+      }
+
+      await mouse.down();
+      // a small move first, libraries only start dragging after the pointer moved a few pixels
+      await mouse.move(start.x + Math.sign(end.x - start.x) * 5, start.y + Math.sign(end.y - start.y) * 5, {
+        steps: 2,
+      });
+      await mouse.move(end.x, end.y, { steps: 20 });
+      await mouse.up();
+      return true;
+    } catch (error) {
+      throw new Error(
+        `Failed to drag element: ${source}. Error: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Get the center of an element in the viewport of the page
+   * @param elementNode The element
+   * @param element The handle of the element, null if puppeteer can not reach it
+   */
+  private async _getInteractionPoint(
+    elementNode: DOMElementNode,
+    element: ElementHandle | null,
+  ): Promise<{ x: number; y: number }> {
+    if (!element) {
+      return await this._getElementCenter(elementNode);
+    }
+    const box = await element.boundingBox();
+    if (!box) {
+      throw new Error(`Element: ${elementNode} is not visible`);
+    }
+    return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+  }
+
+  /**
+   * Move the mouse to a position of the viewport and click it, for canvas apps, maps and custom widgets
+   * that have no elements to click by index
+   * @param x The horizontal position in CSS pixels from the left of the viewport
+   * @param y The vertical position in CSS pixels from the top of the viewport
+   */
+  async clickCoordinates(x: number, y: number): Promise<void> {
+    if (!this._puppeteerPage) {
+      throw new Error('Puppeteer is not connected');
+    }
+
+    const viewport = await this._puppeteerPage.evaluate(() => ({
+      width: window.innerWidth,
+      height: window.innerHeight,
+    }));
+    if (x < 0 || y < 0 || x >= viewport.width || y >= viewport.height) {
+      throw new Error(`Coordinates (${x}, ${y}) are outside of the viewport of ${viewport.width}x${viewport.height}`);
+    }
+
+    // hover first, widgets often react to the pointer entering them before they accept the click
+    await this._puppeteerPage.mouse.move(x, y, { steps: 5 });
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await this._untilDialog(this._puppeteerPage.mouse.click(x, y));
+    await this._checkAndHandleNavigation();
+  }
+
+  /**
+   * Describe the element at a position of the viewport, to record what a click by coordinates hit
+   * @param x The horizontal position in CSS pixels from the left of the viewport
+   * @param y The vertical position in CSS pixels from the top of the viewport
+   * @returns The element with its coordinates, null if there is no element at the position
+   */
+  async getElementAtPoint(x: number, y: number): Promise<DOMHistoryElement | null> {
+    if (!this._puppeteerPage) {
+      throw new Error('Puppeteer is not connected');
+    }
+
+    const element = await this._puppeteerPage.evaluate(
+      (x, y) => {
+        let target = document.elementFromPoint(x, y);
+        // descend into open shadow roots, elementFromPoint stops at their host
+        while (target?.shadowRoot) {
+          const inner = target.shadowRoot.elementFromPoint(x, y);
+          if (!inner || inner === target) {
+            break;
+          }
+          target = inner;
+        }
+        if (!target) {
+          return null;
+        }
+
+        // same format as the xpath of the DOM tree, relative to the closest shadow root or document
+        const segments: string[] = [];
+        for (let current: Element | null = target; current; current = current.parentElement) {
+          const tagName = current.nodeName.toLowerCase();
+          const siblings = current.parentElement
+            ? Array.from(current.parentElement.children).filter(sibling => sibling.nodeName === current?.nodeName)
+            : [];
+          segments.unshift(siblings.length > 1 ? `${tagName}[${siblings.indexOf(current) + 1}]` : tagName);
+          if (current.parentNode instanceof ShadowRoot) {
+            break;
+          }
+        }
+
+        const branchPath: string[] = [];
+        for (let current: Element | null = target; current && current !== document.body; ) {
+          branchPath.unshift(current.nodeName.toLowerCase());
+          const parent: Node | null = current.parentNode;
+          current = parent instanceof ShadowRoot ? parent.host : current.parentElement;
+        }
+
+        const rect = target.getBoundingClientRect();
+        return {
+          tagName: target.nodeName.toLowerCase(),
+          xpath: segments.join('/'),
+          branchPath,
+          attributes: Object.fromEntries(Array.from(target.attributes).map(attr => [attr.name, attr.value])),
+          shadowRoot: target.getRootNode() instanceof ShadowRoot,
+          rect: { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
+          viewportInfo: {
+            scrollX: window.scrollX,
+            scrollY: window.scrollY,
+            width: window.innerWidth,
+            height: window.innerHeight,
+          },
+        };
+      },
+      x,
+      y,
+    );
+    if (!element) {
+      return null;
+    }
+
+    const { scrollX, scrollY } = element.viewportInfo;
+    return new DOMHistoryElement(
+      element.tagName,
+      element.xpath,
+      null,
+      element.branchPath,
+      element.attributes,
+      element.shadowRoot,
+      null,
+      toCoordinateSet({ ...element.rect, x: element.rect.x + scrollX, y: element.rect.y + scrollY }),
+      toCoordinateSet(element.rect),
+      element.viewportInfo,
+    );
+  }
+
+  /**
+   * Find the element that has the focus and the submit buttons of its form, which keys sent to the page act on,
+   * e.g. Enter submits the form
+   * @returns The elements of the current state, the focused element first
+   */
+  async getFocusedElements(): Promise<DOMElementNode[]> {
+    if (!this._puppeteerPage) {
+      throw new Error('Puppeteer is not connected');
+    }
+
+    const xpaths = await this._puppeteerPage.evaluate(() => {
+      // same format as the xpath of the DOM tree, see getElementAtPoint
+      const xpathOf = (element: Element): string => {
+        const segments: string[] = [];
+        for (let current: Element | null = element; current; current = current.parentElement) {
+          const tagName = current.nodeName.toLowerCase();
+          const siblings = current.parentElement
+            ? Array.from(current.parentElement.children).filter(sibling => sibling.nodeName === current?.nodeName)
+            : [];
+          segments.unshift(siblings.length > 1 ? `${tagName}[${siblings.indexOf(current) + 1}]` : tagName);
+          if (current.parentNode instanceof ShadowRoot) {
+            break;
+          }
+        }
+        return segments.join('/');
+      };
+
+      let focused = document.activeElement;
+      while (focused?.shadowRoot?.activeElement) {
+        focused = focused.shadowRoot.activeElement;
+      }
+      if (!focused || focused === document.body) {
+        return [];
+      }
+      const form = 'form' in focused && focused.form instanceof HTMLFormElement ? focused.form : null;
+      const submitButtons = form
+        ? Array.from(form.elements).filter(
+            element =>
+              (element instanceof HTMLButtonElement || element instanceof HTMLInputElement) &&
+              element.type === 'submit',
+          )
+        : [];
+      return [focused, ...submitButtons].map(xpathOf);
+    });
+
+    const elements = Array.from(this.getSelectorMap().values()).filter(element => element.frameId === null);
+    return xpaths.flatMap(xpath => elements.filter(element => element.xpath === xpath));
+  }
+
   getSelectorMap(): Map<number, DOMElementNode> {
     // If there is no cached state, return an empty map
     if (this._cachedState === null) {
@@ -1111,7 +1814,10 @@ export default class Page {
     await this._puppeteerPage?.waitForNavigation({ timeout: timeoutValue });
   }
 
-  private async _waitForStableNetwork() {
+  private async _waitForStableNetwork(
+    idleTime = this._config.waitForNetworkIdlePageLoadTime,
+    maxTime = this._config.maximumWaitPageLoadTime,
+  ) {
     if (!this._puppeteerPage) {
       throw new Error('Puppeteer page is not connected');
     }
@@ -1258,14 +1964,14 @@ export default class Page {
         const now = Date.now();
         const timeSinceLastActivity = (now - lastActivity) / 1000; // Convert to seconds
 
-        if (pendingRequests.size === 0 && timeSinceLastActivity >= this._config.waitForNetworkIdlePageLoadTime) {
+        if (pendingRequests.size === 0 && timeSinceLastActivity >= idleTime) {
           break;
         }
 
         const elapsedTime = (now - startTime) / 1000; // Convert to seconds
-        if (elapsedTime > this._config.maximumWaitPageLoadTime) {
+        if (elapsedTime > maxTime) {
           console.debug(
-            `Network timeout after ${this._config.maximumWaitPageLoadTime}s with ${pendingRequests.size} pending requests:`,
+            `Network timeout after ${maxTime}s with ${pendingRequests.size} pending requests:`,
             Array.from(pendingRequests).map(r => (r as HTTPRequest).url()),
           );
           break;
@@ -1276,7 +1982,52 @@ export default class Page {
       this._puppeteerPage.off('request', onRequest);
       this._puppeteerPage.off('response', onResponse);
     }
-    console.debug(`Network stabilized for ${this._config.waitForNetworkIdlePageLoadTime} seconds`);
+    console.debug(`Network stabilized for ${idleTime} seconds`);
+  }
+
+  /**
+   * Wait until the page has settled after an action: no navigation in progress, no pending network requests
+   * and no DOM mutations for domQuietPeriod, but no longer than waitBetweenActions
+   */
+  async waitForSettled(): Promise<void> {
+    const startTime = Date.now();
+    const maxWait = this._config.waitBetweenActions;
+    if (this._dialog) {
+      // nothing changes until the dialog is handled
+      return;
+    }
+    if (!this._puppeteerPage) {
+      // nothing to observe, fall back to waiting the maximum time
+      await new Promise(resolve => setTimeout(resolve, maxWait * 1000));
+      return;
+    }
+
+    try {
+      await Promise.all([this._waitForStableNetwork(this._config.domQuietPeriod, maxWait), this._waitForDomQuiet()]);
+    } catch (error) {
+      console.warn('Failed to wait for the page to settle, continuing...', error);
+    }
+    console.debug(`Page settled in ${((Date.now() - startTime) / 1000).toFixed(2)} seconds`);
+  }
+
+  /**
+   * Wait until the document is loaded and has not been mutated for domQuietPeriod, at most waitBetweenActions.
+   * A navigation destroys the observer in the old document, so it is installed again in the new one.
+   */
+  private async _waitForDomQuiet(): Promise<void> {
+    const quietMs = this._config.domQuietPeriod * 1000;
+    const deadline = Date.now() + this._config.waitBetweenActions * 1000;
+
+    while (this._puppeteerPage && Date.now() < deadline) {
+      try {
+        await this._puppeteerPage.evaluate(waitForDomQuiet, quietMs, deadline - Date.now());
+        return;
+      } catch (error) {
+        // the execution context is destroyed when the page navigates, wait for the new document
+        logger.debug('DOM observer interrupted, retrying:', error);
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+    }
   }
 
   async waitForPageAndFramesLoad(timeoutOverwrite?: number): Promise<void> {
@@ -1,3 +1,36 @@
+import type { PageRepresentation } from '@extension/storage';
+
+/**
+ * Get the page representation of a URL, the most specific domain setting matching it wins
+ * @param url The URL of the page
+ * @param defaultMode The representation of the pages without a domain setting
+ * @param domainModes The representation by domain, also applies to the subdomains
+ * @returns The page representation to use
+ */
+export function getPageRepresentation(
+  url: string,
+  defaultMode: PageRepresentation,
+  domainModes: Record<string, PageRepresentation>,
+): PageRepresentation {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return defaultMode;
+  }
+
+  let matchedDomain: string | null = null;
+  for (const domain of Object.keys(domainModes)) {
+    if (
+      (hostname === domain || hostname.endsWith(`.${domain}`)) &&
+      (!matchedDomain || domain.length > matchedDomain.length)
+    ) {
+      matchedDomain = domain;
+    }
+  }
+  return matchedDomain ? domainModes[matchedDomain] : defaultMode;
+}
+
 /**
  * Checks if a URL is allowed based on firewall configuration
  * @param url The URL to check
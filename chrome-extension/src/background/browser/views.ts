@@ -1,4 +1,5 @@
 import type { DOMState } from './dom/views';
+import type { PageRepresentation } from '@extension/storage';
 import type { DOMHistoryElement } from './dom/history/view';
 
 export interface BrowserContextWindowSize {
@@ -27,11 +28,17 @@ export interface BrowserContextConfig {
   maximumWaitPageLoadTime: number;
 
   /**
-   * Time to wait between multiple actions in one step
-   * @default 0.5
+   * Maximum time to wait for the page to settle between multiple actions in one step
+   * @default 1.0
    */
   waitBetweenActions: number;
 
+  /**
+   * Time without DOM mutations and network requests after which the page is considered settled after an action
+   * @default 0.3
+   */
+  domQuietPeriod: number;
+
   /**
    * Default browser window size
    * @default { width: 1280, height: 1100 }
@@ -76,13 +83,32 @@ export interface BrowserContextConfig {
    * @default true
    */
   displayHighlights: boolean;
+
+  /**
+   * How the page is described to the navigator, buildDomTree or the accessibility tree
+   * @default 'dom'
+   */
+  pageRepresentation: PageRepresentation;
+
+  /**
+   * Page representation of the pages of these domains and their subdomains, overrides pageRepresentation
+   * @default {}
+   */
+  pageRepresentationDomains: Record<string, PageRepresentation>;
+
+  /**
+   * Close the tab group or window of a task when it finishes, otherwise it is collapsed or minimized
+   * @default false
+   */
+  closeTaskTabs: boolean;
 }
 
 export const DEFAULT_BROWSER_CONTEXT_CONFIG: BrowserContextConfig = {
   minimumWaitPageLoadTime: 0.25,
   waitForNetworkIdlePageLoadTime: 0.5,
   maximumWaitPageLoadTime: 5.0,
-  waitBetweenActions: 0.5,
+  waitBetweenActions: 1.0,
+  domQuietPeriod: 0.3,
   browserWindowSize: { width: 1280, height: 1100 },
   viewportExpansion: 0,
   allowedUrls: [],
@@ -90,8 +116,21 @@ export const DEFAULT_BROWSER_CONTEXT_CONFIG: BrowserContextConfig = {
   includeDynamicAttributes: true,
   homePageUrl: 'about:blank',
   displayHighlights: true,
+  pageRepresentation: 'dom',
+  pageRepresentationDomains: {},
+  closeTaskTabs: false,
 };
 
+/**
+ * A JavaScript dialog opened by the page, the page is blocked until it is accepted or dismissed
+ */
+export interface PageDialog {
+  type: 'alert' | 'confirm' | 'prompt' | 'beforeunload';
+  message: string;
+  // Text prefilled in the input of a prompt dialog
+  defaultValue: string;
+}
+
 export interface PageState extends DOMState {
   tabId: number;
   url: string;
@@ -99,6 +138,7 @@ export interface PageState extends DOMState {
   screenshot: string | null;
   pixelsAbove: number;
   pixelsBelow: number;
+  dialog: PageDialog | null;
 }
 
 export interface TabInfo {
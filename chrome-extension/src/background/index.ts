@@ -2,18 +2,26 @@ import 'webextension-polyfill';
 import {
   agentModelStore,
   AgentNameEnum,
+  credentialVaultStore,
+  executorCheckpointStore,
   firewallStore,
+  approvalPolicyStore,
   generalSettingsStore,
   llmProviderStore,
+  pageRepresentationStore,
+  recordingStore,
+  type PageRepresentation,
 } from '@extension/storage';
 import BrowserContext from './browser/context';
-import { Executor } from './agent/executor';
+import { Executor, type ExecutorExtraArgs } from './agent/executor';
 import { createLogger } from './log';
 import { ExecutionState } from './agent/event/types';
 import { createChatModel } from './agent/helper';
 import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { DEFAULT_AGENT_OPTIONS } from './agent/types';
 import { SpeechToTextService } from './services/speechToText';
+import { TaskManager } from './task/manager';
+import { parseDatasetSchema } from './agent/actions/extraction';
 import { ProviderTypeEnum } from '@extension/storage';
 import {
   setupDefaultCentralizedProvider,
@@ -24,6 +32,15 @@ const logger = createLogger('background');
 const browserContext = new BrowserContext({});
 let currentExecutor: Executor | null = null;
 let currentPort: chrome.runtime.Port | null = null;
+// whether a task started from the side panel is running, queued tasks wait until it finishes
+let sidePanelTaskRunning = false;
+
+const taskManager = new TaskManager({
+  // queued tasks that were interrupted are marked as failed, they can not be resumed
+  createExecutor: (taskId, task) => setupExecutor(taskId, task, browserContext, { saveCheckpoints: false }),
+  isIdle: () => !sidePanelTaskRunning,
+});
+const QUEUED_TASK_RUNNING_ERROR = 'A queued task is running, please wait until it finishes';
 
 // Setup side panel behavior
 chrome.sidePanel.setPanelBehavior({ openPanelOnActionClick: true }).catch(error => console.error(error));
@@ -128,6 +145,11 @@ chrome.debugger.onDetach.addListener(async (source, reason) => {
   }
 });
 
+// Run scheduled tasks
+chrome.alarms.onAlarm.addListener(alarm => {
+  taskManager.handleAlarm(alarm).catch(error => logger.error('Failed to handle alarm:', error));
+});
+
 // Cleanup when tab is closed
 chrome.tabs.onRemoved.addListener(tabId => {
   browserContext.removeAttachedPage(tabId);
@@ -158,9 +180,14 @@ chrome.runtime.onConnect.addListener(port => {
           case 'new_task': {
             if (!message.task) return port.postMessage({ type: 'error', error: 'No task provided' });
             if (!message.tabId) return port.postMessage({ type: 'error', error: 'No tab ID provided' });
+            if (taskManager.isRunning()) return port.postMessage({ type: 'error', error: QUEUED_TASK_RUNNING_ERROR });
 
             logger.info('new_task', message.tabId, message.task);
-            currentExecutor = await setupExecutor(message.taskId, message.task, browserContext);
+            currentExecutor = await setupExecutor(message.taskId, message.task, browserContext, {
+              filePaths: message.filePaths ?? [],
+              extractionSchema: message.extractionSchema ? parseDatasetSchema(message.extractionSchema) : null,
+              pageRepresentation: message.pageRepresentation ?? undefined,
+            });
             subscribeToExecutorEvents(currentExecutor);
 
             const result = await currentExecutor.execute();
@@ -170,12 +197,13 @@ chrome.runtime.onConnect.addListener(port => {
           case 'follow_up_task': {
             if (!message.task) return port.postMessage({ type: 'error', error: 'No follow up task provided' });
             if (!message.tabId) return port.postMessage({ type: 'error', error: 'No tab ID provided' });
+            if (taskManager.isRunning()) return port.postMessage({ type: 'error', error: QUEUED_TASK_RUNNING_ERROR });
 
             logger.info('follow_up_task', message.tabId, message.task);
 
             // If executor exists, add follow-up task
             if (currentExecutor) {
-              currentExecutor.addFollowUpTask(message.task);
+              currentExecutor.addFollowUpTask(message.task, message.filePaths ?? []);
               // Re-subscribe to events in case the previous subscription was cleaned up
               subscribeToExecutorEvents(currentExecutor);
               const result = await currentExecutor.execute();
@@ -188,6 +216,49 @@ chrome.runtime.onConnect.addListener(port => {
             break;
           }
 
+          case 'replay_task': {
+            if (!message.recordingId) return port.postMessage({ type: 'error', error: 'No recording ID provided' });
+            if (!message.tabId) return port.postMessage({ type: 'error', error: 'No tab ID provided' });
+            if (taskManager.isRunning()) return port.postMessage({ type: 'error', error: QUEUED_TASK_RUNNING_ERROR });
+
+            const recording = await recordingStore.getRecording(message.recordingId);
+            if (!recording) return port.postMessage({ type: 'error', error: 'Recording not found' });
+
+            logger.info('replay_task', message.tabId, recording.task);
+            currentExecutor = await setupExecutor(message.taskId, recording.task, browserContext);
+            subscribeToExecutorEvents(currentExecutor);
+
+            await currentExecutor.replay(recording);
+            logger.info('replay_task finished', message.tabId);
+            break;
+          }
+
+          case 'resume_checkpoint': {
+            // resume a task that was interrupted when the service worker was terminated
+            if (!message.taskId) return port.postMessage({ type: 'error', error: 'No task ID provided' });
+            const checkpoint = await executorCheckpointStore.getCheckpoint(message.taskId);
+            if (!checkpoint) return port.postMessage({ type: 'error', error: 'No interrupted task to resume' });
+            if (taskManager.isRunning()) return port.postMessage({ type: 'error', error: QUEUED_TASK_RUNNING_ERROR });
+
+            logger.info('resume_checkpoint', checkpoint.taskId, checkpoint.step);
+            if (checkpoint.tabId) {
+              try {
+                await chrome.tabs.get(checkpoint.tabId);
+                browserContext.updateCurrentTabId(checkpoint.tabId);
+              } catch (error) {
+                logger.warning('resume_checkpoint: tab of the interrupted task is gone, using the active tab', error);
+              }
+            }
+
+            currentExecutor = await setupExecutor(checkpoint.taskId, checkpoint.tasks[0], browserContext);
+            currentExecutor.restoreCheckpoint(checkpoint);
+            subscribeToExecutorEvents(currentExecutor);
+
+            const result = await currentExecutor.execute();
+            logger.info('resume_checkpoint execution result', checkpoint.taskId, result);
+            break;
+          }
+
           case 'cancel_task': {
             if (!currentExecutor) return port.postMessage({ type: 'error', error: 'No task to cancel' });
             await currentExecutor.cancel();
@@ -206,6 +277,57 @@ chrome.runtime.onConnect.addListener(port => {
             return port.postMessage({ type: 'success' });
           }
 
+          case 'answer_question': {
+            if (!currentExecutor) return port.postMessage({ type: 'error', error: 'No task to answer' });
+            if (!message.answer) return port.postMessage({ type: 'error', error: 'No answer provided' });
+            await currentExecutor.answerQuestion(message.answer);
+            return port.postMessage({ type: 'success' });
+          }
+
+          case 'approve_action': {
+            if (!currentExecutor) return port.postMessage({ type: 'error', error: 'No task to approve' });
+            await currentExecutor.approveAction(message.approved === true);
+            return port.postMessage({ type: 'success' });
+          }
+
+          case 'queue_add': {
+            if (!message.task) return port.postMessage({ type: 'error', error: 'No task provided' });
+            const queuedTask = await taskManager.addTask(message.task, message.schedule ?? null);
+            return port.postMessage({ type: 'success', queuedTask });
+          }
+
+          case 'queue_pause': {
+            if (!message.queuedTaskId) return port.postMessage({ type: 'error', error: 'No queued task ID provided' });
+            await taskManager.pauseTask(message.queuedTaskId);
+            return port.postMessage({ type: 'success' });
+          }
+
+          case 'queue_resume': {
+            if (!message.queuedTaskId) return port.postMessage({ type: 'error', error: 'No queued task ID provided' });
+            await taskManager.resumeTask(message.queuedTaskId);
+            return port.postMessage({ type: 'success' });
+          }
+
+          case 'queue_cancel': {
+            if (!message.queuedTaskId) return port.postMessage({ type: 'error', error: 'No queued task ID provided' });
+            await taskManager.cancelTask(message.queuedTaskId);
+            return port.postMessage({ type: 'success' });
+          }
+
+          case 'queue_remove': {
+            if (!message.queuedTaskId) return port.postMessage({ type: 'error', error: 'No queued task ID provided' });
+            await taskManager.removeTask(message.queuedTaskId);
+            return port.postMessage({ type: 'success' });
+          }
+
+          case 'queue_reorder': {
+            if (!message.draggedId || !message.targetId) {
+              return port.postMessage({ type: 'error', error: 'No queued task IDs provided' });
+            }
+            await taskManager.reorderTasks(message.draggedId, message.targetId);
+            return port.postMessage({ type: 'success' });
+          }
+
           case 'screenshot': {
             if (!message.tabId) return port.postMessage({ type: 'error', error: 'No tab ID provided' });
             const page = await browserContext.switchTab(message.tabId);
@@ -297,22 +419,18 @@ chrome.runtime.onConnect.addListener(port => {
   }
 });
 
-async function setupExecutor(taskId: string, task: string, browserContext: BrowserContext) {
+async function setupExecutor(
+  taskId: string,
+  task: string,
+  browserContext: BrowserContext,
+  taskArgs: Pick<ExecutorExtraArgs, 'filePaths' | 'extractionSchema' | 'saveCheckpoints'> & {
+    pageRepresentation?: PageRepresentation;
+  } = {},
+) {
   logger.info(`🚀 Setting up executor for task: ${task}`);
 
-  // Check if we have a valid current tab
-  const currentPage = await browserContext.getCurrentPage();
-  if (currentPage) {
-    const currentUrl = currentPage.url();
-    logger.info(`📍 Current page URL: ${currentUrl}`);
-
-    // Warn if we're starting from a chrome-extension:// URL
-    if (currentUrl.startsWith('chrome-extension://')) {
-      logger.warning('⚠️ Starting from chrome-extension:// URL, may need to navigate to a regular webpage first');
-    }
-  } else {
-    logger.info('📄 No current page available, will need to open a new tab');
-  }
+  const generalSettings = await generalSettingsStore.getSettings();
+  browserContext.updateConfig({ closeTaskTabs: generalSettings.closeTaskTabs });
 
   const providers = await llmProviderStore.getAllProviders();
   logger.info(`🔑 Found ${Object.keys(providers).length} configured providers`);
@@ -367,26 +485,70 @@ async function setupExecutor(taskId: string, task: string, browserContext: Brows
     });
   }
 
-  const generalSettings = await generalSettingsStore.getSettings();
   browserContext.updateConfig({
     minimumWaitPageLoadTime: generalSettings.minWaitPageLoad / 1000.0,
     displayHighlights: generalSettings.displayHighlights,
   });
 
-  const executor = new Executor(task, taskId, browserContext, navigatorLLM, {
-    plannerLLM: plannerLLM ?? navigatorLLM,
-    validatorLLM: validatorLLM ?? navigatorLLM,
-    agentOptions: {
-      maxSteps: generalSettings.maxSteps,
-      maxFailures: generalSettings.maxFailures,
-      maxActionsPerStep: generalSettings.maxActionsPerStep,
-      useVision: generalSettings.useVision,
-      useVisionForPlanner: true,
-      planningInterval: generalSettings.planningInterval,
-    },
-  });
+  // the representation chosen for the task applies to every page, otherwise the domain settings decide
+  const { pageRepresentation, ...executorArgs } = taskArgs;
+  const representationSettings = await pageRepresentationStore.getConfig();
+  browserContext.updateConfig(
+    pageRepresentation
+      ? { pageRepresentation, pageRepresentationDomains: {} }
+      : {
+          pageRepresentation: representationSettings.defaultMode,
+          pageRepresentationDomains: representationSettings.domainModes,
+        },
+  );
+
+  // Secrets are only available while the vault is unlocked
+  const credentials = (await credentialVaultStore.getCredentials()) ?? [];
+  logger.info(`🔐 Loaded ${credentials.length} credentials from the vault`);
+  const approvalPolicy = await approvalPolicyStore.getPolicy();
+
+  // Open the tab group or window of the task only once the settings are valid, and before any page is attached so
+  // that the user's tabs are not. Finish it again if the setup fails
+  try {
+    await browserContext.startWorkspace(generalSettings.taskIsolation, task);
+
+    // Check if we have a valid current tab
+    const currentPage = await browserContext.getCurrentPage();
+    if (currentPage) {
+      const currentUrl = currentPage.url();
+      logger.info(`📍 Current page URL: ${currentUrl}`);
+
+      // Warn if we're starting from a chrome-extension:// URL
+      if (currentUrl.startsWith('chrome-extension://')) {
+        logger.warning('⚠️ Starting from chrome-extension:// URL, may need to navigate to a regular webpage first');
+      }
+    } else {
+      logger.info('📄 No current page available, will need to open a new tab');
+    }
+
+    const executor = new Executor(task, taskId, browserContext, navigatorLLM, {
+      plannerLLM: plannerLLM ?? navigatorLLM,
+      validatorLLM: validatorLLM ?? navigatorLLM,
+      credentials,
+      approvalPolicy,
+      ...executorArgs,
+      agentOptions: {
+        maxSteps: generalSettings.maxSteps,
+        maxFailures: generalSettings.maxFailures,
+        maxActionsPerStep: generalSettings.maxActionsPerStep,
+        useVision: generalSettings.useVision,
+        useVisionForPlanner: true,
+        planningInterval: generalSettings.planningInterval,
+        traceScreenshots: generalSettings.traceScreenshots,
+        incrementalState: generalSettings.incrementalState,
+      },
+    });
 
-  return executor;
+    return executor;
+  } catch (error) {
+    await browserContext.cleanup();
+    throw error;
+  }
 }
 
 async function subscribeToExecutorEvents(executor: Executor) {
@@ -395,6 +557,10 @@ async function subscribeToExecutorEvents(executor: Executor) {
 
   // Subscribe to new events
   executor.subscribeExecutionEvents(async event => {
+    if (event.state === ExecutionState.TASK_START) {
+      sidePanelTaskRunning = true;
+    }
+
     try {
       if (currentPort) {
         // Send legacy events as-is
@@ -410,6 +576,9 @@ async function subscribeToExecutorEvents(executor: Executor) {
       event.state === ExecutionState.TASK_CANCEL
     ) {
       await currentExecutor?.cleanup();
+      sidePanelTaskRunning = false;
+      // run the tasks that were queued while this task was running
+      taskManager.processQueue();
     }
   });
 }
@@ -423,6 +592,9 @@ async function initialize() {
   // Ensure default agent models are set up
   await setupDefaultAgentModels();
 
+  // Recover the task queue and run pending tasks
+  await taskManager.initialize();
+
   // Temporary debug call to check OpenRouter key
   try {
     const response = await fetch('https://einanoshou.onrender.com/debug/openrouter');
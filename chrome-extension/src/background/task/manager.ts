@@ -0,0 +1,312 @@
+import {
+  datasetStore,
+  executorCheckpointStore,
+  llmUsageStore,
+  QueuedTaskStatus,
+  taskDownloadStore,
+  taskNetworkStore,
+  taskQueueStore,
+  traceStore,
+  type QueuedTask,
+  type TaskRun,
+  type TaskSchedule,
+} from '@extension/storage';
+import type { Executor } from '../agent/executor';
+import { Actors, ExecutionState } from '../agent/event/types';
+import { createLogger } from '../log';
+
+const logger = createLogger('TaskManager');
+
+const ALARM_NAME_PREFIX = 'task-queue:';
+
+// Tasks that are waiting or running, the others have nothing left to pause
+const PAUSABLE_STATUSES = [QueuedTaskStatus.PENDING, QueuedTaskStatus.SCHEDULED, QueuedTaskStatus.RUNNING];
+
+export interface TaskManagerOptions {
+  // Create an executor that runs the given task
+  createExecutor: (taskId: string, task: string) => Promise<Executor>;
+  // Whether the browser is free for a queued task, e.g. no task started from the side panel is running
+  isIdle: () => boolean;
+}
+
+function alarmName(taskId: string): string {
+  return `${ALARM_NAME_PREFIX}${taskId}`;
+}
+
+function isScheduledDay(schedule: TaskSchedule, day: number): boolean {
+  switch (schedule.type) {
+    case 'weekdays':
+      return day >= 1 && day <= 5;
+    case 'weekly':
+      return day === (schedule.dayOfWeek ?? 1);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Get the next time a scheduled task should run
+ * @param schedule The schedule of the task
+ * @param from The time to start searching from, in milliseconds
+ * @returns The next run time in milliseconds
+ */
+export function getNextRunTime(schedule: TaskSchedule, from: number = Date.now()): number {
+  const next = new Date(from);
+  next.setHours(schedule.hour, schedule.minute, 0, 0);
+  while (next.getTime() <= from || !isScheduledDay(schedule, next.getDay())) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next.getTime();
+}
+
+/**
+ * Runs queued tasks one after another, and scheduled tasks when their alarm fires.
+ * The queue itself lives in storage, so that it survives restarts of the service worker.
+ */
+export class TaskManager {
+  private readonly options: TaskManagerOptions;
+  private currentTaskId: string | null = null;
+  private currentExecutor: Executor | null = null;
+  private processing = false;
+
+  constructor(options: TaskManagerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Recover the queue after the service worker was (re)started
+   */
+  async initialize(): Promise<void> {
+    const tasks = await taskQueueStore.getAllTasks();
+    for (const task of tasks) {
+      if (task.status === QueuedTaskStatus.RUNNING) {
+        // the service worker was terminated while this task was running
+        const runTaskId = task.runningTaskId ?? task.id;
+        await executorCheckpointStore.clearCheckpoint(runTaskId);
+        await this.finishRun(task, {
+          taskId: runTaskId,
+          startedAt: task.updatedAt,
+          finishedAt: Date.now(),
+          status: QueuedTaskStatus.FAILED,
+          result: 'Task was interrupted by a restart of the extension',
+        });
+      } else if (task.status === QueuedTaskStatus.SCHEDULED) {
+        // alarms are not guaranteed to survive a restart of the browser
+        const alarm = await chrome.alarms.get(alarmName(task.id));
+        if (!alarm) {
+          await this.schedule(task);
+        }
+      }
+    }
+    await this.processQueue();
+  }
+
+  isRunning(): boolean {
+    return this.currentExecutor !== null;
+  }
+
+  async addTask(task: string, schedule: TaskSchedule | null): Promise<QueuedTask> {
+    const queuedTask = await taskQueueStore.addTask(task, schedule);
+    logger.info('addTask', queuedTask.id, task, schedule);
+    if (schedule) {
+      await this.schedule(queuedTask);
+    } else {
+      this.processQueue();
+    }
+    return queuedTask;
+  }
+
+  async pauseTask(taskId: string): Promise<void> {
+    const task = await taskQueueStore.getTask(taskId);
+    if (!task || !PAUSABLE_STATUSES.includes(task.status)) {
+      return;
+    }
+    if (taskId === this.currentTaskId) {
+      await this.currentExecutor?.pause();
+    }
+    await chrome.alarms.clear(alarmName(taskId));
+    await taskQueueStore.updateTask(taskId, { status: QueuedTaskStatus.PAUSED });
+  }
+
+  async resumeTask(taskId: string): Promise<void> {
+    const task = await taskQueueStore.getTask(taskId);
+    if (!task || task.status !== QueuedTaskStatus.PAUSED) {
+      return;
+    }
+
+    if (taskId === this.currentTaskId) {
+      await taskQueueStore.updateTask(taskId, { status: QueuedTaskStatus.RUNNING });
+      await this.currentExecutor?.resume();
+    } else if (task.schedule) {
+      await this.schedule(task);
+    } else {
+      await taskQueueStore.updateTask(taskId, { status: QueuedTaskStatus.PENDING });
+      this.processQueue();
+    }
+  }
+
+  async cancelTask(taskId: string): Promise<void> {
+    await chrome.alarms.clear(alarmName(taskId));
+    if (taskId === this.currentTaskId) {
+      // the status is updated when the run finishes
+      await this.currentExecutor?.cancel();
+      return;
+    }
+    await taskQueueStore.updateTask(taskId, { status: QueuedTaskStatus.CANCELLED, nextRunAt: null });
+  }
+
+  async removeTask(taskId: string): Promise<void> {
+    const task = await taskQueueStore.getTask(taskId);
+    await this.cancelTask(taskId);
+    await taskQueueStore.removeTask(taskId);
+    if (task) {
+      // the data of a run in progress is deleted when it finishes
+      await this.deleteRunData(task.runs);
+    }
+  }
+
+  async reorderTasks(draggedId: string, targetId: string): Promise<void> {
+    await taskQueueStore.reorderTasks(draggedId, targetId);
+  }
+
+  async handleAlarm(alarm: chrome.alarms.Alarm): Promise<void> {
+    if (!alarm.name.startsWith(ALARM_NAME_PREFIX)) {
+      return;
+    }
+    const taskId = alarm.name.slice(ALARM_NAME_PREFIX.length);
+    const task = await taskQueueStore.getTask(taskId);
+    if (!task || task.status !== QueuedTaskStatus.SCHEDULED) {
+      return;
+    }
+    logger.info('handleAlarm', taskId);
+    await taskQueueStore.updateTask(taskId, { status: QueuedTaskStatus.PENDING });
+    await this.processQueue();
+  }
+
+  /**
+   * Run pending tasks in queue order until the queue is empty or the browser is busy
+   */
+  async processQueue(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+    try {
+      while (this.options.isIdle()) {
+        const tasks = await taskQueueStore.getAllTasks();
+        const nextTask = tasks.find(task => task.status === QueuedTaskStatus.PENDING);
+        if (!nextTask) {
+          break;
+        }
+        await this.runTask(nextTask);
+      }
+    } catch (error) {
+      logger.error('Failed to process task queue:', error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async runTask(task: QueuedTask): Promise<void> {
+    // every run gets its own task id, so that the data of the runs of a scheduled task are kept apart
+    const runTaskId = crypto.randomUUID();
+    logger.info('runTask', task.id, runTaskId, task.task);
+    const startedAt = Date.now();
+    await taskQueueStore.updateTask(task.id, { status: QueuedTaskStatus.RUNNING, runningTaskId: runTaskId });
+    this.currentTaskId = task.id;
+
+    let status: TaskRun['status'] = QueuedTaskStatus.FAILED;
+    let result: string | null = null;
+    try {
+      const executor = await this.options.createExecutor(runTaskId, task.task);
+      this.currentExecutor = executor;
+      executor.subscribeExecutionEvents(async event => {
+        if (event.actor === Actors.VALIDATOR && event.state === ExecutionState.STEP_OK) {
+          result = event.data.details;
+        } else if (event.actor === Actors.NAVIGATOR && event.state === ExecutionState.ACT_OK) {
+          // the last action of a successful task is done, its output is the answer
+          result = event.data.details;
+        } else if (event.state === ExecutionState.TASK_ASK_USER) {
+          // nobody is there to answer questions of queued tasks, let the agent decide on its own
+          await executor.answerQuestion(
+            'The task runs unattended and nobody can answer. Continue with your best judgement, or finish with done and explain what you need.',
+          );
+        } else if (event.state === ExecutionState.ACT_WAIT_APPROVAL) {
+          // risky actions of queued tasks are rejected, nobody can check them
+          await executor.approveAction(false);
+        } else if (event.actor === Actors.SYSTEM) {
+          switch (event.state) {
+            case ExecutionState.TASK_OK:
+              status = QueuedTaskStatus.COMPLETED;
+              break;
+            case ExecutionState.TASK_FAIL:
+              status = QueuedTaskStatus.FAILED;
+              result = event.data.details;
+              break;
+            case ExecutionState.TASK_CANCEL:
+              status = QueuedTaskStatus.CANCELLED;
+              result = event.data.details;
+              break;
+          }
+        }
+      });
+      await executor.execute();
+      await executor.cleanup();
+    } catch (error) {
+      logger.error('runTask failed', task.id, error);
+      status = QueuedTaskStatus.FAILED;
+      result = error instanceof Error ? error.message : String(error);
+    } finally {
+      this.currentTaskId = null;
+      this.currentExecutor = null;
+    }
+
+    await this.finishRun(task, { taskId: runTaskId, startedAt, finishedAt: Date.now(), status, result });
+  }
+
+  private async finishRun(task: QueuedTask, run: TaskRun): Promise<void> {
+    if (!(await taskQueueStore.getTask(task.id))) {
+      // the task was removed while running
+      await this.deleteRunData([run]);
+      return;
+    }
+    const droppedRuns = await taskQueueStore.addRun(task.id, run);
+    await this.deleteRunData(droppedRuns);
+    const latestTask = await taskQueueStore.getTask(task.id);
+    if (!latestTask) {
+      return;
+    }
+    if (latestTask.schedule && run.status !== QueuedTaskStatus.CANCELLED) {
+      await this.schedule(latestTask);
+    } else {
+      await taskQueueStore.updateTask(task.id, { status: run.status, nextRunAt: null });
+    }
+  }
+
+  /**
+   * Delete everything the given runs stored under their task ids
+   */
+  private async deleteRunData(runs: TaskRun[]): Promise<void> {
+    for (const { taskId } of runs) {
+      try {
+        await traceStore.deleteTrace(taskId);
+        await datasetStore.deleteDataset(taskId);
+        await llmUsageStore.deleteUsage(taskId);
+        await taskNetworkStore.deleteRequests(taskId);
+        await taskDownloadStore.deleteDownloads(taskId);
+      } catch (error) {
+        logger.error('Failed to delete the data of run', taskId, error);
+      }
+    }
+  }
+
+  private async schedule(task: QueuedTask): Promise<void> {
+    if (!task.schedule) {
+      return;
+    }
+    const nextRunAt = getNextRunTime(task.schedule);
+    await chrome.alarms.create(alarmName(task.id), { when: nextRunAt });
+    await taskQueueStore.updateTask(task.id, { status: QueuedTaskStatus.SCHEDULED, nextRunAt });
+    logger.info('schedule', task.id, new Date(nextRunAt).toLocaleString());
+  }
+}
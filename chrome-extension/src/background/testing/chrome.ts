@@ -0,0 +1,407 @@
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import type { Browser, CDPSession, Page as PuppeteerPage } from 'puppeteer-core';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Listener = (...args: any[]) => unknown;
+
+/**
+ * Minimal implementation of chrome.events.Event
+ */
+class MockEvent<T extends Listener> {
+  private listeners: T[] = [];
+
+  addListener(listener: T): void {
+    this.listeners.push(listener);
+  }
+
+  removeListener(listener: T): void {
+    this.listeners = this.listeners.filter(l => l !== listener);
+  }
+
+  hasListener(listener: T): boolean {
+    return this.listeners.includes(listener);
+  }
+
+  dispatch(...args: Parameters<T>): void {
+    for (const listener of [...this.listeners]) {
+      listener(...args);
+    }
+  }
+}
+
+/**
+ * In-memory implementation of a chrome.storage area
+ */
+class MockStorageArea {
+  private data: Record<string, unknown> = {};
+  readonly onChanged = new MockEvent<(changes: Record<string, chrome.storage.StorageChange>) => void>();
+
+  constructor(
+    private readonly storageChanged: MockEvent<Listener>,
+    private readonly areaName: string,
+  ) {}
+
+  async get(keys?: string | string[] | Record<string, unknown> | null): Promise<Record<string, unknown>> {
+    if (keys === undefined || keys === null) {
+      return structuredClone(this.data);
+    }
+    const defaults = typeof keys === 'object' && !Array.isArray(keys) ? keys : {};
+    const names = typeof keys === 'string' ? [keys] : Array.isArray(keys) ? keys : Object.keys(keys);
+    const result: Record<string, unknown> = {};
+    for (const name of names) {
+      if (name in this.data) {
+        result[name] = structuredClone(this.data[name]);
+      } else if (name in defaults) {
+        result[name] = defaults[name];
+      }
+    }
+    return result;
+  }
+
+  async set(items: Record<string, unknown>): Promise<void> {
+    const changes: Record<string, chrome.storage.StorageChange> = {};
+    for (const [key, value] of Object.entries(items)) {
+      // chrome.storage stores JSON, undefined values are dropped
+      const newValue = value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+      changes[key] = { oldValue: this.data[key], newValue };
+      this.data[key] = newValue;
+    }
+    this.emitChanges(changes);
+  }
+
+  async remove(keys: string | string[]): Promise<void> {
+    const changes: Record<string, chrome.storage.StorageChange> = {};
+    for (const key of typeof keys === 'string' ? [keys] : keys) {
+      if (key in this.data) {
+        changes[key] = { oldValue: this.data[key] };
+        delete this.data[key];
+      }
+    }
+    this.emitChanges(changes);
+  }
+
+  async clear(): Promise<void> {
+    await this.remove(Object.keys(this.data));
+  }
+
+  async setAccessLevel(): Promise<void> {}
+
+  private emitChanges(changes: Record<string, chrome.storage.StorageChange>): void {
+    if (Object.keys(changes).length === 0) {
+      return;
+    }
+    this.onChanged.dispatch(changes);
+    this.storageChanged.dispatch(changes, this.areaName);
+  }
+}
+
+/**
+ * In-memory chrome.storage, also used without a browser by the tests of modules that only need the storage
+ */
+export function createStorageMock() {
+  const storageChanged = new MockEvent<Listener>();
+  return {
+    onChanged: storageChanged,
+    local: new MockStorageArea(storageChanged, 'local'),
+    session: new MockStorageArea(storageChanged, 'session'),
+    sync: new MockStorageArea(storageChanged, 'sync'),
+  };
+}
+
+interface MockTab {
+  id: number;
+  page: PuppeteerPage;
+  url: string;
+  title: string;
+  status: 'loading' | 'complete';
+  debuggerSession: CDPSession | null;
+}
+
+export interface ChromeMockOptions {
+  // Directory the files of chrome.scripting.executeScript are read from, usually the public folder of the extension
+  extensionDir: string;
+  // Scripts of the extension injected into every page before its own scripts run
+  contentScripts?: string[];
+}
+
+/**
+ * Mock of the chrome.* APIs used by the background script, backed by a browser controlled by puppeteer
+ * Every page of the browser is a tab, chrome.debugger commands are forwarded to a CDP session of the page,
+ * so BrowserContext and Page work as they do in the extension
+ * Frames of other processes (out-of-process iframes) are not attached
+ */
+export class ChromeMock {
+  private readonly tabsById = new Map<number, MockTab>();
+  private readonly tabIds = new Map<PuppeteerPage, number>();
+  private activeTabId: number | null = null;
+  private nextTabId = 1;
+  private contentScriptSources: string[] = [];
+
+  readonly tabs;
+  readonly scripting;
+  readonly debugger;
+  readonly storage;
+  readonly runtime;
+
+  constructor(
+    private readonly browser: Browser,
+    private readonly options: ChromeMockOptions,
+  ) {
+    this.tabs = {
+      onUpdated: new MockEvent<(tabId: number, changeInfo: chrome.tabs.TabChangeInfo, tab: chrome.tabs.Tab) => void>(),
+      onActivated: new MockEvent<(activeInfo: chrome.tabs.TabActiveInfo) => void>(),
+      onRemoved: new MockEvent<(tabId: number, removeInfo: chrome.tabs.TabRemoveInfo) => void>(),
+      query: async (queryInfo: chrome.tabs.QueryInfo = {}) => {
+        return Array.from(this.tabsById.values())
+          .map(tab => this.toChromeTab(tab))
+          .filter(tab => queryInfo.active === undefined || tab.active === queryInfo.active);
+      },
+      get: async (tabId: number) => this.toChromeTab(this.getTab(tabId)),
+      create: async (createProperties: chrome.tabs.CreateProperties) => {
+        const page = await this.browser.newPage();
+        const tab = this.registerPage(page);
+        if (createProperties.active !== false) {
+          await this.activateTab(tab.id);
+        }
+        if (createProperties.url) {
+          this.startNavigation(tab, createProperties.url);
+        }
+        return this.toChromeTab(tab);
+      },
+      update: async (tabId: number, updateProperties: chrome.tabs.UpdateProperties) => {
+        const tab = this.getTab(tabId);
+        if (updateProperties.active) {
+          await this.activateTab(tabId);
+        }
+        if (updateProperties.url) {
+          this.startNavigation(tab, updateProperties.url);
+        }
+        return this.toChromeTab(tab);
+      },
+      remove: async (tabIds: number | number[]) => {
+        for (const tabId of Array.isArray(tabIds) ? tabIds : [tabIds]) {
+          await this.getTab(tabId).page.close();
+        }
+      },
+    };
+
+    this.scripting = {
+      executeScript: async (injection: {
+        target: { tabId: number };
+        files?: string[];
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        func?: (...args: any[]) => unknown;
+        args?: unknown[];
+      }) => {
+        const { page } = this.getTab(injection.target.tabId);
+        if (injection.files) {
+          for (const file of injection.files) {
+            await page.evaluate(await readFile(resolve(this.options.extensionDir, file), 'utf-8'));
+          }
+          return [{ frameId: 0, result: undefined }];
+        }
+        if (!injection.func) {
+          throw new Error('Either files or func must be specified');
+        }
+        const result = await page.evaluate(injection.func, ...(injection.args ?? []));
+        return [{ frameId: 0, result }];
+      },
+    };
+
+    this.debugger = {
+      onEvent: new MockEvent<(source: chrome.debugger.Debuggee, method: string, params?: object) => void>(),
+      onDetach: new MockEvent<(source: chrome.debugger.Debuggee, reason: string) => void>(),
+      attach: async (target: chrome.debugger.Debuggee) => {
+        const tab = this.getTab(target.tabId);
+        if (tab.debuggerSession) {
+          throw new Error(`Another debugger is already attached to the tab with id: ${tab.id}.`);
+        }
+        const session = await tab.page.createCDPSession();
+        session.on('*', ((method: unknown, params: object) => {
+          // only forward protocol events, puppeteer emits internal events on the session too
+          if (typeof method === 'string' && method.includes('.')) {
+            this.debugger.onEvent.dispatch({ tabId: tab.id }, method, params);
+          }
+        }) as never);
+        tab.debuggerSession = session;
+      },
+      detach: async (target: chrome.debugger.Debuggee) => {
+        const tab = this.tabsById.get(target.tabId ?? -1);
+        if (!tab?.debuggerSession) {
+          return;
+        }
+        const session = tab.debuggerSession;
+        tab.debuggerSession = null;
+        await session.detach().catch(() => {});
+        this.debugger.onDetach.dispatch({ tabId: tab.id }, 'target_closed');
+      },
+      sendCommand: async (target: chrome.debugger.Debuggee, method: string, params?: object) => {
+        const session = this.getTab(target.tabId).debuggerSession;
+        if (!session) {
+          throw new Error(`Debugger is not attached to the tab with id: ${target.tabId}.`);
+        }
+        // child targets are not supported, pretend there are none
+        if (method === 'Target.setAutoAttach') {
+          return {};
+        }
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        return await session.send(method as any, params as any);
+      },
+    };
+
+    this.storage = createStorageMock();
+
+    this.runtime = {
+      id: 'nanobrowser-test-harness',
+      lastError: undefined,
+      onMessage: new MockEvent<Listener>(),
+      onConnect: new MockEvent<Listener>(),
+      onInstalled: new MockEvent<Listener>(),
+      getURL: (path: string) => `chrome-extension://nanobrowser-test-harness/${path.replace(/^\//, '')}`,
+      getManifest: () => ({ manifest_version: 3, name: 'nanobrowser', version: '0.0.0' }),
+      sendMessage: async () => undefined,
+    };
+  }
+
+  /**
+   * Register the pages already open in the browser and the pages opened later as tabs
+   */
+  async init(): Promise<void> {
+    this.contentScriptSources = await Promise.all(
+      (this.options.contentScripts ?? []).map(file => readFile(resolve(this.options.extensionDir, file), 'utf-8')),
+    );
+    this.browser.on('targetcreated', async target => {
+      if (target.type() !== 'page') {
+        return;
+      }
+      const page = await target.page();
+      if (page && !this.tabIds.has(page)) {
+        const tab = this.registerPage(page);
+        // pages opened by another page, e.g. links with target="_blank", become the active tab like in chrome
+        if (target.opener()) {
+          await this.activateTab(tab.id);
+        }
+      }
+    });
+    for (const page of await this.browser.pages()) {
+      this.registerPage(page);
+    }
+    const [firstTab] = this.tabsById.values();
+    if (firstTab) {
+      await this.activateTab(firstTab.id);
+    }
+  }
+
+  /**
+   * Install the mock as the global chrome object, has to be done before any module of the background is imported
+   */
+  install(): void {
+    (globalThis as unknown as { chrome: ChromeMock }).chrome = this;
+  }
+
+  uninstall(): void {
+    delete (globalThis as unknown as { chrome?: ChromeMock }).chrome;
+  }
+
+  /**
+   * Get the puppeteer page of a tab, e.g. to check the page in a test
+   */
+  getPage(tabId: number): PuppeteerPage {
+    return this.getTab(tabId).page;
+  }
+
+  getActiveTabId(): number | null {
+    return this.activeTabId;
+  }
+
+  private getTab(tabId: number | undefined): MockTab {
+    const tab = this.tabsById.get(tabId ?? -1);
+    if (!tab) {
+      throw new Error(`No tab with id: ${tabId}.`);
+    }
+    return tab;
+  }
+
+  private toChromeTab(tab: MockTab): chrome.tabs.Tab {
+    return {
+      id: tab.id,
+      index: Array.from(this.tabsById.keys()).indexOf(tab.id),
+      windowId: 1,
+      url: tab.url,
+      title: tab.title,
+      status: tab.status,
+      active: tab.id === this.activeTabId,
+      highlighted: tab.id === this.activeTabId,
+      pinned: false,
+      incognito: false,
+      selected: tab.id === this.activeTabId,
+      discarded: false,
+      autoDiscardable: true,
+      frozen: false,
+      groupId: -1,
+    };
+  }
+
+  private registerPage(page: PuppeteerPage): MockTab {
+    const existingId = this.tabIds.get(page);
+    if (existingId !== undefined) {
+      return this.getTab(existingId);
+    }
+
+    const tab: MockTab = {
+      id: this.nextTabId++,
+      page,
+      url: page.url(),
+      title: page.url(),
+      status: 'complete',
+      debuggerSession: null,
+    };
+    this.tabsById.set(tab.id, tab);
+    this.tabIds.set(page, tab.id);
+
+    for (const source of this.contentScriptSources) {
+      page.evaluateOnNewDocument(source).catch(() => {});
+    }
+    page.on('framenavigated', frame => {
+      if (frame !== page.mainFrame()) {
+        return;
+      }
+      tab.url = frame.url();
+      tab.status = 'loading';
+      this.tabs.onUpdated.dispatch(tab.id, { status: 'loading', url: tab.url }, this.toChromeTab(tab));
+    });
+    page.on('load', async () => {
+      // like chrome, use the url as title of pages without one
+      tab.title = (await page.title().catch(() => '')) || tab.url;
+      tab.status = 'complete';
+      this.tabs.onUpdated.dispatch(tab.id, { status: 'complete', title: tab.title }, this.toChromeTab(tab));
+    });
+    page.on('close', () => {
+      this.tabsById.delete(tab.id);
+      this.tabIds.delete(page);
+      if (tab.debuggerSession) {
+        tab.debuggerSession = null;
+        this.debugger.onDetach.dispatch({ tabId: tab.id }, 'target_closed');
+      }
+      if (this.activeTabId === tab.id) {
+        this.activeTabId = Array.from(this.tabsById.keys()).pop() ?? null;
+      }
+      this.tabs.onRemoved.dispatch(tab.id, { windowId: 1, isWindowClosing: false });
+    });
+    return tab;
+  }
+
+  private async activateTab(tabId: number): Promise<void> {
+    await this.getTab(tabId).page.bringToFront();
+    this.activeTabId = tabId;
+    this.tabs.onActivated.dispatch({ tabId, windowId: 1 });
+  }
+
+  private startNavigation(tab: MockTab, url: string): void {
+    // chrome.tabs returns before the page is loaded, callers wait for onUpdated
+    tab.page.goto(url).catch(error => {
+      console.warn(`Navigation of tab ${tab.id} to ${url} failed:`, error);
+    });
+  }
+}
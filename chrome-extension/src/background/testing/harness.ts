@@ -0,0 +1,156 @@
+import { fileURLToPath } from 'node:url';
+import puppeteer, { type Browser } from 'puppeteer-core';
+import type BrowserContext from '../browser/context';
+import type { BrowserContextConfig } from '../browser/views';
+import type { ExecutorExtraArgs } from '../agent/executor';
+import type { AgentEvent } from '../agent/event/types';
+import type { AgentOptions } from '../agent/types';
+import { type ChatScript, ScriptedChatModel } from '../agent/scripted';
+import { ChromeMock } from './chrome';
+import { type FixtureServer, startFixtureServer } from './server';
+
+// Public folder of the extension, contains the scripts injected into the pages
+const EXTENSION_PUBLIC_DIR = fileURLToPath(new URL('../../../public', import.meta.url));
+
+export interface HarnessOptions {
+  // Directory with the fixture pages, served at harness.baseUrl
+  fixturesDir: string;
+  // Chrome binary, defaults to the CHROME_PATH or PUPPETEER_EXECUTABLE_PATH environment variable
+  executablePath?: string;
+  headless?: boolean;
+  browserContextConfig?: Partial<BrowserContextConfig>;
+}
+
+export interface RunTaskOptions {
+  // Responses of the planner, navigator and validator
+  script: ChatScript;
+  // Page to open before the task starts, relative to the fixture server or absolute
+  startUrl?: string;
+  agentOptions?: Partial<AgentOptions>;
+  extraArgs?: Partial<Omit<ExecutorExtraArgs, 'plannerLLM' | 'validatorLLM' | 'agentOptions'>>;
+}
+
+export interface TaskRun {
+  // Every execution event emitted by the executor, in order
+  events: AgentEvent[];
+  // The last event of the system, TASK_OK, TASK_FAIL or TASK_CANCEL
+  finalEvent: AgentEvent | undefined;
+  // The scripted models, their calls contain the prompts the agents sent
+  models: Record<'planner' | 'navigator' | 'validator', ScriptedChatModel>;
+}
+
+/**
+ * Runs the executor end-to-end against local fixture pages in a headless browser, with scripted models instead of LLMs
+ *
+ * Example:
+ *   const harness = await ExecutorHarness.create({ fixturesDir: fileURLToPath(new URL('fixtures', import.meta.url)) });
+ *   const run = await harness.runTask('Fill the form and report the confirmation number', {
+ *     startUrl: '/form.html',
+ *     script: { planner: [...], navigator: [...], validator: [...] },
+ *   });
+ *   expect(run.finalEvent?.state).toBe(ExecutionState.TASK_OK);
+ *   await harness.close();
+ */
+export class ExecutorHarness {
+  private taskCount = 0;
+
+  private constructor(
+    private readonly browser: Browser,
+    private readonly server: FixtureServer,
+    readonly chrome: ChromeMock,
+    readonly browserContext: BrowserContext,
+  ) {}
+
+  static async create(options: HarnessOptions): Promise<ExecutorHarness> {
+    const executablePath =
+      options.executablePath ?? process.env.CHROME_PATH ?? process.env.PUPPETEER_EXECUTABLE_PATH ?? undefined;
+    if (!executablePath) {
+      throw new Error('No Chrome binary, set executablePath or the CHROME_PATH environment variable');
+    }
+
+    const server = await startFixtureServer(options.fixturesDir);
+    const browser = await puppeteer.launch({
+      executablePath,
+      headless: options.headless ?? true,
+      defaultViewport: null,
+      args: ['--no-sandbox', '--window-size=1280,1100'],
+    });
+
+    try {
+      const chrome = new ChromeMock(browser, {
+        extensionDir: EXTENSION_PUBLIC_DIR,
+        contentScripts: ['buildDomTree.js'],
+      });
+      await chrome.init();
+      chrome.install();
+
+      // the modules of the background use the chrome global when they are loaded
+      const { default: BrowserContextClass } = await import('../browser/context');
+      const browserContext = new BrowserContextClass(options.browserContextConfig ?? {});
+      return new ExecutorHarness(browser, server, chrome, browserContext);
+    } catch (error) {
+      await browser.close();
+      await server.close();
+      throw error;
+    }
+  }
+
+  get baseUrl(): string {
+    return this.server.baseUrl;
+  }
+
+  /**
+   * Resolve a path of the fixture server, absolute URLs are returned unchanged
+   */
+  url(path: string): string {
+    return new URL(path, this.server.baseUrl).toString();
+  }
+
+  /**
+   * Run a task with the executor until it finishes
+   * @param task The task of the user
+   * @param options The script of the models and the options of the executor
+   */
+  async runTask(task: string, options: RunTaskOptions): Promise<TaskRun> {
+    const { Executor } = await import('../agent/executor');
+    const { Actors } = await import('../agent/event/types');
+
+    if (options.startUrl) {
+      await this.browserContext.navigateTo(this.url(options.startUrl));
+    }
+
+    const models = {
+      planner: new ScriptedChatModel({ model: 'planner', script: options.script }),
+      navigator: new ScriptedChatModel({ model: 'navigator', script: options.script }),
+      validator: new ScriptedChatModel({ model: 'validator', script: options.script }),
+    };
+    this.taskCount++;
+    const executor = new Executor(task, `harness-task-${this.taskCount}`, this.browserContext, models.navigator, {
+      ...options.extraArgs,
+      plannerLLM: models.planner,
+      validatorLLM: models.validator,
+      // failures are deterministic, retrying later would only slow the tests down
+      agentOptions: { retryDelay: 0, ...options.agentOptions },
+    });
+
+    const events: AgentEvent[] = [];
+    executor.subscribeExecutionEvents(async event => {
+      events.push(event);
+    });
+    try {
+      await executor.execute();
+    } finally {
+      await executor.cleanup();
+    }
+
+    const systemEvents = events.filter(event => event.actor === Actors.SYSTEM);
+    return { events, finalEvent: systemEvents[systemEvents.length - 1], models };
+  }
+
+  async close(): Promise<void> {
+    await this.browserContext.cleanup();
+    this.chrome.uninstall();
+    await this.browser.close();
+    await this.server.close();
+  }
+}
@@ -0,0 +1,49 @@
+import { createServer } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { extname, join, normalize } from 'node:path';
+import type { AddressInfo } from 'node:net';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.svg': 'image/svg+xml',
+  '.txt': 'text/plain; charset=utf-8',
+};
+
+export interface FixtureServer {
+  // Base URL of the server without trailing slash, e.g. http://127.0.0.1:41234
+  baseUrl: string;
+  close: () => Promise<void>;
+}
+
+/**
+ * Serve the fixture pages of a directory on a random port of localhost
+ * @param rootDir The directory containing the fixture pages
+ */
+export async function startFixtureServer(rootDir: string): Promise<FixtureServer> {
+  const server = createServer(async (request, response) => {
+    const pathname = decodeURIComponent(new URL(request.url ?? '/', 'http://localhost').pathname);
+    // prevent requests from escaping the fixture directory
+    const relativePath = normalize(pathname).replace(/^(\.\.[/\\])+/, '');
+    const filePath = join(rootDir, relativePath.endsWith('/') ? `${relativePath}index.html` : relativePath);
+    try {
+      const content = await readFile(filePath);
+      response.writeHead(200, { 'Content-Type': CONTENT_TYPES[extname(filePath)] ?? 'application/octet-stream' });
+      response.end(content);
+    } catch {
+      response.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+      response.end(`Not found: ${pathname}`);
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
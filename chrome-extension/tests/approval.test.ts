@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { ApprovalPolicyConfig } from '@extension/storage';
+import { getApprovalReason } from '@src/background/agent/actions/approval';
+import { DOMHistoryElement } from '@src/background/browser/dom/history/view';
+
+const policy: ApprovalPolicyConfig = {
+  enabled: true,
+  actionTypes: [],
+  urlPatterns: ['bank.example.com/*'],
+  elementKeywords: ['pay', '削除'],
+};
+
+describe('approval policy', () => {
+  it('applies the URL patterns to the actions without an element', () => {
+    expect(getApprovalReason(policy, 'send_keys', undefined, 'https://bank.example.com/transfer')).not.toBeNull();
+    expect(
+      getApprovalReason(policy, 'go_to_url', undefined, 'https://shop.example.com/', null, 'https://bank.example.com/'),
+    ).not.toBeNull();
+    expect(getApprovalReason(policy, 'scroll_down', undefined, 'https://bank.example.com/transfer')).toBeNull();
+    expect(getApprovalReason(policy, 'send_keys', undefined, 'https://shop.example.com/')).toBeNull();
+  });
+
+  it('checks the keywords against the element at the position of a click by coordinates', () => {
+    const element = new DOMHistoryElement('canvas', 'html/body/canvas', null, ['canvas'], { 'aria-label': 'Pay now' });
+    expect(getApprovalReason(policy, 'click_coordinates', element, 'https://shop.example.com/')).toContain('pay');
+    expect(getApprovalReason(policy, 'click_coordinates', null, 'https://shop.example.com/')).toBeNull();
+  });
+
+  it('checks the keywords against the related elements of drags and keys', () => {
+    const input = new DOMHistoryElement('input', 'html/body/form/input', 0, ['form', 'input'], { name: 'quantity' });
+    const submit = new DOMHistoryElement('button', 'html/body/form/button', 1, ['form', 'button'], {
+      type: 'submit',
+      value: 'Pay',
+    });
+    const url = 'https://shop.example.com/';
+    expect(getApprovalReason(policy, 'send_keys', undefined, url, null, null, [input, submit])).toContain('pay');
+    expect(getApprovalReason(policy, 'send_keys', undefined, url, null, null, [input])).toBeNull();
+
+    const card = new DOMHistoryElement('div', 'html/body/div', 2, ['div'], { 'aria-label': 'Invoice 42' });
+    const trash = new DOMHistoryElement('div', 'html/body/aside', 3, ['aside'], { 'aria-label': '削除' });
+    expect(getApprovalReason(policy, 'drag_element', card, url, null, null, [trash])).toContain('削除');
+    expect(getApprovalReason(policy, 'input_text', card, url, null, null, [trash])).toBeNull();
+  });
+});
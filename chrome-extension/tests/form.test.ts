@@ -0,0 +1,77 @@
+import { fileURLToPath } from 'node:url';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ExecutorHarness } from '@src/background/testing/harness';
+import { Actors, ExecutionState } from '@src/background/agent/event/types';
+
+const executablePath = process.env.CHROME_PATH ?? process.env.PUPPETEER_EXECUTABLE_PATH;
+
+// the harness needs a Chrome binary, set CHROME_PATH to run this test
+describe.skipIf(!executablePath)('fill this form and report the confirmation number', () => {
+  let harness: ExecutorHarness;
+
+  beforeAll(async () => {
+    harness = await ExecutorHarness.create({ fixturesDir: fileURLToPath(new URL('fixtures', import.meta.url)) });
+  });
+
+  afterAll(async () => {
+    await harness?.close();
+  });
+
+  it('fills the form, submits it and reports the confirmation number shown on the page', async () => {
+    const run = await harness.runTask(
+      'Fill this form with the name Ada and the email ada@example.com and report the confirmation number',
+      {
+        startUrl: '/form.html',
+        agentOptions: { planningInterval: 10 },
+        script: {
+          planner: [
+            {
+              observation: 'The registration form is open',
+              challenges: 'none',
+              done: false,
+              next_steps: 'Fill the name and the email, submit the form and read the confirmation number',
+              reasoning: 'The form has the fields of the task',
+              web_task: true,
+            },
+          ],
+          navigator: [
+            {
+              current_state: {
+                evaluation_previous_goal: 'Unknown - the task just started',
+                memory: 'The form has a name and an email field',
+                next_goal: 'Fill and submit the form',
+              },
+              action: [
+                { input_text: { intent: 'Enter the name', index: 0, text: 'Ada' } },
+                { input_text: { intent: 'Enter the email', index: 1, text: 'ada@example.com' } },
+                { click_element: { intent: 'Submit the form', index: 2 } },
+              ],
+            },
+            {
+              current_state: {
+                evaluation_previous_goal: 'Success - the form was submitted',
+                memory: 'The confirmation number is REG-4711',
+                next_goal: 'Report the confirmation number',
+              },
+              action: [{ done: { text: 'The confirmation number is REG-4711', success: true } }],
+            },
+          ],
+          validator: [{ is_valid: true, reason: 'The page shows the confirmation number', answer: 'REG-4711' }],
+        },
+      },
+    );
+
+    expect(run.finalEvent?.state).toBe(ExecutionState.TASK_OK);
+    const page = harness.chrome.getPage(harness.chrome.getActiveTabId()!);
+    expect(await page.$eval('#confirmation', element => element.textContent)).toContain('REG-4711');
+
+    // the navigator read the confirmation number from the page after submitting the form
+    const [, secondCall] = run.models.navigator.calls;
+    const lastMessage = secondCall.messages[secondCall.messages.length - 1];
+    expect(JSON.stringify(lastMessage.content)).toContain('your confirmation number is REG-4711');
+    const answer = run.events
+      .filter(event => event.actor === Actors.NAVIGATOR && event.state === ExecutionState.ACT_OK)
+      .pop();
+    expect(answer?.data.details).toBe('The confirmation number is REG-4711');
+  });
+});
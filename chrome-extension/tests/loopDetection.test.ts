@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { fingerprintPage, LoopDetector } from '@src/background/agent/utils/loopDetection';
+
+const PAGE_URL = 'https://shop.example.com/signup';
+
+describe('LoopDetector', () => {
+  it('detects the same action repeated on an unchanged page', () => {
+    const detector = new LoopDetector();
+    for (let i = 0; i < 3; i++) {
+      expect(detector.detect()).toBeNull();
+      detector.record({ actions: 'click 5', page: 'signup' });
+    }
+    expect(detector.detect()).toContain('the same action was repeated');
+  });
+
+  it('detects a few actions taken over and over on an unchanged page', () => {
+    const detector = new LoopDetector();
+    for (const actions of ['click 5', 'scroll', 'click 7', 'click 5', 'scroll', 'click 7']) {
+      detector.record({ actions, page: 'signup' });
+    }
+    expect(detector.detect()).toBe('the page did not change for 6 steps');
+  });
+
+  it('does not consider different actions on an unchanged page stagnation', () => {
+    // e.g. filling a long form field by field, when the fingerprint of the page misses the values
+    const detector = new LoopDetector();
+    for (let field = 0; field < 8; field++) {
+      detector.record({ actions: `input ${field}`, page: 'signup' });
+      expect(detector.detect()).toBeNull();
+    }
+  });
+
+  it('tells whether the last step changed the page', () => {
+    const detector = new LoopDetector();
+    detector.record({ actions: 'input 1', page: 'empty form' });
+    expect(detector.changedPage()).toBe(false);
+    detector.record({ actions: 'input 2', page: 'first field filled' });
+    expect(detector.changedPage()).toBe(true);
+    detector.record({ actions: 'input 2', page: 'first field filled' });
+    expect(detector.changedPage()).toBe(false);
+  });
+});
+
+describe('fingerprintPage', () => {
+  it('changes with the text and attributes of the elements', async () => {
+    const pathHashes = new Set(['a', 'b']);
+    const empty = await fingerprintPage(PAGE_URL, 0, pathHashes, '[0]<input name=email />');
+    const filled = await fingerprintPage(PAGE_URL, 0, pathHashes, '[0]<input name=email value=a@example.com />');
+    expect(filled).not.toBe(empty);
+    expect(await fingerprintPage(PAGE_URL, 0, pathHashes, '[0]<input name=email />')).toBe(empty);
+  });
+});
@@ -0,0 +1,158 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ProviderTypeEnum, type ProviderConfig } from '@extension/storage';
+import type BrowserContext from '@src/background/browser/context';
+import { DOMElementNode, DOMTextNode } from '@src/background/browser/dom/views';
+import type { BrowserState } from '@src/background/browser/views';
+import { Executor } from '@src/background/agent/executor';
+import { createChatModel } from '@src/background/agent/helper';
+import { clearRecordedCalls, getRecordedCalls, type ChatScript } from '@src/background/agent/scripted';
+import { Actors, ExecutionState, type AgentEvent } from '@src/background/agent/event/types';
+
+const PAGE_URL = 'https://shop.example.com/order';
+
+/**
+ * A page with a single button, the navigator only needs its state to complete the task
+ */
+function pageState(): BrowserState {
+  const button = new DOMElementNode({
+    tagName: 'button',
+    xpath: 'html/body/button',
+    attributes: {},
+    children: [],
+    isVisible: true,
+    isInteractive: true,
+    isTopElement: true,
+    isInViewport: true,
+    highlightIndex: 0,
+  });
+  button.children.push(new DOMTextNode('Confirm the order', true, button));
+  const body = new DOMElementNode({
+    tagName: 'body',
+    xpath: 'html/body',
+    attributes: {},
+    children: [],
+    isVisible: true,
+  });
+  body.children.push(button);
+  return {
+    elementTree: body,
+    selectorMap: new Map([[0, button]]),
+    tabId: 1,
+    url: PAGE_URL,
+    title: 'Order',
+    screenshot: null,
+    pixelsAbove: 0,
+    pixelsBelow: 0,
+    dialog: null,
+    tabs: [{ id: 1, url: PAGE_URL, title: 'Order' }],
+    browser_errors: [],
+  };
+}
+
+/**
+ * Browser context of a single tab that never changes
+ */
+function staticBrowserContext(): BrowserContext {
+  const page = {
+    tabId: 1,
+    attached: true,
+    url: () => PAGE_URL,
+    title: async () => 'Order',
+    getDialog: () => null,
+    removeHighlight: async () => {},
+  };
+  return {
+    getState: async () => pageState(),
+    getCachedState: async () => pageState(),
+    getCurrentPage: async () => page,
+    getAllTabIds: async () => new Set([1]),
+    getTabInfos: async () => [{ id: 1, url: PAGE_URL, title: 'Order' }],
+    setNetworkListener: () => {},
+    removeHighlight: async () => {},
+    waitForPageSettled: async () => {},
+    cleanup: async () => {},
+  } as unknown as BrowserContext;
+}
+
+const script: ChatScript = {
+  planner: [
+    {
+      observation: 'The order page is open',
+      challenges: 'none',
+      done: false,
+      next_steps: 'Read the order number and finish',
+      reasoning: 'The order number is visible on the page',
+      web_task: true,
+    },
+  ],
+  navigator: [
+    {
+      current_state: {
+        evaluation_previous_goal: 'Unknown - the task just started',
+        memory: 'The order number is 4711',
+        next_goal: 'Report the order number',
+      },
+      action: [{ done: { text: 'The order number is 4711', success: true } }],
+    },
+  ],
+  validator: [{ is_valid: true, reason: 'The order number is on the page', answer: 'The order number is 4711' }],
+};
+
+/**
+ * Creates the planner, navigator and validator models the way the extension does, from a scripted provider
+ */
+function createScriptedModels(chatScript: ChatScript) {
+  const providerConfig: ProviderConfig = {
+    apiKey: '',
+    type: ProviderTypeEnum.Scripted,
+    baseUrl: `data:application/json,${encodeURIComponent(JSON.stringify(chatScript))}`,
+  };
+  const create = (modelName: string) =>
+    createChatModel(providerConfig, { provider: ProviderTypeEnum.Scripted, modelName });
+  return { planner: create('planner'), navigator: create('navigator'), validator: create('validator') };
+}
+
+describe('scripted models', () => {
+  afterEach(() => {
+    clearRecordedCalls();
+  });
+
+  it('runs the planner, navigator and validator of a task and records their prompts', async () => {
+    const models = createScriptedModels(script);
+    const executor = new Executor('Report the order number', 'task-1', staticBrowserContext(), models.navigator, {
+      plannerLLM: models.planner,
+      validatorLLM: models.validator,
+      saveCheckpoints: false,
+    });
+    const events: AgentEvent[] = [];
+    executor.subscribeExecutionEvents(async event => {
+      events.push(event);
+    });
+
+    await executor.execute();
+
+    const finalEvent = events.filter(event => event.actor === Actors.SYSTEM).pop();
+    expect(finalEvent?.state).toBe(ExecutionState.TASK_OK);
+    const answer = events
+      .filter(event => event.actor === Actors.NAVIGATOR && event.state === ExecutionState.ACT_OK)
+      .pop();
+    expect(answer?.data.details).toBe('The order number is 4711');
+    expect(getRecordedCalls().map(call => call.model)).toEqual(['planner', 'navigator', 'validator']);
+
+    // the navigator sees the task and the elements of the page
+    const [navigatorCall] = getRecordedCalls('navigator');
+    const navigatorPrompt = navigatorCall.messages.map(message => JSON.stringify(message.content)).join('\n');
+    expect(navigatorPrompt).toContain('Report the order number');
+    expect(navigatorPrompt).toContain('[0]<button >Confirm the order');
+    expect(navigatorPrompt).toContain(PAGE_URL);
+    // the planner and the validator answer through the tool of their output schema
+    expect(getRecordedCalls('planner')[0].tools).toHaveLength(1);
+    expect(getRecordedCalls('validator')[0].tools).toHaveLength(1);
+  });
+
+  it('fails when the script runs out of responses', async () => {
+    const models = createScriptedModels({ ...script, planner: [] });
+    await expect(models.planner.invoke('plan')).rejects.toThrow('ran out of responses');
+    expect(getRecordedCalls()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,14 @@
+import { createStorageMock } from '@src/background/testing/chrome';
+
+// The chrome APIs the modules of the background use when they are imported, the harness replaces them with a
+// ChromeMock backed by a browser
+Object.assign(globalThis, {
+  chrome: {
+    runtime: {
+      id: 'nanobrowser-test',
+      getURL: (path: string) => `chrome-extension://nanobrowser-test/${path}`,
+      onMessage: { addListener: () => {}, removeListener: () => {} },
+    },
+    storage: createStorageMock(),
+  },
+});
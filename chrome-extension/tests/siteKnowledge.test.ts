@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { siteKnowledgeStore } from '@extension/storage';
+
+describe('site knowledge', () => {
+  it('rejects notes for single labels and public suffixes', async () => {
+    for (const domain of ['com', 'localhost', 'co.jp', 'com.au', 'github.io']) {
+      expect(await siteKnowledgeStore.addNote(domain, 'Close the cookie banner first')).toBeNull();
+    }
+    expect(await siteKnowledgeStore.getAllNotes()).toEqual([]);
+  });
+
+  it('applies the notes of a domain to its subdomains only', async () => {
+    const note = await siteKnowledgeStore.addNote('https://www.example.co.jp/login', 'Close the cookie banner first');
+    expect(note?.domain).toBe('example.co.jp');
+    expect(await siteKnowledgeStore.getNotesForUrl('https://shop.example.co.jp/cart')).toHaveLength(1);
+    expect(await siteKnowledgeStore.getNotesForUrl('https://other.co.jp/')).toHaveLength(0);
+    expect(await siteKnowledgeStore.getNotesForUrl('https://notexample.co.jp/')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { DOMElementNode, DOMTextNode } from '@src/background/browser/dom/views';
+import type { BrowserState } from '@src/background/browser/views';
+import { StateDiffTracker } from '@src/background/agent/utils/stateDiff';
+
+const PAGE_URL = 'https://shop.example.com/cart';
+
+/**
+ * A page with a button per label, in the order of the labels
+ */
+function pageState(labels: string[]): { state: BrowserState; elementsText: string } {
+  const body = new DOMElementNode({
+    tagName: 'body',
+    xpath: 'html/body',
+    attributes: {},
+    children: [],
+    isVisible: true,
+  });
+  const selectorMap = new Map<number, DOMElementNode>();
+  labels.forEach((label, index) => {
+    const button = new DOMElementNode({
+      tagName: 'button',
+      xpath: `html/body/button[${index + 1}]`,
+      attributes: {},
+      children: [],
+      isVisible: true,
+      isInteractive: true,
+      isTopElement: true,
+      isInViewport: true,
+      highlightIndex: index,
+      parent: body,
+    });
+    button.children.push(new DOMTextNode(label, true, button));
+    body.children.push(button);
+    selectorMap.set(index, button);
+  });
+  const state: BrowserState = {
+    elementTree: body,
+    selectorMap,
+    tabId: 1,
+    url: PAGE_URL,
+    title: 'Cart',
+    screenshot: null,
+    pixelsAbove: 0,
+    pixelsBelow: 0,
+    dialog: null,
+    tabs: [{ id: 1, url: PAGE_URL, title: 'Cart' }],
+    browser_errors: [],
+  };
+  return { state, elementsText: body.clickableElementsToString() };
+}
+
+// Long enough that the summaries of the unchanged elements are shorter than the full state
+const LABELS = [
+  ...['keyboard', 'mouse', 'monitor stand', 'desk lamp', 'headset', 'webcam'].map(
+    item => `Remove the ${item} from the cart, it can be added again from the wish list later`,
+  ),
+  'Continue to the checkout',
+];
+
+describe('StateDiffTracker', () => {
+  it('sends the full state until a full state was committed', () => {
+    const tracker = new StateDiffTracker();
+    const page = pageState(LABELS);
+
+    expect(tracker.update(page.state, page.elementsText).incremental).toBe(false);
+    // the model call of the first step failed, nothing was committed
+    expect(tracker.update(page.state, page.elementsText).incremental).toBe(false);
+    expect(tracker.commit()?.incremental).toBe(false);
+    expect(tracker.commit()).toBeNull();
+
+    expect(tracker.update(page.state, page.elementsText).incremental).toBe(true);
+  });
+
+  it('describes the changes relative to the last committed state', () => {
+    const tracker = new StateDiffTracker();
+    const first = pageState(LABELS);
+    tracker.update(first.state, first.elementsText);
+    tracker.commit();
+
+    const second = pageState([...LABELS.slice(0, -1), 'Continue to the payment']);
+    const secondDiff = tracker.update(second.state, second.elementsText);
+    expect(secondDiff.incremental).toBe(true);
+    expect(secondDiff.text).toContain('Added or changed:\n[6]<button >Continue to the payment />');
+    // the model call failed, the next state describes the same change again
+    expect(tracker.update(second.state, second.elementsText).text).toBe(secondDiff.text);
+    expect(tracker.commit()?.text).toBe(secondDiff.text);
+
+    const thirdDiff = tracker.update(second.state, second.elementsText);
+    expect(thirdDiff.incremental).toBe(true);
+    expect(thirdDiff.text).toContain('Added or changed: none');
+  });
+
+  it('sends the full state after a resync request', () => {
+    const tracker = new StateDiffTracker();
+    const page = pageState(LABELS);
+    tracker.update(page.state, page.elementsText);
+    tracker.commit();
+
+    tracker.requestResync();
+    expect(tracker.update(page.state, page.elementsText).incremental).toBe(false);
+    // the resync is only done once the full state was committed
+    expect(tracker.update(page.state, page.elementsText).incremental).toBe(false);
+    tracker.commit();
+    expect(tracker.update(page.state, page.elementsText).incremental).toBe(true);
+  });
+});
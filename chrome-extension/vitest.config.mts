@@ -0,0 +1,21 @@
+import { resolve } from 'node:path';
+import { defineConfig } from 'vitest/config';
+
+const rootDir = resolve(__dirname);
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@root': rootDir,
+      '@src': resolve(rootDir, 'src'),
+      // the sources of the workspace packages, so that the tests do not need a build
+      '@extension/storage': resolve(rootDir, '../packages/storage/index.ts'),
+    },
+  },
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+    // the extension APIs the background script uses at import time
+    setupFiles: ['tests/setup.ts'],
+  },
+});
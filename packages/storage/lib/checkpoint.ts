@@ -0,0 +1,87 @@
+import { StorageEnum } from './base/enums';
+import { createStorage } from './base/base';
+import type { BaseStorage } from './base/types';
+import type { RecordedAction } from './replay/types';
+import type { DatasetSchema } from './dataset/types';
+
+// A message of the agent memory in the serialized form of langchain (BaseMessage.toDict())
+export interface CheckpointMessage {
+  message: { type: string; data: Record<string, unknown> };
+  tokens: number;
+  messageType: string | null;
+}
+
+export interface CheckpointActionResult {
+  isDone: boolean;
+  extractedContent: string | null;
+  error: string | null;
+  includeInMemory: boolean;
+}
+
+// State of a running executor, saved after each completed step
+export interface ExecutorCheckpoint {
+  taskId: string;
+  tasks: string[]; // Initial task followed by the follow-up tasks
+  tabId: number | null; // Tab the agent was working on
+  step: number; // Next step to execute
+  nSteps: number;
+  consecutiveFailures: number;
+  consecutiveValidatorFailures: number;
+  validatorFailed: boolean;
+  webTask: boolean | null; // Whether the planner decided the task needs the browser
+  messages: CheckpointMessage[];
+  actionResults: CheckpointActionResult[];
+  recordedActions: RecordedAction[];
+  filePaths: string[]; // Local files the agent may upload
+  extractionSchema: DatasetSchema | null; // Schema of the records to extract, defined by the user
+  paused: boolean; // Paused by the user, not interrupted by a restart
+  updatedAt: number; // Unix timestamp in milliseconds
+}
+
+export type ExecutorCheckpointStorage = BaseStorage<Record<string, ExecutorCheckpoint>> & {
+  saveCheckpoint: (checkpoint: Omit<ExecutorCheckpoint, 'paused' | 'updatedAt'>) => Promise<void>;
+  getCheckpoint: (taskId: string) => Promise<ExecutorCheckpoint | null>;
+  // Get the most recent checkpoint of a task that was interrupted while running, paused tasks are skipped
+  getInterruptedCheckpoint: () => Promise<ExecutorCheckpoint | null>;
+  markPaused: (taskId: string) => Promise<void>;
+  clearCheckpoint: (taskId: string) => Promise<void>;
+};
+
+// Checkpoints by task id
+const storage = createStorage<Record<string, ExecutorCheckpoint>>(
+  'executor-checkpoints',
+  {},
+  {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  },
+);
+
+export const executorCheckpointStore: ExecutorCheckpointStorage = {
+  ...storage,
+  async saveCheckpoint(checkpoint: Omit<ExecutorCheckpoint, 'paused' | 'updatedAt'>) {
+    await storage.set(current => ({
+      ...current,
+      [checkpoint.taskId]: { ...checkpoint, paused: false, updatedAt: Date.now() },
+    }));
+  },
+  async getCheckpoint(taskId: string) {
+    return (await storage.get())[taskId] ?? null;
+  },
+  async getInterruptedCheckpoint() {
+    const checkpoints = Object.values(await storage.get()).filter(checkpoint => !checkpoint.paused);
+    return checkpoints.sort((a, b) => b.updatedAt - a.updatedAt)[0] ?? null;
+  },
+  async markPaused(taskId: string) {
+    await storage.set(current =>
+      current[taskId] ? { ...current, [taskId]: { ...current[taskId], paused: true } } : current,
+    );
+  },
+  async clearCheckpoint(taskId: string) {
+    await storage.set(current => {
+      const checkpoints = { ...current };
+      delete checkpoints[taskId];
+      return checkpoints;
+    });
+  },
+};
@@ -0,0 +1,80 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { Dataset, DatasetMetadata, DatasetRow, DatasetSchema, DatasetStorage } from './types';
+
+// Key for storing dataset metadata
+const DATASETS_META_KEY = 'datasets_meta';
+
+const datasetsMetaStorage = createStorage<DatasetMetadata[]>(DATASETS_META_KEY, [], {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+// Helper function to create storage for a specific dataset's rows
+const getDatasetRowsStorage = (taskId: string) => {
+  return createStorage<DatasetRow[]>(`dataset_rows_${taskId}`, [], {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  });
+};
+
+/**
+ * Creates a storage for the structured data extracted by the agent, one dataset per task
+ */
+export function createDatasetStorage(): DatasetStorage {
+  return {
+    getDatasetsMetadata: async (): Promise<DatasetMetadata[]> => {
+      return await datasetsMetaStorage.get();
+    },
+
+    getDataset: async (taskId: string): Promise<Dataset | null> => {
+      const datasetsMeta = await datasetsMetaStorage.get();
+      const datasetMeta = datasetsMeta.find(dataset => dataset.taskId === taskId);
+
+      if (!datasetMeta) return null;
+
+      const rows = await getDatasetRowsStorage(taskId).get();
+      return {
+        ...datasetMeta,
+        rows,
+      };
+    },
+
+    addRows: async (taskId: string, schema: DatasetSchema, rows: DatasetRow[]): Promise<DatasetMetadata> => {
+      let rowCount = 0;
+      await getDatasetRowsStorage(taskId).set(prevRows => {
+        const newRows = [...prevRows, ...rows];
+        rowCount = newRows.length;
+        return newRows;
+      });
+
+      const currentTime = Date.now();
+      const datasetsMeta = await datasetsMetaStorage.get();
+      const existing = datasetsMeta.find(dataset => dataset.taskId === taskId);
+      const datasetMeta: DatasetMetadata = {
+        taskId,
+        schema,
+        rowCount,
+        createdAt: existing?.createdAt ?? currentTime,
+        updatedAt: currentTime,
+      };
+
+      await datasetsMetaStorage.set(prevDatasets => [
+        ...prevDatasets.filter(dataset => dataset.taskId !== taskId),
+        datasetMeta,
+      ]);
+
+      return datasetMeta;
+    },
+
+    deleteDataset: async (taskId: string): Promise<void> => {
+      await datasetsMetaStorage.set(prevDatasets => prevDatasets.filter(dataset => dataset.taskId !== taskId));
+      await getDatasetRowsStorage(taskId).set([]);
+    },
+
+    subscribe: datasetsMetaStorage.subscribe,
+  };
+}
+
+// Export the storage instance for direct use
+export const datasetStore = createDatasetStorage();
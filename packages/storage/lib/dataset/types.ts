@@ -0,0 +1,33 @@
+// A JSON schema describing one row of a dataset
+export type DatasetSchema = Record<string, unknown>;
+
+export type DatasetRow = Record<string, unknown>;
+
+export interface DatasetMetadata {
+  taskId: string; // Id of the task (chat session) the rows were extracted in
+  schema: DatasetSchema; // Schema of the most recently added rows
+  rowCount: number;
+  createdAt: number; // Unix timestamp in milliseconds
+  updatedAt: number; // Unix timestamp in milliseconds
+}
+
+export interface Dataset extends DatasetMetadata {
+  rows: DatasetRow[];
+}
+
+export interface DatasetStorage {
+  // Get metadata of all datasets (for efficient listing)
+  getDatasetsMetadata: () => Promise<DatasetMetadata[]>;
+
+  // Get the dataset of a task with its rows
+  getDataset: (taskId: string) => Promise<Dataset | null>;
+
+  // Append validated rows to the dataset of a task, creating it if needed
+  addRows: (taskId: string, schema: DatasetSchema, rows: DatasetRow[]) => Promise<DatasetMetadata>;
+
+  // Delete the dataset of a task
+  deleteDataset: (taskId: string) => Promise<void>;
+
+  // Listen for changes of the datasets metadata, e.g. rows added by the background
+  subscribe: (listener: () => void) => () => void;
+}
@@ -0,0 +1,42 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { TaskDownload, TaskDownloadStorage } from './types';
+
+// Oldest downloads are dropped beyond this number, over all tasks
+const MAX_TASK_DOWNLOADS = 500;
+
+const taskDownloadsStorage = createStorage<TaskDownload[]>('task_downloads', [], {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+/**
+ * Creates a storage for the files downloaded by the agent, linked to the task and step that downloaded them
+ */
+export function createTaskDownloadStorage(): TaskDownloadStorage {
+  return {
+    getDownloads: async (taskId: string): Promise<TaskDownload[]> => {
+      const downloads = await taskDownloadsStorage.get();
+      return downloads.filter(download => download.taskId === taskId);
+    },
+
+    saveDownload: async (download: TaskDownload): Promise<void> => {
+      await taskDownloadsStorage.set(prevDownloads => {
+        const index = prevDownloads.findIndex(prev => prev.downloadId === download.downloadId);
+        if (index !== -1) {
+          return prevDownloads.map((prev, i) => (i === index ? download : prev));
+        }
+        return [...prevDownloads, download].slice(-MAX_TASK_DOWNLOADS);
+      });
+    },
+
+    deleteDownloads: async (taskId: string): Promise<void> => {
+      await taskDownloadsStorage.set(prevDownloads => prevDownloads.filter(download => download.taskId !== taskId));
+    },
+
+    subscribe: taskDownloadsStorage.subscribe,
+  };
+}
+
+// Export the storage instance for direct use
+export const taskDownloadStore = createTaskDownloadStorage();
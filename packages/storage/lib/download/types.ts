@@ -0,0 +1,31 @@
+export type TaskDownloadState = 'in_progress' | 'complete' | 'interrupted';
+
+// A file downloaded while a task was running
+export interface TaskDownload {
+  downloadId: number; // Id of the download in chrome.downloads
+  taskId: string; // Id of the task (chat session) the download was started in
+  step: number; // Navigator step that started the download, counted from 0 like the steps of recordings
+  url: string;
+  filename: string; // Absolute path of the file, empty until the browser picked it
+  mime: string;
+  fileSize: number; // Bytes written so far, the size of the file once complete
+  totalBytes: number; // Expected size in bytes, -1 if unknown
+  state: TaskDownloadState;
+  error: string | null; // Reason the download was interrupted
+  startedAt: number; // Unix timestamp in milliseconds
+  endedAt: number | null; // Unix timestamp in milliseconds
+}
+
+export interface TaskDownloadStorage {
+  // Get the downloads of a task, oldest first
+  getDownloads: (taskId: string) => Promise<TaskDownload[]>;
+
+  // Add a download or replace it with its updated state
+  saveDownload: (download: TaskDownload) => Promise<void>;
+
+  // Delete the downloads of a task, the files stay on disk
+  deleteDownloads: (taskId: string) => Promise<void>;
+
+  // Listen for changes of the downloads, e.g. progress recorded by the background
+  subscribe: (listener: () => void) => () => void;
+}
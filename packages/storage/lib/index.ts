@@ -1,9 +1,19 @@
 export type { BaseStorage } from './base/types';
 export * from './settings';
 export * from './chat';
+export * from './replay';
+export * from './task';
+export * from './vault';
+export * from './dataset';
+export * from './usage';
+export * from './trace';
 export * from './profile';
+export * from './knowledge';
+export * from './download';
+export * from './network';
 export * from './prompt/favorites';
 export * from './token-usage';
+export * from './checkpoint';
 
 // Re-export the favorites instance for direct use
 export { default as favoritesStorage } from './prompt/favorites';
@@ -0,0 +1,162 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { SiteKnowledgeStorage, SiteNote } from './types';
+
+// Notes are meant to be short tips, longer ones are truncated
+export const MAX_SITE_NOTE_LENGTH = 300;
+// The oldest notes of a domain are dropped beyond this, so the prompts stay small
+export const MAX_SITE_NOTES_PER_DOMAIN = 20;
+// Second-level labels under which the registries of country code domains sell domains, e.g. co.uk or com.au
+const REGISTRY_SECOND_LEVEL_LABELS = ['ac', 'co', 'com', 'edu', 'go', 'gov', 'ne', 'net', 'or', 'org'];
+// Domains of hosting services where anyone gets a subdomain, a note for them would apply to every site they host
+const HOSTING_SUFFIXES = [
+  'appspot.com',
+  'azurewebsites.net',
+  'blogspot.com',
+  'cloudfront.net',
+  'firebaseapp.com',
+  'github.io',
+  'gitlab.io',
+  'herokuapp.com',
+  'netlify.app',
+  'pages.dev',
+  'vercel.app',
+  'web.app',
+  'workers.dev',
+];
+
+const siteNotesStorage = createStorage<SiteNote[]>('site_knowledge', [], {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+/**
+ * Normalizes a domain by trimming whitespace, converting to lowercase and removing the scheme, path and www prefix
+ * @param domain The domain to normalize
+ * @returns The normalized domain
+ */
+export function normalizeSiteDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .split(/[/?#]/)[0]
+    .replace(/:\d+$/, '')
+    .replace(/^www\./, '');
+}
+
+function normalizeContent(content: string): string {
+  return content.trim().replace(/\s+/g, ' ').slice(0, MAX_SITE_NOTE_LENGTH);
+}
+
+/**
+ * Whether anyone can register a domain directly under the given one, e.g. com, co.jp or github.io
+ * Single labels are always treated as public suffixes, they are top-level domains or local host names
+ */
+function isPublicSuffix(domain: string): boolean {
+  const labels = domain.split('.');
+  if (labels.length === 1) {
+    return true;
+  }
+  if (labels.length === 2 && REGISTRY_SECOND_LEVEL_LABELS.includes(labels[0]) && labels[1].length === 2) {
+    return true;
+  }
+  return HOSTING_SUFFIXES.includes(domain);
+}
+
+/**
+ * Whether the notes of a domain apply to a host, which is the domain itself or one of its subdomains
+ * @param domain The normalized domain of the notes
+ * @param host The normalized host name
+ */
+export function matchesSiteDomain(domain: string, host: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+function sortNotes(notes: SiteNote[]): SiteNote[] {
+  return [...notes].sort((a, b) => a.domain.localeCompare(b.domain) || b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Creates a storage for the tips the agent learned about websites, which are given to the agents
+ * in later tasks on the same sites
+ */
+export function createSiteKnowledgeStorage(): SiteKnowledgeStorage {
+  return {
+    getAllNotes: async (): Promise<SiteNote[]> => {
+      return sortNotes(await siteNotesStorage.get());
+    },
+
+    getNotesForUrl: async (url: string): Promise<SiteNote[]> => {
+      let host: string;
+      try {
+        host = normalizeSiteDomain(new URL(url).hostname);
+      } catch {
+        return [];
+      }
+      if (!host) {
+        return [];
+      }
+      const notes = await siteNotesStorage.get();
+      return sortNotes(notes.filter(note => matchesSiteDomain(note.domain, host)));
+    },
+
+    addNote: async (domain: string, content: string, taskId: string | null = null): Promise<SiteNote | null> => {
+      const normalizedDomain = normalizeSiteDomain(domain);
+      const normalizedContent = normalizeContent(content);
+      if (!normalizedDomain || !normalizedContent || isPublicSuffix(normalizedDomain)) {
+        return null;
+      }
+
+      const currentTime = Date.now();
+      let note: SiteNote | null = null;
+      await siteNotesStorage.set(prevNotes => {
+        const existing = prevNotes.find(
+          n => n.domain === normalizedDomain && n.content.toLowerCase() === normalizedContent.toLowerCase(),
+        );
+        if (existing) {
+          note = { ...existing, updatedAt: currentTime };
+          return prevNotes.map(n => (n.id === existing.id ? (note as SiteNote) : n));
+        }
+
+        note = {
+          id: crypto.randomUUID(),
+          domain: normalizedDomain,
+          content: normalizedContent,
+          taskId,
+          createdAt: currentTime,
+          updatedAt: currentTime,
+        };
+        const domainNotes = [...prevNotes.filter(n => n.domain === normalizedDomain), note]
+          .sort((a, b) => b.updatedAt - a.updatedAt)
+          .slice(0, MAX_SITE_NOTES_PER_DOMAIN);
+        return [...prevNotes.filter(n => n.domain !== normalizedDomain), ...domainNotes];
+      });
+      return note;
+    },
+
+    updateNote: async (id: string, content: string): Promise<void> => {
+      const normalizedContent = normalizeContent(content);
+      if (!normalizedContent) {
+        throw new Error('Note must not be empty');
+      }
+      await siteNotesStorage.set(prevNotes =>
+        prevNotes.map(note => (note.id === id ? { ...note, content: normalizedContent, updatedAt: Date.now() } : note)),
+      );
+    },
+
+    removeNote: async (id: string): Promise<void> => {
+      await siteNotesStorage.set(prevNotes => prevNotes.filter(note => note.id !== id));
+    },
+
+    clearDomain: async (domain: string): Promise<void> => {
+      const normalizedDomain = normalizeSiteDomain(domain);
+      await siteNotesStorage.set(prevNotes => prevNotes.filter(note => note.domain !== normalizedDomain));
+    },
+
+    subscribe: siteNotesStorage.subscribe,
+  };
+}
+
+// Export the storage instance for direct use
+export const siteKnowledgeStore = createSiteKnowledgeStorage();
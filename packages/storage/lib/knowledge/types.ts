@@ -0,0 +1,33 @@
+// A tip about a website learned by the agent, e.g. where a button is hidden or what to close first
+export interface SiteNote {
+  id: string;
+  domain: string; // Domain the note applies to, subdomains included
+  content: string;
+  taskId: string | null; // Task the note was learned in, null if written by the user
+  createdAt: number; // Unix timestamp in milliseconds
+  updatedAt: number; // Unix timestamp in milliseconds
+}
+
+export interface SiteKnowledgeStorage {
+  // Get all notes, grouped by domain and newest first within a domain
+  getAllNotes: () => Promise<SiteNote[]>;
+
+  // Get the notes of the domain of a URL and its parent domains
+  getNotesForUrl: (url: string) => Promise<SiteNote[]>;
+
+  // Add a note to a domain, a note with the same content is only refreshed
+  // Returns null for an empty note and for a domain that is a single label or a public suffix such as co.jp
+  addNote: (domain: string, content: string, taskId?: string | null) => Promise<SiteNote | null>;
+
+  // Change the content of a note
+  updateNote: (id: string, content: string) => Promise<void>;
+
+  // Remove a note
+  removeNote: (id: string) => Promise<void>;
+
+  // Remove all notes of a domain
+  clearDomain: (domain: string) => Promise<void>;
+
+  // Listen for changes of the notes, e.g. notes added by the background
+  subscribe: (listener: () => void) => () => void;
+}
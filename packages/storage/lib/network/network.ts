@@ -0,0 +1,39 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { TaskNetworkRequest, TaskNetworkStorage } from './types';
+
+// Oldest requests are dropped beyond this number, over all tasks
+const MAX_TASK_NETWORK_REQUESTS = 1000;
+
+const taskNetworkStorage = createStorage<TaskNetworkRequest[]>('task_network_requests', [], {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+/**
+ * Creates a storage for the API calls made by the pages the agent worked on, linked to the task and step
+ */
+export function createTaskNetworkStorage(): TaskNetworkStorage {
+  return {
+    getRequests: async (taskId: string): Promise<TaskNetworkRequest[]> => {
+      const requests = await taskNetworkStorage.get();
+      return requests.filter(request => request.taskId === taskId);
+    },
+
+    saveRequests: async (requests: TaskNetworkRequest[]): Promise<void> => {
+      if (requests.length === 0) {
+        return;
+      }
+      await taskNetworkStorage.set(prevRequests => [...prevRequests, ...requests].slice(-MAX_TASK_NETWORK_REQUESTS));
+    },
+
+    deleteRequests: async (taskId: string): Promise<void> => {
+      await taskNetworkStorage.set(prevRequests => prevRequests.filter(request => request.taskId !== taskId));
+    },
+
+    subscribe: taskNetworkStorage.subscribe,
+  };
+}
+
+// Export the storage instance for direct use
+export const taskNetworkStore = createTaskNetworkStorage();
@@ -0,0 +1,30 @@
+// An XHR or fetch request made by a page while a task was running, without its bodies
+export interface TaskNetworkRequest {
+  requestId: string; // Id of the request, unique within the task
+  taskId: string; // Id of the task (chat session) the request was made in
+  step: number; // Navigator step the request finished in, counted from 0 like the steps of recordings
+  tabId: number;
+  method: string;
+  url: string;
+  resourceType: 'xhr' | 'fetch';
+  status: number | null; // HTTP status, null if the request failed without a response
+  mimeType: string;
+  size: number; // Bytes of the response body, -1 if unknown
+  error: string | null; // Reason the request failed
+  startedAt: number; // Unix timestamp in milliseconds
+  endedAt: number; // Unix timestamp in milliseconds
+}
+
+export interface TaskNetworkStorage {
+  // Get the requests of a task, oldest first
+  getRequests: (taskId: string) => Promise<TaskNetworkRequest[]>;
+
+  // Add the requests finished since the last save
+  saveRequests: (requests: TaskNetworkRequest[]) => Promise<void>;
+
+  // Delete the requests of a task
+  deleteRequests: (taskId: string) => Promise<void>;
+
+  // Listen for changes of the requests, e.g. requests recorded by the background
+  subscribe: (listener: () => void) => () => void;
+}
@@ -0,0 +1,70 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { RecordedAction, Recording, RecordingMetadata, RecordingStorage } from './types';
+
+// Key for storing recording metadata
+const RECORDINGS_META_KEY = 'replay_recordings_meta';
+
+const recordingsMetaStorage = createStorage<RecordingMetadata[]>(RECORDINGS_META_KEY, [], {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+// Helper function to create storage for a specific recording's actions
+const getRecordingActionsStorage = (recordingId: string) => {
+  return createStorage<RecordedAction[]>(`replay_actions_${recordingId}`, [], {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  });
+};
+
+/**
+ * Creates a storage for recorded agent runs that can be replayed without LLM calls
+ */
+export function createRecordingStorage(): RecordingStorage {
+  return {
+    getRecordingsMetadata: async (): Promise<RecordingMetadata[]> => {
+      return await recordingsMetaStorage.get();
+    },
+
+    getRecording: async (recordingId: string): Promise<Recording | null> => {
+      const recordingsMeta = await recordingsMetaStorage.get();
+      const recordingMeta = recordingsMeta.find(recording => recording.id === recordingId);
+
+      if (!recordingMeta) return null;
+
+      const actions = await getRecordingActionsStorage(recordingId).get();
+      return {
+        ...recordingMeta,
+        actions,
+      };
+    },
+
+    saveRecording: async (recordingId: string, task: string, actions: RecordedAction[]): Promise<RecordingMetadata> => {
+      const recordingMeta: RecordingMetadata = {
+        id: recordingId,
+        task,
+        createdAt: Date.now(),
+        actionCount: actions.length,
+      };
+
+      await getRecordingActionsStorage(recordingId).set(actions);
+      await recordingsMetaStorage.set(prevRecordings => [
+        ...prevRecordings.filter(recording => recording.id !== recordingId),
+        recordingMeta,
+      ]);
+
+      return recordingMeta;
+    },
+
+    deleteRecording: async (recordingId: string): Promise<void> => {
+      await recordingsMetaStorage.set(prevRecordings =>
+        prevRecordings.filter(recording => recording.id !== recordingId),
+      );
+      await getRecordingActionsStorage(recordingId).set([]);
+    },
+  };
+}
+
+// Export the storage instance for direct use
+export const recordingStore = createRecordingStorage();
@@ -0,0 +1,69 @@
+// Position of an element in CSS pixels, mirrors CoordinateSet in the background script
+export interface RecordedCoordinateSet {
+  topLeft: { x: number; y: number };
+  topRight: { x: number; y: number };
+  bottomLeft: { x: number; y: number };
+  bottomRight: { x: number; y: number };
+  center: { x: number; y: number };
+  width: number;
+  height: number;
+}
+
+export interface RecordedViewportInfo {
+  scrollX: number;
+  scrollY: number;
+  width: number;
+  height: number;
+}
+
+// Serializable snapshot of the element an action interacted with,
+// mirrors DOMHistoryElement in the background script
+export interface RecordedElement {
+  tagName: string;
+  xpath: string;
+  highlightIndex: number | null;
+  entireParentBranchPath: string[];
+  attributes: Record<string, string>;
+  shadowRoot: boolean;
+  cssSelector: string | null;
+  // Coordinates are only known for some elements, e.g. the element hit by a click by coordinates,
+  // and missing in recordings saved before they were recorded
+  pageCoordinates?: RecordedCoordinateSet | null;
+  viewportCoordinates?: RecordedCoordinateSet | null;
+  viewportInfo?: RecordedViewportInfo | null;
+}
+
+export interface RecordedAction {
+  name: string; // Action name, e.g. click_element
+  args: Record<string, unknown>; // Arguments the action was called with
+  element: RecordedElement | null; // Element the action targeted, null for actions without an index or coordinates
+  // Element a drag dropped on, missing for other actions and in recordings saved before it was recorded
+  targetElement?: RecordedElement | null;
+  url: string; // URL of the page when the action was executed
+  step: number; // Step number the action belongs to
+}
+
+export interface RecordingMetadata {
+  id: string; // Same as the task id of the recorded run
+  task: string;
+  createdAt: number; // Unix timestamp in milliseconds
+  actionCount: number;
+}
+
+export interface Recording extends RecordingMetadata {
+  actions: RecordedAction[];
+}
+
+export interface RecordingStorage {
+  // Get metadata of all saved recordings (for efficient listing)
+  getRecordingsMetadata: () => Promise<RecordingMetadata[]>;
+
+  // Get a specific recording with its actions
+  getRecording: (recordingId: string) => Promise<Recording | null>;
+
+  // Save a recording, replacing any existing recording with the same id
+  saveRecording: (recordingId: string, task: string, actions: RecordedAction[]) => Promise<RecordingMetadata>;
+
+  // Delete a recording
+  deleteRecording: (recordingId: string) => Promise<void>;
+}
@@ -0,0 +1,63 @@
+import { StorageEnum } from '../base/enums';
+import { createStorage } from '../base/base';
+import type { BaseStorage } from '../base/types';
+
+// Interface for the rules deciding which navigator actions need the approval of the user
+export interface ApprovalPolicyConfig {
+  enabled: boolean; // Whether matching actions wait for approval
+  actionTypes: string[]; // Names of actions that always need approval, e.g. upload_file
+  urlPatterns: string[]; // Actions on matching pages, except reading and scrolling, and navigations to them need approval, * matches any characters
+  elementKeywords: string[]; // Interactions with elements whose text or attributes contain one of these words need approval
+}
+
+export type ApprovalPolicyStorage = BaseStorage<ApprovalPolicyConfig> & {
+  updatePolicy: (settings: Partial<ApprovalPolicyConfig>) => Promise<void>;
+  getPolicy: () => Promise<ApprovalPolicyConfig>;
+  resetToDefaults: () => Promise<void>;
+};
+
+// Default settings, the keywords cover the usual destructive buttons in English and Japanese
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicyConfig = {
+  enabled: true,
+  actionTypes: [],
+  urlPatterns: [],
+  elementKeywords: [
+    'submit',
+    'pay',
+    'purchase',
+    'buy',
+    'place order',
+    'checkout',
+    'delete',
+    'remove',
+    'send',
+    '送信',
+    '購入',
+    '注文',
+    '支払',
+    '削除',
+  ],
+};
+
+const storage = createStorage<ApprovalPolicyConfig>('approval-policy-settings', DEFAULT_APPROVAL_POLICY, {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+export const approvalPolicyStore: ApprovalPolicyStorage = {
+  ...storage,
+  async updatePolicy(settings: Partial<ApprovalPolicyConfig>) {
+    const currentSettings = (await storage.get()) || DEFAULT_APPROVAL_POLICY;
+    await storage.set({
+      ...currentSettings,
+      ...settings,
+    });
+  },
+  async getPolicy() {
+    const settings = await storage.get();
+    return settings || DEFAULT_APPROVAL_POLICY;
+  },
+  async resetToDefaults() {
+    await storage.set(DEFAULT_APPROVAL_POLICY);
+  },
+};
@@ -5,6 +5,12 @@ import type { BaseStorage } from '../base/types';
 // Theme mode options
 export type ThemeMode = 'light' | 'dark' | 'system';
 
+// Where the tasks run:
+// 'none' - the tabs of the current window, starting from the active tab
+// 'tabGroup' - a tab group labeled with the task, in the current window
+// 'window' - a separate window
+export type TaskIsolation = 'none' | 'tabGroup' | 'window';
+
 // Interface for general settings configuration
 export interface GeneralSettingsConfig {
   maxSteps: number;
@@ -15,6 +21,10 @@ export interface GeneralSettingsConfig {
   planningInterval: number;
   displayHighlights: boolean;
   minWaitPageLoad: number;
+  traceScreenshots: boolean; // Add a screenshot of every step to the execution trace
+  incrementalState: boolean; // Only send the changes of the page to the navigator after the first step on it
+  taskIsolation: TaskIsolation;
+  closeTaskTabs: boolean; // Close the tab group or window of a task when it finishes instead of collapsing it
   themeMode: ThemeMode;
   firstTimeUser: boolean;
 }
@@ -37,6 +47,10 @@ export const DEFAULT_GENERAL_SETTINGS: GeneralSettingsConfig = {
   planningInterval: 3,
   displayHighlights: true,
   minWaitPageLoad: 250,
+  traceScreenshots: false,
+  incrementalState: false,
+  taskIsolation: 'none',
+  closeTaskTabs: false,
   themeMode: 'light',
   firstTimeUser: true,
 };
@@ -3,4 +3,6 @@ export * from './llmProviders';
 export * from './agentModels';
 export * from './generalSettings';
 export * from './firewall';
+export * from './approvalPolicy';
 export * from './speechToText';
+export * from './pageRepresentation';
@@ -66,6 +66,7 @@ export function getProviderTypeByProviderId(providerId: string): ProviderTypeEnu
     case ProviderTypeEnum.CentralizedAPI:
     case ProviderTypeEnum.Groq:
     case ProviderTypeEnum.Cerebras:
+    case ProviderTypeEnum.Scripted:
       return providerId;
     default:
       return ProviderTypeEnum.CustomOpenAI;
@@ -98,6 +99,8 @@ export function getDefaultDisplayNameFromProviderId(providerId: string): string
       return 'Groq';
     case ProviderTypeEnum.Cerebras:
       return 'Cerebras';
+    case ProviderTypeEnum.Scripted:
+      return 'Scripted';
     default:
       return providerId; // Use the provider id as display name for custom providers by default
   }
@@ -142,6 +145,15 @@ export function getDefaultProviderConfig(providerId: string): ProviderConfig {
         baseUrl: 'http://localhost:11434',
         createdAt: Date.now(),
       };
+    case ProviderTypeEnum.Scripted:
+      return {
+        apiKey: '', // No API key needed, the responses come from the fixture
+        name: getDefaultDisplayNameFromProviderId(ProviderTypeEnum.Scripted),
+        type: ProviderTypeEnum.Scripted,
+        modelNames: [...llmProviderModelNames[ProviderTypeEnum.Scripted]],
+        baseUrl: '', // URL of the JSON fixture with the responses
+        createdAt: Date.now(),
+      };
     case ProviderTypeEnum.AzureOpenAI:
       return {
         apiKey: '', // User needs to provide API Key
@@ -254,7 +266,8 @@ export const llmProviderStore: LLMProviderStorage = {
     } else if (
       providerType !== ProviderTypeEnum.CustomOpenAI &&
       providerType !== ProviderTypeEnum.Ollama &&
-      providerType !== ProviderTypeEnum.CentralizedAPI
+      providerType !== ProviderTypeEnum.CentralizedAPI &&
+      providerType !== ProviderTypeEnum.Scripted
     ) {
       if (!config.apiKey?.trim()) {
         throw new Error(`API Key is required for ${getDefaultDisplayNameFromProviderId(providerId)}`);
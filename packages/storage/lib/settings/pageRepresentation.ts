@@ -0,0 +1,82 @@
+import { StorageEnum } from '../base/enums';
+import { createStorage } from '../base/base';
+import type { BaseStorage } from '../base/types';
+
+// How the page is described to the navigator:
+// 'dom' - the interactive elements found by buildDomTree with their tags, attributes and text
+// 'accessibility' - the interactive nodes of the accessibility tree with their role, name, state and value
+export type PageRepresentation = 'dom' | 'accessibility';
+
+// Interface for page representation settings configuration
+export interface PageRepresentationConfig {
+  defaultMode: PageRepresentation; // Mode of the pages without a domain setting
+  domainModes: Record<string, PageRepresentation>; // Mode by domain, also applies to the subdomains
+}
+
+/**
+ * Normalizes a domain by trimming whitespace, converting to lowercase and removing the protocol and path
+ * @param domain The domain to normalize
+ * @returns The normalized domain
+ */
+function normalizeDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .split('/')[0];
+}
+
+export type PageRepresentationStorage = BaseStorage<PageRepresentationConfig> & {
+  getConfig: () => Promise<PageRepresentationConfig>;
+  setDefaultMode: (mode: PageRepresentation) => Promise<void>;
+  setDomainMode: (domain: string, mode: PageRepresentation) => Promise<void>;
+  removeDomain: (domain: string) => Promise<void>;
+};
+
+// Default settings
+export const DEFAULT_PAGE_REPRESENTATION_SETTINGS: PageRepresentationConfig = {
+  defaultMode: 'dom',
+  domainModes: {},
+};
+
+const storage = createStorage<PageRepresentationConfig>(
+  'page-representation-settings',
+  DEFAULT_PAGE_REPRESENTATION_SETTINGS,
+  {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  },
+);
+
+export const pageRepresentationStore: PageRepresentationStorage = {
+  ...storage,
+  async getConfig() {
+    const settings = await storage.get();
+    return {
+      ...DEFAULT_PAGE_REPRESENTATION_SETTINGS,
+      ...settings,
+    };
+  },
+  async setDefaultMode(mode: PageRepresentation) {
+    const currentSettings = await this.getConfig();
+    await storage.set({ ...currentSettings, defaultMode: mode });
+  },
+  async setDomainMode(domain: string, mode: PageRepresentation) {
+    const normalizedDomain = normalizeDomain(domain);
+    if (!normalizedDomain) {
+      return;
+    }
+    const currentSettings = await this.getConfig();
+    await storage.set({
+      ...currentSettings,
+      domainModes: { ...currentSettings.domainModes, [normalizedDomain]: mode },
+    });
+  },
+  async removeDomain(domain: string) {
+    const normalizedDomain = normalizeDomain(domain);
+    const currentSettings = await this.getConfig();
+    const domainModes = { ...currentSettings.domainModes };
+    delete domainModes[normalizedDomain];
+    await storage.set({ ...currentSettings, domainModes });
+  },
+};
@@ -69,6 +69,47 @@ export const DEFAULT_TOKEN_COSTS: TokenCost = {
   'cohere/command-r-plus': 2,
 };
 
+// Price of a model in USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices of the providers, used to estimate the cost of a task from the real token usage
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  // OpenAI models
+  'openai/gpt-4.1': { input: 2, output: 8 },
+  'openai/gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'openai/o4-mini': { input: 1.1, output: 4.4 },
+  'openai/gpt-4o': { input: 2.5, output: 10 },
+  'openai/gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai/o3': { input: 2, output: 8 },
+  'openai/o3-mini': { input: 1.1, output: 4.4 },
+
+  // Claude models
+  'anthropic/claude-sonnet-4': { input: 3, output: 15 },
+  'anthropic/claude-3.7-sonnet': { input: 3, output: 15 },
+  'anthropic/claude-3.5-sonnet': { input: 3, output: 15 },
+  'anthropic/claude-3.5-haiku': { input: 0.8, output: 4 },
+  'anthropic/claude-opus-4': { input: 15, output: 75 },
+
+  // Google models
+  'google/gemini-2.5-pro-preview': { input: 1.25, output: 10 },
+  'google/gemini-2.5-flash-preview-05-20': { input: 0.15, output: 0.6 },
+  'google/gemini-2.5-flash-preview-05-20:thinking': { input: 0.15, output: 3.5 },
+  'google/gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'google/gemini-1.5-pro': { input: 1.25, output: 5 },
+  'google/gemini-1.5-flash': { input: 0.075, output: 0.3 },
+
+  // DeepSeek models
+  'deepseek/deepseek-chat': { input: 0.27, output: 1.1 },
+  'deepseek/deepseek-r1': { input: 0.55, output: 2.19 },
+
+  // Other models
+  'x-ai/grok-3-beta': { input: 3, output: 15 },
+  'x-ai/grok-3-mini-beta': { input: 0.3, output: 0.5 },
+};
+
 // Provider type, types before CustomOpenAI are built-in providers, CustomOpenAI is a custom provider
 // For built-in providers, we will create ChatModel instances with its respective LangChain ChatModel classes
 // For custom providers, we will create ChatModel instances with the ChatOpenAI class
@@ -84,6 +125,7 @@ export enum ProviderTypeEnum {
   CentralizedAPI = 'centralized_api', // New centralized API service
   Groq = 'groq',
   Cerebras = 'cerebras',
+  Scripted = 'scripted', // Replays canned responses, for offline testing of the agents
   CustomOpenAI = 'custom_openai',
 }
 
@@ -204,6 +246,8 @@ export const llmProviderModelNames = {
   ],
   [ProviderTypeEnum.Groq]: ['llama-3.3-70b-versatile'],
   [ProviderTypeEnum.Cerebras]: ['llama-3.3-70b'],
+  // The model name selects the responses of the script to replay
+  [ProviderTypeEnum.Scripted]: ['planner', 'navigator', 'validator'],
   // Custom OpenAI providers don't have predefined models as they are user-defined
 };
 
@@ -0,0 +1,99 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { QueuedTask, TaskQueueStorage, TaskRun, TaskSchedule } from './types';
+import { QueuedTaskStatus } from './types';
+
+// Only keep the most recent runs of each task
+const MAX_RUNS_PER_TASK = 20;
+
+const taskQueueStorage = createStorage<QueuedTask[]>('task_queue', [], {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+/**
+ * Creates a storage for the queue of tasks run by the background task manager
+ */
+export function createTaskQueueStorage(): TaskQueueStorage {
+  return {
+    getAllTasks: async (): Promise<QueuedTask[]> => {
+      return await taskQueueStorage.get();
+    },
+
+    getTask: async (taskId: string): Promise<QueuedTask | null> => {
+      const tasks = await taskQueueStorage.get();
+      return tasks.find(task => task.id === taskId) ?? null;
+    },
+
+    addTask: async (task: string, schedule: TaskSchedule | null): Promise<QueuedTask> => {
+      const currentTime = Date.now();
+      const newTask: QueuedTask = {
+        id: crypto.randomUUID(),
+        task,
+        status: schedule ? QueuedTaskStatus.SCHEDULED : QueuedTaskStatus.PENDING,
+        schedule,
+        nextRunAt: null,
+        runs: [],
+        runningTaskId: null,
+        createdAt: currentTime,
+        updatedAt: currentTime,
+      };
+      await taskQueueStorage.set(prevTasks => [...prevTasks, newTask]);
+      return newTask;
+    },
+
+    updateTask: async (
+      taskId: string,
+      update: Partial<Omit<QueuedTask, 'id' | 'createdAt'>>,
+    ): Promise<QueuedTask | null> => {
+      let updatedTask: QueuedTask | null = null;
+      await taskQueueStorage.set(prevTasks =>
+        prevTasks.map(task => {
+          if (task.id !== taskId) return task;
+          updatedTask = { ...task, ...update, updatedAt: Date.now() };
+          return updatedTask;
+        }),
+      );
+      return updatedTask;
+    },
+
+    addRun: async (taskId: string, run: TaskRun): Promise<TaskRun[]> => {
+      let droppedRuns: TaskRun[] = [];
+      await taskQueueStorage.set(prevTasks =>
+        prevTasks.map(task => {
+          if (task.id !== taskId) return task;
+          const runs = [...task.runs, run];
+          droppedRuns = runs.slice(0, -MAX_RUNS_PER_TASK);
+          return { ...task, runs: runs.slice(-MAX_RUNS_PER_TASK), runningTaskId: null, updatedAt: Date.now() };
+        }),
+      );
+      return droppedRuns;
+    },
+
+    removeTask: async (taskId: string): Promise<void> => {
+      await taskQueueStorage.set(prevTasks => prevTasks.filter(task => task.id !== taskId));
+    },
+
+    reorderTasks: async (draggedId: string, targetId: string): Promise<void> => {
+      await taskQueueStorage.set(prevTasks => {
+        const tasksCopy = [...prevTasks];
+        const sourceIndex = tasksCopy.findIndex(task => task.id === draggedId);
+        const targetIndex = tasksCopy.findIndex(task => task.id === targetId);
+
+        // No changes if either index is invalid
+        if (sourceIndex === -1 || targetIndex === -1) {
+          return prevTasks;
+        }
+
+        const [movedTask] = tasksCopy.splice(sourceIndex, 1);
+        tasksCopy.splice(targetIndex, 0, movedTask);
+        return tasksCopy;
+      });
+    },
+
+    subscribe: taskQueueStorage.subscribe,
+  };
+}
+
+// Export the storage instance for direct use
+export const taskQueueStore = createTaskQueueStorage();
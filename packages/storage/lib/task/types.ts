@@ -0,0 +1,64 @@
+export enum QueuedTaskStatus {
+  PENDING = 'pending', // Waiting in the queue to be run
+  SCHEDULED = 'scheduled', // Waiting for its alarm to fire
+  RUNNING = 'running',
+  PAUSED = 'paused',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+export type TaskScheduleType = 'daily' | 'weekdays' | 'weekly';
+
+export interface TaskSchedule {
+  type: TaskScheduleType;
+  hour: number; // 0-23, local time
+  minute: number; // 0-59
+  dayOfWeek?: number; // 0 (Sunday) - 6 (Saturday), only used for weekly schedules
+}
+
+export interface TaskRun {
+  taskId: string; // Task id given to the executor of the run, its trace, dataset, usage, network and download data are stored under it
+  startedAt: number; // Unix timestamp in milliseconds
+  finishedAt: number; // Unix timestamp in milliseconds
+  status: QueuedTaskStatus.COMPLETED | QueuedTaskStatus.FAILED | QueuedTaskStatus.CANCELLED;
+  result: string | null; // Final answer of the agent or the error message
+}
+
+export interface QueuedTask {
+  id: string;
+  task: string;
+  status: QueuedTaskStatus;
+  schedule: TaskSchedule | null; // null for tasks that run only once
+  nextRunAt: number | null; // Unix timestamp in milliseconds, only for scheduled tasks
+  runs: TaskRun[]; // Most recent runs, newest last
+  runningTaskId: string | null; // Task id of the run in progress, null when the task is not running
+  createdAt: number; // Unix timestamp in milliseconds
+  updatedAt: number; // Unix timestamp in milliseconds
+}
+
+export interface TaskQueueStorage {
+  // Get all tasks in queue order
+  getAllTasks: () => Promise<QueuedTask[]>;
+
+  // Get a specific task
+  getTask: (taskId: string) => Promise<QueuedTask | null>;
+
+  // Add a task to the end of the queue
+  addTask: (task: string, schedule: TaskSchedule | null) => Promise<QueuedTask>;
+
+  // Update fields of a task
+  updateTask: (taskId: string, update: Partial<Omit<QueuedTask, 'id' | 'createdAt'>>) => Promise<QueuedTask | null>;
+
+  // Record a finished run of a task, returns the older runs dropped to only keep the most recent ones
+  addRun: (taskId: string, run: TaskRun) => Promise<TaskRun[]>;
+
+  // Remove a task from the queue
+  removeTask: (taskId: string) => Promise<void>;
+
+  // Move a task to the position of another task
+  reorderTasks: (draggedId: string, targetId: string) => Promise<void>;
+
+  // Listen for changes of the queue, e.g. status updates from the background
+  subscribe: (listener: () => void) => () => void;
+}
@@ -5,6 +5,7 @@ import { TokenUsage, DEFAULT_TOKEN_COSTS } from './settings/types';
 // Token usage key for storage
 const TOKEN_USAGE_KEY = 'token_usage';
 const FREE_TIER_LIMIT = 50; // Free users get 50 tokens per month
+const USD_PER_TOKEN = 0.01; // Estimated LLM cost one token pays for
 
 // Initialize default token usage
 function createDefaultTokenUsage(): TokenUsage {
@@ -69,12 +70,30 @@ export class TokenUsageManager {
     return usage.used + cost <= usage.limit;
   }
 
+  /**
+   * Get the tokens a request costs
+   * @param model The model of the request
+   * @param usdCost The estimated cost of the tokens the request used, see calculateCost
+   * @returns At least one token per started USD_PER_TOKEN, the flat cost of the model if the cost is not known
+   */
+  static getRequestTokenCost(model: string, usdCost: number | null): number {
+    if (!usdCost) {
+      return this.getTokenCost(model);
+    }
+    return Math.max(1, Math.ceil(usdCost / USD_PER_TOKEN));
+  }
+
   /**
    * Consume tokens for a request
+   * @param usdCost The estimated cost of the tokens the request used, null if the usage is not known
    */
-  static async consumeTokens(model: string, agentType: string): Promise<{ success: boolean; remaining: number }> {
+  static async consumeTokens(
+    model: string,
+    agentType: string,
+    usdCost: number | null = null,
+  ): Promise<{ success: boolean; remaining: number }> {
     const usage = await this.getTokenUsage();
-    const cost = this.getTokenCost(model);
+    const cost = this.getRequestTokenCost(model, usdCost);
 
     if (usage.used + cost > usage.limit) {
       return { success: false, remaining: usage.limit - usage.used };
@@ -0,0 +1,82 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { TraceBundle, TraceEntry, TraceMetadata, TraceStorage } from './types';
+
+// Bump when the format of the entries changes in a way the viewer has to know about
+const TRACE_BUNDLE_VERSION = 1;
+
+// Key for storing traces metadata
+const TRACES_META_KEY = 'traces_meta';
+
+const tracesMetaStorage = createStorage<TraceMetadata[]>(TRACES_META_KEY, [], {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+// Helper function to create storage for a specific task's trace entries
+// Entries can hold screenshots, so they are not kept in sync across the extension pages
+const getTraceEntriesStorage = (taskId: string) => {
+  return createStorage<TraceEntry[]>(`trace_entries_${taskId}`, [], {
+    storageEnum: StorageEnum.Local,
+  });
+};
+
+/**
+ * Creates a storage for execution traces, everything the agents saw and did during a task
+ */
+export function createTraceStorage(): TraceStorage {
+  return {
+    getTracesMetadata: async (): Promise<TraceMetadata[]> => {
+      return await tracesMetaStorage.get();
+    },
+
+    getTrace: async (taskId: string): Promise<TraceBundle | null> => {
+      const tracesMeta = await tracesMetaStorage.get();
+      const traceMeta = tracesMeta.find(trace => trace.taskId === taskId);
+
+      if (!traceMeta) return null;
+
+      const entries = await getTraceEntriesStorage(taskId).get();
+      return {
+        version: TRACE_BUNDLE_VERSION,
+        metadata: traceMeta,
+        entries,
+      };
+    },
+
+    appendEntries: async (taskId: string, task: string, entries: TraceEntry[]): Promise<TraceMetadata> => {
+      let entryCount = 0;
+      await getTraceEntriesStorage(taskId).set(prevEntries => {
+        const newEntries = [...prevEntries, ...entries];
+        entryCount = newEntries.length;
+        return newEntries;
+      });
+
+      const currentTime = Date.now();
+      const tracesMeta = await tracesMetaStorage.get();
+      const existing = tracesMeta.find(trace => trace.taskId === taskId);
+      const traceMeta: TraceMetadata = {
+        taskId,
+        // keep the initial task when follow-up tasks are appended
+        task: existing?.task ?? task,
+        entryCount,
+        createdAt: existing?.createdAt ?? currentTime,
+        updatedAt: currentTime,
+      };
+
+      await tracesMetaStorage.set(prevTraces => [...prevTraces.filter(trace => trace.taskId !== taskId), traceMeta]);
+
+      return traceMeta;
+    },
+
+    deleteTrace: async (taskId: string): Promise<void> => {
+      await tracesMetaStorage.set(prevTraces => prevTraces.filter(trace => trace.taskId !== taskId));
+      await getTraceEntriesStorage(taskId).set([]);
+    },
+
+    subscribe: tracesMetaStorage.subscribe,
+  };
+}
+
+// Export the storage instance for direct use
+export const traceStore = createTraceStorage();
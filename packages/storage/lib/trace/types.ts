@@ -0,0 +1,93 @@
+// A message sent to or received from an LLM, images are replaced by a placeholder
+export interface TraceMessage {
+  role: string;
+  content: string;
+}
+
+// One interactive element of the selector map
+export interface TraceElement {
+  index: number;
+  tagName: string;
+  text: string;
+}
+
+interface BaseTraceEntry {
+  step: number; // Step of the task the entry was recorded in
+  timestamp: number; // Unix timestamp in milliseconds
+}
+
+// An AgentEvent emitted by the executor or one of the agents
+export interface TraceEventEntry extends BaseTraceEntry {
+  kind: 'event';
+  actor: string;
+  state: string;
+  details: string;
+}
+
+// A call to an LLM with the full prompt and the raw response
+export interface TraceLLMEntry extends BaseTraceEntry {
+  kind: 'llm';
+  agent: string; // planner, navigator or validator
+  model: string;
+  input: TraceMessage[];
+  output: string | null; // Content and tool calls of the response, null if the call failed
+  error: string | null;
+  durationMs: number;
+}
+
+// The browser state the navigator sees at the start of a step
+export interface TraceStateEntry extends BaseTraceEntry {
+  kind: 'state';
+  url: string;
+  title: string;
+  tabs: { id: number; url: string; title: string }[];
+  elementCount: number; // Number of interactive elements in the selector map
+  elements: TraceElement[]; // Summary of the selector map, truncated for large pages
+  pixelsAbove: number;
+  pixelsBelow: number;
+  screenshot: string | null; // Base64 encoded jpeg, only if screenshots are enabled
+}
+
+// Results of the actions taken by the navigator in a step
+export interface TraceActionResultEntry extends BaseTraceEntry {
+  kind: 'action_result';
+  results: {
+    isDone: boolean;
+    extractedContent: string | null;
+    error: string | null;
+  }[];
+}
+
+export type TraceEntry = TraceEventEntry | TraceLLMEntry | TraceStateEntry | TraceActionResultEntry;
+
+export interface TraceMetadata {
+  taskId: string; // Id of the task (chat session) the trace was recorded in
+  task: string; // The initial task
+  entryCount: number;
+  createdAt: number; // Unix timestamp in milliseconds
+  updatedAt: number; // Unix timestamp in milliseconds
+}
+
+// The exported file, also what the trace viewer opens
+export interface TraceBundle {
+  version: number;
+  metadata: TraceMetadata;
+  entries: TraceEntry[];
+}
+
+export interface TraceStorage {
+  // Get metadata of all traces (for efficient listing)
+  getTracesMetadata: () => Promise<TraceMetadata[]>;
+
+  // Get the trace of a task as an exportable bundle
+  getTrace: (taskId: string) => Promise<TraceBundle | null>;
+
+  // Append entries to the trace of a task, creating it if needed
+  appendEntries: (taskId: string, task: string, entries: TraceEntry[]) => Promise<TraceMetadata>;
+
+  // Delete the trace of a task
+  deleteTrace: (taskId: string) => Promise<void>;
+
+  // Listen for changes of the metadata, e.g. entries recorded by the background
+  subscribe: (listener: () => void) => () => void;
+}
@@ -0,0 +1,98 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { LLMUsageRecord, LLMUsageStorage, TaskUsageSummary } from './types';
+
+// Key for storing usage summaries
+const USAGE_SUMMARIES_KEY = 'llm_usage_summaries';
+
+const usageSummariesStorage = createStorage<TaskUsageSummary[]>(USAGE_SUMMARIES_KEY, [], {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+// Helper function to create storage for a specific task's usage records
+const getUsageRecordsStorage = (taskId: string) => {
+  return createStorage<LLMUsageRecord[]>(`llm_usage_records_${taskId}`, [], {
+    storageEnum: StorageEnum.Local,
+    liveUpdate: true,
+  });
+};
+
+/**
+ * Creates a storage for the token usage reported by the LLM providers, per task and per call
+ */
+export function createLLMUsageStorage(): LLMUsageStorage {
+  return {
+    getSummaries: async (): Promise<TaskUsageSummary[]> => {
+      return await usageSummariesStorage.get();
+    },
+
+    getSummary: async (taskId: string): Promise<TaskUsageSummary | null> => {
+      const summaries = await usageSummariesStorage.get();
+      return summaries.find(summary => summary.taskId === taskId) ?? null;
+    },
+
+    getRecords: async (taskId: string): Promise<LLMUsageRecord[]> => {
+      return await getUsageRecordsStorage(taskId).get();
+    },
+
+    addRecord: async (taskId: string, record: LLMUsageRecord): Promise<TaskUsageSummary> => {
+      await getUsageRecordsStorage(taskId).set(prevRecords => [...prevRecords, record]);
+
+      let updatedSummary: TaskUsageSummary = {
+        taskId,
+        inputTokens: 0,
+        outputTokens: 0,
+        totalTokens: 0,
+        cost: 0,
+        callCount: 0,
+        updatedAt: record.timestamp,
+      };
+      await usageSummariesStorage.set(prevSummaries => {
+        const prevSummary = prevSummaries.find(summary => summary.taskId === taskId) ?? updatedSummary;
+        updatedSummary = {
+          ...prevSummary,
+          inputTokens: prevSummary.inputTokens + record.inputTokens,
+          outputTokens: prevSummary.outputTokens + record.outputTokens,
+          totalTokens: prevSummary.totalTokens + record.totalTokens,
+          cost: prevSummary.cost + record.cost,
+          callCount: prevSummary.callCount + 1,
+          updatedAt: record.timestamp,
+        };
+        return [...prevSummaries.filter(summary => summary.taskId !== taskId), updatedSummary];
+      });
+      return updatedSummary;
+    },
+
+    addStateTokensSaved: async (taskId: string, tokens: number): Promise<void> => {
+      const now = Date.now();
+      await usageSummariesStorage.set(prevSummaries => {
+        const prevSummary = prevSummaries.find(summary => summary.taskId === taskId) ?? {
+          taskId,
+          inputTokens: 0,
+          outputTokens: 0,
+          totalTokens: 0,
+          cost: 0,
+          callCount: 0,
+          updatedAt: now,
+        };
+        const updatedSummary = {
+          ...prevSummary,
+          stateTokensSaved: (prevSummary.stateTokensSaved ?? 0) + tokens,
+          updatedAt: now,
+        };
+        return [...prevSummaries.filter(summary => summary.taskId !== taskId), updatedSummary];
+      });
+    },
+
+    deleteUsage: async (taskId: string): Promise<void> => {
+      await usageSummariesStorage.set(prevSummaries => prevSummaries.filter(summary => summary.taskId !== taskId));
+      await getUsageRecordsStorage(taskId).set([]);
+    },
+
+    subscribe: usageSummariesStorage.subscribe,
+  };
+}
+
+// Export the storage instance for direct use
+export const llmUsageStore = createLLMUsageStorage();
@@ -0,0 +1,26 @@
+import { DEFAULT_MODEL_PRICES, type ModelPrice } from '../settings/types';
+
+/**
+ * Get the price of a model, model names without the provider prefix are matched too
+ * @param model The model name, e.g. 'openai/gpt-4.1' or 'gpt-4.1'
+ * @returns The price per million tokens, null if unknown
+ */
+export function getModelPrice(model: string): ModelPrice | null {
+  if (DEFAULT_MODEL_PRICES[model]) {
+    return DEFAULT_MODEL_PRICES[model];
+  }
+  const key = Object.keys(DEFAULT_MODEL_PRICES).find(name => name.split('/').pop() === model);
+  return key ? DEFAULT_MODEL_PRICES[key] : null;
+}
+
+/**
+ * Estimate the cost of an LLM call from its token usage
+ * @returns The cost in USD, 0 if the price of the model is unknown
+ */
+export function calculateCost(model: string, inputTokens: number, outputTokens: number): number {
+  const price = getModelPrice(model);
+  if (!price) {
+    return 0;
+  }
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
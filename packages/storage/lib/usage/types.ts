@@ -0,0 +1,46 @@
+// Tokens used by one LLM call, as reported by the provider
+export interface LLMUsageRecord {
+  agent: string; // planner, navigator or validator
+  model: string;
+  step: number; // Step of the task the call was made in
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number; // Estimated cost in USD, 0 if the price of the model is unknown
+  timestamp: number; // Unix timestamp in milliseconds
+}
+
+// Accumulated usage of all LLM calls of a task
+export interface TaskUsageSummary {
+  taskId: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number; // Estimated cost in USD
+  callCount: number;
+  stateTokensSaved?: number; // Estimated input tokens saved by sending the changes of the page instead of its full state
+  updatedAt: number; // Unix timestamp in milliseconds
+}
+
+export interface LLMUsageStorage {
+  // Get the usage summaries of all tasks (for efficient listing)
+  getSummaries: () => Promise<TaskUsageSummary[]>;
+
+  // Get the usage summary of a task
+  getSummary: (taskId: string) => Promise<TaskUsageSummary | null>;
+
+  // Get the usage of every LLM call of a task
+  getRecords: (taskId: string) => Promise<LLMUsageRecord[]>;
+
+  // Record the usage of an LLM call of a task
+  addRecord: (taskId: string, record: LLMUsageRecord) => Promise<TaskUsageSummary>;
+
+  // Add the estimated input tokens saved by sending the changes of a page instead of the full page
+  addStateTokensSaved: (taskId: string, tokens: number) => Promise<void>;
+
+  // Delete the usage of a task
+  deleteUsage: (taskId: string) => Promise<void>;
+
+  // Listen for changes of the summaries, e.g. calls recorded by the background
+  subscribe: (listener: () => void) => () => void;
+}
@@ -0,0 +1,58 @@
+// A secret entry as it is persisted, the value is only available encrypted
+export interface VaultEntry {
+  id: string;
+  name: string; // Placeholder name the agent uses to refer to the secret
+  domains: string[]; // Domains the secret may be typed into, subdomains included
+  iv: string; // Base64 encoded AES-GCM initialization vector
+  ciphertext: string; // Base64 encoded encrypted value
+  createdAt: number; // Unix timestamp in milliseconds
+  updatedAt: number; // Unix timestamp in milliseconds
+}
+
+// Entry without the encrypted value, safe to show in the UI
+export type VaultEntryMetadata = Omit<VaultEntry, 'iv' | 'ciphertext'>;
+
+// A decrypted secret, only handed to the executor while the vault is unlocked
+export interface VaultCredential {
+  name: string;
+  value: string;
+  domains: string[];
+}
+
+export interface VaultData {
+  salt: string | null; // Base64 encoded PBKDF2 salt, null until a passphrase is set
+  verifier: { iv: string; ciphertext: string } | null; // Known value encrypted with the key to check the passphrase
+  entries: VaultEntry[];
+}
+
+export interface CredentialVaultStorage {
+  // Whether a passphrase has been set
+  isInitialized: () => Promise<boolean>;
+
+  // Whether the key is available in the current browser session
+  isUnlocked: () => Promise<boolean>;
+
+  // Unlock the vault, the first passphrase ever used becomes the passphrase of the vault
+  unlock: (passphrase: string) => Promise<void>;
+
+  // Forget the key until the vault is unlocked again
+  lock: () => Promise<void>;
+
+  // Get all entries without their values
+  getEntries: () => Promise<VaultEntryMetadata[]>;
+
+  // Add a new entry, or replace the value and domains of an existing one
+  setEntry: (name: string, value: string, domains: string[], id?: string) => Promise<VaultEntryMetadata>;
+
+  // Remove an entry
+  removeEntry: (id: string) => Promise<void>;
+
+  // Decrypt all entries, null if the vault is locked
+  getCredentials: () => Promise<VaultCredential[] | null>;
+
+  // Delete all entries and the passphrase
+  reset: () => Promise<void>;
+
+  // Listen for changes of the entries
+  subscribe: (listener: () => void) => () => void;
+}
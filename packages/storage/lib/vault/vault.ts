@@ -0,0 +1,216 @@
+import { createStorage } from '../base/base';
+import { StorageEnum } from '../base/enums';
+import type { CredentialVaultStorage, VaultCredential, VaultData, VaultEntry, VaultEntryMetadata } from './types';
+
+const PBKDF2_ITERATIONS = 310000;
+const VERIFIER_TEXT = 'credential-vault';
+const ENTRY_NAME_PATTERN = /^[A-Za-z0-9_]+$/;
+
+const DEFAULT_VAULT_DATA: VaultData = {
+  salt: null,
+  verifier: null,
+  entries: [],
+};
+
+const vaultStorage = createStorage<VaultData>('credential_vault', DEFAULT_VAULT_DATA, {
+  storageEnum: StorageEnum.Local,
+  liveUpdate: true,
+});
+
+// The derived key only lives in session storage, so the vault is locked again when the browser is closed
+const vaultKeyStorage = createStorage<string | null>('credential_vault_key', null, {
+  storageEnum: StorageEnum.Session,
+  liveUpdate: true,
+});
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+/**
+ * Normalizes a domain by trimming whitespace, converting to lowercase and removing the scheme and path
+ * @param domain The domain to normalize
+ * @returns The normalized domain
+ */
+function normalizeDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .split('/')[0];
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+async function encrypt(key: CryptoKey, plaintext: string): Promise<{ iv: string; ciphertext: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+}
+
+async function decrypt(key: CryptoKey, data: { iv: string; ciphertext: string }): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(data.iv) },
+    key,
+    fromBase64(data.ciphertext),
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+async function getSessionKey(): Promise<CryptoKey | null> {
+  const rawKey = await vaultKeyStorage.get();
+  if (!rawKey) {
+    return null;
+  }
+  return crypto.subtle.importKey('raw', fromBase64(rawKey), 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+function toMetadata(entry: VaultEntry): VaultEntryMetadata {
+  return {
+    id: entry.id,
+    name: entry.name,
+    domains: entry.domains,
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt,
+  };
+}
+
+/**
+ * Creates a storage for secrets the agent may type into web pages.
+ * Values are encrypted with a key derived from a passphrase, the agent only ever sees the entry names.
+ */
+export function createCredentialVaultStorage(): CredentialVaultStorage {
+  return {
+    isInitialized: async (): Promise<boolean> => {
+      const data = await vaultStorage.get();
+      return data.salt !== null;
+    },
+
+    isUnlocked: async (): Promise<boolean> => {
+      return (await vaultKeyStorage.get()) !== null;
+    },
+
+    unlock: async (passphrase: string): Promise<void> => {
+      if (!passphrase) {
+        throw new Error('Passphrase must not be empty');
+      }
+
+      const data = await vaultStorage.get();
+      if (!data.salt || !data.verifier) {
+        // first use, the passphrase becomes the passphrase of the vault
+        const salt = crypto.getRandomValues(new Uint8Array(16));
+        const key = await deriveKey(passphrase, salt);
+        const verifier = await encrypt(key, VERIFIER_TEXT);
+        await vaultStorage.set({ salt: toBase64(salt), verifier, entries: [] });
+        await vaultKeyStorage.set(toBase64(new Uint8Array(await crypto.subtle.exportKey('raw', key))));
+        return;
+      }
+
+      const key = await deriveKey(passphrase, fromBase64(data.salt));
+      try {
+        await decrypt(key, data.verifier);
+      } catch {
+        throw new Error('Wrong passphrase');
+      }
+      await vaultKeyStorage.set(toBase64(new Uint8Array(await crypto.subtle.exportKey('raw', key))));
+    },
+
+    lock: async (): Promise<void> => {
+      await vaultKeyStorage.set(null);
+    },
+
+    getEntries: async (): Promise<VaultEntryMetadata[]> => {
+      const data = await vaultStorage.get();
+      return data.entries.map(toMetadata);
+    },
+
+    setEntry: async (name: string, value: string, domains: string[], id?: string): Promise<VaultEntryMetadata> => {
+      const key = await getSessionKey();
+      if (!key) {
+        throw new Error('Vault is locked');
+      }
+      if (!ENTRY_NAME_PATTERN.test(name)) {
+        throw new Error('Name may only contain letters, digits and underscores');
+      }
+      const normalizedDomains = [...new Set(domains.map(normalizeDomain).filter(Boolean))];
+      if (normalizedDomains.length === 0) {
+        throw new Error('At least one domain is required');
+      }
+
+      const data = await vaultStorage.get();
+      if (data.entries.some(entry => entry.name === name && entry.id !== id)) {
+        throw new Error(`An entry named ${name} already exists`);
+      }
+
+      const currentTime = Date.now();
+      const existing = id ? data.entries.find(entry => entry.id === id) : undefined;
+      const entry: VaultEntry = {
+        id: existing?.id ?? crypto.randomUUID(),
+        name,
+        domains: normalizedDomains,
+        ...(await encrypt(key, value)),
+        createdAt: existing?.createdAt ?? currentTime,
+        updatedAt: currentTime,
+      };
+
+      await vaultStorage.set(prevData => ({
+        ...prevData,
+        entries: existing
+          ? prevData.entries.map(prevEntry => (prevEntry.id === entry.id ? entry : prevEntry))
+          : [...prevData.entries, entry],
+      }));
+      return toMetadata(entry);
+    },
+
+    removeEntry: async (id: string): Promise<void> => {
+      await vaultStorage.set(prevData => ({
+        ...prevData,
+        entries: prevData.entries.filter(entry => entry.id !== id),
+      }));
+    },
+
+    getCredentials: async (): Promise<VaultCredential[] | null> => {
+      const key = await getSessionKey();
+      if (!key) {
+        return null;
+      }
+      const data = await vaultStorage.get();
+      return Promise.all(
+        data.entries.map(async entry => ({
+          name: entry.name,
+          value: await decrypt(key, entry),
+          domains: entry.domains,
+        })),
+      );
+    },
+
+    reset: async (): Promise<void> => {
+      await vaultKeyStorage.set(null);
+      await vaultStorage.set(DEFAULT_VAULT_DATA);
+    },
+
+    subscribe: vaultStorage.subscribe,
+  };
+}
+
+// Export the storage instance for direct use
+export const credentialVaultStore = createCredentialVaultStorage();
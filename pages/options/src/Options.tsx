@@ -8,9 +8,24 @@ import { GeneralSettings } from './components/GeneralSettings';
 import { ModelSettings } from './components/ModelSettings';
 import { FirewallSettings } from './components/FirewallSettings';
 import { TokenSettings } from './components/TokenSettings';
+import { VaultSettings } from './components/VaultSettings';
+import { SiteKnowledgeSettings } from './components/SiteKnowledgeSettings';
+import { ApprovalSettings } from './components/ApprovalSettings';
+import { PageRepresentationSettings } from './components/PageRepresentationSettings';
+import { TraceViewer } from './components/TraceViewer';
 import UsageGuide from './components/UsageGuide';
 
-type TabTypes = 'general' | 'models' | 'tokens' | 'firewall' | 'guide';
+type TabTypes =
+  | 'general'
+  | 'models'
+  | 'tokens'
+  | 'firewall'
+  | 'approval'
+  | 'vault'
+  | 'knowledge'
+  | 'representation'
+  | 'trace'
+  | 'guide';
 
 const TABS: { id: TabTypes; icon: string; label: string }[] = [
   { id: 'guide', icon: '📖', label: t('usageGuideTab') },
@@ -18,6 +33,11 @@ const TABS: { id: TabTypes; icon: string; label: string }[] = [
   { id: 'models', icon: '📊', label: t('modelsTab') },
   { id: 'tokens', icon: '🎯', label: 'トークン' },
   { id: 'firewall', icon: '🔒', label: t('firewallTab') },
+  { id: 'approval', icon: '✋', label: '承認' },
+  { id: 'vault', icon: '🔑', label: 'ボールト' },
+  { id: 'knowledge', icon: '🧠', label: 'サイトメモ' },
+  { id: 'representation', icon: '🌳', label: 'ページ表現' },
+  { id: 'trace', icon: '🔍', label: 'トレース' },
 ];
 
 const Options = () => {
@@ -81,6 +101,16 @@ const Options = () => {
         return <TokenSettings isDarkMode={isDarkMode} />;
       case 'firewall':
         return <FirewallSettings isDarkMode={isDarkMode} />;
+      case 'approval':
+        return <ApprovalSettings isDarkMode={isDarkMode} />;
+      case 'vault':
+        return <VaultSettings isDarkMode={isDarkMode} />;
+      case 'knowledge':
+        return <SiteKnowledgeSettings isDarkMode={isDarkMode} />;
+      case 'representation':
+        return <PageRepresentationSettings isDarkMode={isDarkMode} />;
+      case 'trace':
+        return <TraceViewer isDarkMode={isDarkMode} />;
       default:
         return null;
     }
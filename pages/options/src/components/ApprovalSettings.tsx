@@ -0,0 +1,200 @@
+import { useState, useEffect, useCallback } from 'react';
+import { approvalPolicyStore, type ApprovalPolicyConfig } from '@extension/storage';
+import { Button } from '@extension/ui';
+
+interface ApprovalSettingsProps {
+  isDarkMode: boolean;
+}
+
+type PolicyListKey = 'actionTypes' | 'urlPatterns' | 'elementKeywords';
+
+const POLICY_LISTS: { key: PolicyListKey; title: string; description: string; placeholder: string }[] = [
+  {
+    key: 'elementKeywords',
+    title: '要素のキーワード',
+    description:
+      'テキストや属性にこれらの語を含む要素のクリック、選択、ドラッグ＆ドロップと、その要素やフォームへのキー送信は承認が必要です。',
+    placeholder: '例: delete, 購入',
+  },
+  {
+    key: 'urlPatterns',
+    title: 'URLパターン',
+    description:
+      '一致するページでの操作（読み取りとスクロールを除く）と、一致するページへの移動は承認が必要です。* は任意の文字列に一致します。',
+    placeholder: '例: shop.example.com/checkout*',
+  },
+  {
+    key: 'actionTypes',
+    title: 'アクション',
+    description: 'これらのアクションは対象に関係なく常に承認が必要です。',
+    placeholder: '例: upload_file, send_keys',
+  },
+];
+
+export const ApprovalSettings = ({ isDarkMode }: ApprovalSettingsProps) => {
+  const [policy, setPolicy] = useState<ApprovalPolicyConfig | null>(null);
+  const [newValues, setNewValues] = useState<Record<PolicyListKey, string>>({
+    actionTypes: '',
+    urlPatterns: '',
+    elementKeywords: '',
+  });
+
+  const loadPolicy = useCallback(async () => {
+    setPolicy(await approvalPolicyStore.getPolicy());
+  }, []);
+
+  useEffect(() => {
+    loadPolicy();
+  }, [loadPolicy]);
+
+  const handleToggle = async () => {
+    if (!policy) return;
+    await approvalPolicyStore.updatePolicy({ enabled: !policy.enabled });
+    await loadPolicy();
+  };
+
+  const handleAdd = async (key: PolicyListKey) => {
+    if (!policy) return;
+    const value = newValues[key].trim();
+    if (!value || policy[key].includes(value)) return;
+    await approvalPolicyStore.updatePolicy({ [key]: [...policy[key], value] });
+    setNewValues(prev => ({ ...prev, [key]: '' }));
+    await loadPolicy();
+  };
+
+  const handleRemove = async (key: PolicyListKey, value: string) => {
+    if (!policy) return;
+    await approvalPolicyStore.updatePolicy({ [key]: policy[key].filter(item => item !== value) });
+    await loadPolicy();
+  };
+
+  const handleReset = async () => {
+    await approvalPolicyStore.resetToDefaults();
+    await loadPolicy();
+  };
+
+  if (!policy) return null;
+
+  return (
+    <section className="space-y-6">
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-gray-50'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          操作の承認ポリシー
+        </h2>
+
+        <div
+          className={`my-6 rounded-lg border p-4 ${isDarkMode ? 'border-slate-700 bg-slate-700' : 'border-gray-200 bg-gray-100'}`}>
+          <div className="flex items-center justify-between">
+            <label
+              htmlFor="toggle-approval-policy"
+              className={`text-base font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+              危険な操作の前に承認を求める
+            </label>
+            <div className="relative inline-block w-12 select-none">
+              <input
+                type="checkbox"
+                checked={policy.enabled}
+                onChange={handleToggle}
+                className="sr-only"
+                id="toggle-approval-policy"
+              />
+              <label
+                htmlFor="toggle-approval-policy"
+                className={`block h-6 cursor-pointer overflow-hidden rounded-full ${
+                  policy.enabled ? 'bg-blue-500' : isDarkMode ? 'bg-gray-600' : 'bg-gray-300'
+                }`}>
+                <span className="sr-only">Toggle approval policy</span>
+                <span
+                  className={`block size-6 rounded-full bg-white shadow transition-transform ${
+                    policy.enabled ? 'translate-x-6' : 'translate-x-0'
+                  }`}
+                />
+              </label>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-8">
+          {POLICY_LISTS.map(list => (
+            <div key={list.key}>
+              <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                {list.title}
+              </h3>
+              <p className={`mb-2 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{list.description}</p>
+              <div className="mb-2 flex space-x-2">
+                <input
+                  type="text"
+                  value={newValues[list.key]}
+                  onChange={e => setNewValues(prev => ({ ...prev, [list.key]: e.target.value }))}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') {
+                      handleAdd(list.key);
+                    }
+                  }}
+                  placeholder={list.placeholder}
+                  className={`flex-1 rounded-md border px-3 py-2 text-sm ${
+                    isDarkMode ? 'border-gray-600 bg-slate-700 text-white' : 'border-gray-300 bg-white text-gray-700'
+                  }`}
+                />
+                <Button
+                  onClick={() => handleAdd(list.key)}
+                  className={`px-4 py-2 text-sm ${
+                    isDarkMode
+                      ? 'bg-green-600 text-white hover:bg-green-700'
+                      : 'bg-green-500 text-white hover:bg-green-600'
+                  }`}>
+                  追加
+                </Button>
+              </div>
+              {policy[list.key].length > 0 ? (
+                <ul className="flex flex-wrap gap-2">
+                  {policy[list.key].map(value => (
+                    <li
+                      key={value}
+                      className={`flex items-center gap-1 rounded-full px-3 py-1 text-sm ${
+                        isDarkMode ? 'bg-slate-700 text-gray-200' : 'bg-gray-100 text-gray-700'
+                      }`}>
+                      <span className="font-mono">{value}</span>
+                      <button
+                        type="button"
+                        onClick={() => handleRemove(list.key, value)}
+                        className={isDarkMode ? 'text-gray-400 hover:text-red-400' : 'text-gray-500 hover:text-red-600'}
+                        aria-label={`Remove ${value}`}>
+                        ×
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>未設定</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-6 flex justify-end">
+          <button
+            type="button"
+            onClick={handleReset}
+            className={`text-xs underline ${isDarkMode ? 'text-gray-400 hover:text-red-400' : 'text-gray-500 hover:text-red-600'}`}>
+            初期設定に戻す
+          </button>
+        </div>
+      </div>
+
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-gray-50'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>承認の仕組み</h2>
+        <ul className={`list-disc space-y-2 pl-5 text-left text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+          <li>
+            ルールに一致した操作は実行前に停止し、サイドパネルに対象の要素を枠で囲んだスクリーンショットが表示されます。
+          </li>
+          <li>承認すると操作が実行され、拒否するとエージェントは別の方法でタスクを続けます。</li>
+          <li>英数字のキーワードは単語単位で照合されます（例: pay は display に一致しません）。</li>
+          <li>キューやスケジュールから実行されるタスクでは、承認が必要な操作は自動的に拒否されます。</li>
+        </ul>
+      </div>
+    </section>
+  );
+};
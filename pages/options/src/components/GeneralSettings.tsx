@@ -4,6 +4,7 @@ import {
   generalSettingsStore,
   DEFAULT_GENERAL_SETTINGS,
   type ThemeMode,
+  type TaskIsolation,
 } from '@extension/storage';
 import { t } from '@extension/i18n';
 
@@ -196,6 +197,104 @@ export const GeneralSettings = ({ isDarkMode = false }: GeneralSettingsProps) =>
             </div>
           </div>
 
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                {t('traceScreenshots')}
+              </h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {t('addScreenshotsToTrace')}
+              </p>
+            </div>
+            <div className="relative inline-flex cursor-pointer items-center">
+              <input
+                id="traceScreenshots"
+                type="checkbox"
+                checked={settings.traceScreenshots}
+                onChange={e => updateSetting('traceScreenshots', e.target.checked)}
+                className="peer sr-only"
+              />
+              <label
+                htmlFor="traceScreenshots"
+                className={`peer h-6 w-11 rounded-full ${isDarkMode ? 'bg-slate-600' : 'bg-gray-200'} after:absolute after:left-[2px] after:top-[2px] after:size-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:bg-blue-600 peer-checked:after:translate-x-full peer-checked:after:border-white peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300`}>
+                <span className="sr-only">{t('traceScreenshots')}</span>
+              </label>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                {t('incrementalState')}
+              </h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {t('sendOnlyPageChanges')}
+              </p>
+            </div>
+            <div className="relative inline-flex cursor-pointer items-center">
+              <input
+                id="incrementalState"
+                type="checkbox"
+                checked={settings.incrementalState}
+                onChange={e => updateSetting('incrementalState', e.target.checked)}
+                className="peer sr-only"
+              />
+              <label
+                htmlFor="incrementalState"
+                className={`peer h-6 w-11 rounded-full ${isDarkMode ? 'bg-slate-600' : 'bg-gray-200'} after:absolute after:left-[2px] after:top-[2px] after:size-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:bg-blue-600 peer-checked:after:translate-x-full peer-checked:after:border-white peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300`}>
+                <span className="sr-only">{t('incrementalState')}</span>
+              </label>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                {t('taskIsolation')}
+              </h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {t('taskIsolationDescription')}
+              </p>
+            </div>
+            <label htmlFor="taskIsolation" className="sr-only">
+              {t('taskIsolation')}
+            </label>
+            <select
+              id="taskIsolation"
+              value={settings.taskIsolation}
+              onChange={e => updateSetting('taskIsolation', e.target.value as TaskIsolation)}
+              className={`rounded-md border ${isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'} px-3 py-2 min-w-[180px]`}>
+              <option value="none">{t('taskIsolationNone')}</option>
+              <option value="tabGroup">{t('taskIsolationTabGroup')}</option>
+              <option value="window">{t('taskIsolationWindow')}</option>
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                {t('closeTaskTabs')}
+              </h3>
+              <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {t('closeTaskTabsDescription')}
+              </p>
+            </div>
+            <div className="relative inline-flex cursor-pointer items-center">
+              <input
+                id="closeTaskTabs"
+                type="checkbox"
+                checked={settings.closeTaskTabs}
+                onChange={e => updateSetting('closeTaskTabs', e.target.checked)}
+                className="peer sr-only"
+              />
+              <label
+                htmlFor="closeTaskTabs"
+                className={`peer h-6 w-11 rounded-full ${isDarkMode ? 'bg-slate-600' : 'bg-gray-200'} after:absolute after:left-[2px] after:top-[2px] after:size-5 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:bg-blue-600 peer-checked:after:translate-x-full peer-checked:after:border-white peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300`}>
+                <span className="sr-only">{t('closeTaskTabs')}</span>
+              </label>
+            </div>
+          </div>
+
           <div className="flex items-center justify-between">
             <div>
               <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
@@ -382,6 +382,8 @@ export const ModelSettings = ({ isDarkMode = false }: ModelSettingsProps) => {
       hasInput = Boolean(config?.baseUrl?.trim()); // Custom needs Base URL, name checked elsewhere
     } else if (providerType === ProviderTypeEnum.Ollama) {
       hasInput = Boolean(config?.baseUrl?.trim()); // Ollama needs Base URL
+    } else if (providerType === ProviderTypeEnum.Scripted) {
+      hasInput = Boolean(config?.baseUrl?.trim()); // Scripted needs the fixture URL
     } else if (providerType === ProviderTypeEnum.AzureOpenAI) {
       // Azure needs API Key, Endpoint, Deployment Names, and API Version
       hasInput =
@@ -416,13 +418,14 @@ export const ModelSettings = ({ isDarkMode = false }: ModelSettingsProps) => {
         return;
       }
 
-      // Check if base URL is required but missing for custom_openai, ollama, azure_openai or openrouter
+      // Check if base URL is required but missing for custom_openai, ollama, azure_openai, openrouter or scripted
       // Note: Groq and Cerebras do not require base URL as they use the default endpoint
       if (
         (providers[provider].type === ProviderTypeEnum.CustomOpenAI ||
           providers[provider].type === ProviderTypeEnum.Ollama ||
           providers[provider].type === ProviderTypeEnum.AzureOpenAI ||
-          providers[provider].type === ProviderTypeEnum.OpenRouter) &&
+          providers[provider].type === ProviderTypeEnum.OpenRouter ||
+          providers[provider].type === ProviderTypeEnum.Scripted) &&
         (!providers[provider].baseUrl || !providers[provider].baseUrl.trim())
       ) {
         alert(`Base URL is required for ${getDefaultDisplayNameFromProviderId(provider)}. Please enter it.`);
@@ -553,7 +556,7 @@ export const ModelSettings = ({ isDarkMode = false }: ModelSettingsProps) => {
     // Store both provider and model name in the format "provider>model"
     setSelectedModels(prev => ({
       ...prev,
-      [agentName]: modelValue,  // Store the full provider>model value
+      [agentName]: modelValue, // Store the full provider>model value
     }));
 
     try {
@@ -713,7 +716,7 @@ export const ModelSettings = ({ isDarkMode = false }: ModelSettingsProps) => {
             id={`${agentName}-model`}
             className={`flex-1 rounded-md border text-sm ${isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'} px-3 py-2`}
             disabled={availableModels.length === 0}
-            value={selectedModels[agentName] || ''}  // Use the stored provider>model value directly
+            value={selectedModels[agentName] || ''} // Use the stored provider>model value directly
             onChange={e => handleModelChange(agentName, e.target.value)}>
             <option key="default" value="">
               {t('chooseModel')}
@@ -1226,7 +1229,8 @@ export const ModelSettings = ({ isDarkMode = false }: ModelSettingsProps) => {
                           {t('apiKey')}
                           {/* Show asterisk only if required */}
                           {providerConfig.type !== ProviderTypeEnum.CustomOpenAI &&
-                          providerConfig.type !== ProviderTypeEnum.Ollama
+                          providerConfig.type !== ProviderTypeEnum.Ollama &&
+                          providerConfig.type !== ProviderTypeEnum.Scripted
                             ? '*'
                             : ''}
                         </label>
@@ -1235,7 +1239,8 @@ export const ModelSettings = ({ isDarkMode = false }: ModelSettingsProps) => {
                             id={`${providerId}-api-key`}
                             type="password"
                             placeholder={
-                              providerConfig.type === ProviderTypeEnum.CentralizedAPI
+                              providerConfig.type === ProviderTypeEnum.CentralizedAPI ||
+                              providerConfig.type === ProviderTypeEnum.Scripted
                                 ? t('apiKeyNotRequired')
                                 : providerConfig.type === ProviderTypeEnum.CustomOpenAI
                                   ? `${providerConfig.name || providerId} ${t('apiKeyOptional')}`
@@ -1303,11 +1308,12 @@ export const ModelSettings = ({ isDarkMode = false }: ModelSettingsProps) => {
                           </div>
                         )}
 
-                      {/* Base URL input (for custom_openai, ollama, azure_openai, and openrouter) */}
+                      {/* Base URL input (for custom_openai, ollama, azure_openai, openrouter and scripted) */}
                       {(providerConfig.type === ProviderTypeEnum.CustomOpenAI ||
                         providerConfig.type === ProviderTypeEnum.Ollama ||
                         providerConfig.type === ProviderTypeEnum.AzureOpenAI ||
-                        providerConfig.type === ProviderTypeEnum.OpenRouter) && (
+                        providerConfig.type === ProviderTypeEnum.OpenRouter ||
+                        providerConfig.type === ProviderTypeEnum.Scripted) && (
                         <div className="flex flex-col">
                           <div className="flex items-center">
                             <label
@@ -1318,7 +1324,8 @@ export const ModelSettings = ({ isDarkMode = false }: ModelSettingsProps) => {
                               {/* Show asterisk only if required */}
                               {/* OpenRouter has a default, so not strictly required, but needed for save button */}
                               {providerConfig.type === ProviderTypeEnum.CustomOpenAI ||
-                              providerConfig.type === ProviderTypeEnum.AzureOpenAI
+                              providerConfig.type === ProviderTypeEnum.AzureOpenAI ||
+                              providerConfig.type === ProviderTypeEnum.Scripted
                                 ? '*'
                                 : ''}
                             </label>
@@ -1333,7 +1340,9 @@ export const ModelSettings = ({ isDarkMode = false }: ModelSettingsProps) => {
                                       'https://YOUR_RESOURCE_NAME.openai.azure.com/'
                                     : providerConfig.type === ProviderTypeEnum.OpenRouter
                                       ? 'OpenRouter Base URL (optional, defaults to https://openrouter.ai/api/v1)'
-                                      : 'Ollama base URL'
+                                      : providerConfig.type === ProviderTypeEnum.Scripted
+                                        ? 'URL of the JSON fixture with the scripted responses'
+                                        : 'Ollama base URL'
                               }
                               value={providerConfig.baseUrl || ''}
                               onChange={e =>
@@ -0,0 +1,169 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  pageRepresentationStore,
+  DEFAULT_PAGE_REPRESENTATION_SETTINGS,
+  type PageRepresentation,
+  type PageRepresentationConfig,
+} from '@extension/storage';
+import { Button } from '@extension/ui';
+
+interface PageRepresentationSettingsProps {
+  isDarkMode: boolean;
+}
+
+const MODE_LABELS: Record<PageRepresentation, string> = {
+  dom: 'DOM (buildDomTree)',
+  accessibility: 'アクセシビリティツリー',
+};
+
+export const PageRepresentationSettings = ({ isDarkMode }: PageRepresentationSettingsProps) => {
+  const [config, setConfig] = useState<PageRepresentationConfig>(DEFAULT_PAGE_REPRESENTATION_SETTINGS);
+  const [newDomain, setNewDomain] = useState('');
+  const [newMode, setNewMode] = useState<PageRepresentation>('accessibility');
+
+  const loadConfig = useCallback(async () => {
+    setConfig(await pageRepresentationStore.getConfig());
+  }, []);
+
+  useEffect(() => {
+    loadConfig();
+    return pageRepresentationStore.subscribe(() => {
+      loadConfig();
+    });
+  }, [loadConfig]);
+
+  const handleDefaultModeChange = async (mode: PageRepresentation) => {
+    await pageRepresentationStore.setDefaultMode(mode);
+    await loadConfig();
+  };
+
+  const handleAddDomain = async () => {
+    if (!newDomain.trim()) return;
+    await pageRepresentationStore.setDomainMode(newDomain, newMode);
+    setNewDomain('');
+    await loadConfig();
+  };
+
+  const handleRemoveDomain = async (domain: string) => {
+    await pageRepresentationStore.removeDomain(domain);
+    await loadConfig();
+  };
+
+  const inputClassName = `rounded-md border px-3 py-2 text-sm ${
+    isDarkMode ? 'border-gray-600 bg-slate-700 text-white' : 'border-gray-300 bg-white text-gray-700'
+  }`;
+  const domains = Object.keys(config.domainModes).sort();
+
+  return (
+    <section className="space-y-6">
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-gray-50'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>ページ表現</h2>
+
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>既定の表現</h3>
+            <p className={`text-sm font-normal ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              ドメインの設定がないページで使う表現
+            </p>
+          </div>
+          <select
+            value={config.defaultMode}
+            onChange={e => handleDefaultModeChange(e.target.value as PageRepresentation)}
+            aria-label="Default page representation"
+            className={inputClassName}>
+            {Object.entries(MODE_LABELS).map(([mode, label]) => (
+              <option key={mode} value={mode}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <h3 className={`mb-2 text-base font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+          ドメインごとの表現
+        </h3>
+        <div className="mb-4 flex gap-2">
+          <input
+            type="text"
+            value={newDomain}
+            onChange={e => setNewDomain(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') {
+                handleAddDomain();
+              }
+            }}
+            placeholder="ドメイン (例: example.com)"
+            className={`flex-1 ${inputClassName}`}
+          />
+          <select
+            value={newMode}
+            onChange={e => setNewMode(e.target.value as PageRepresentation)}
+            aria-label="Page representation of the domain"
+            className={inputClassName}>
+            {Object.entries(MODE_LABELS).map(([mode, label]) => (
+              <option key={mode} value={mode}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <Button
+            onClick={handleAddDomain}
+            disabled={!newDomain.trim()}
+            className={`px-4 py-2 text-sm ${
+              isDarkMode ? 'bg-green-600 text-white hover:bg-green-700' : 'bg-green-500 text-white hover:bg-green-600'
+            }`}>
+            追加
+          </Button>
+        </div>
+
+        {domains.length > 0 ? (
+          <ul className="space-y-2">
+            {domains.map(domain => (
+              <li
+                key={domain}
+                className={`flex items-center justify-between rounded-md p-2 pl-3 text-sm ${
+                  isDarkMode ? 'bg-slate-700 text-gray-200' : 'bg-gray-100 text-gray-700'
+                }`}>
+                <span className="font-mono">{domain}</span>
+                <span className="flex items-center gap-3">
+                  {MODE_LABELS[config.domainModes[domain]]}
+                  <Button
+                    onClick={() => handleRemoveDomain(domain)}
+                    className={`px-2 py-1 text-xs ${
+                      isDarkMode ? 'bg-red-600 text-white hover:bg-red-700' : 'bg-red-500 text-white hover:bg-red-600'
+                    }`}>
+                    削除
+                  </Button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className={`text-center text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            ドメインの設定はまだありません
+          </p>
+        )}
+      </div>
+
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-gray-50'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          ページ表現の違い
+        </h2>
+        <ul className={`list-disc space-y-2 pl-5 text-left text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+          <li>DOMはHTMLのタグ、属性、テキストで要素を伝えます。多くのサイトで安定して動作します。</li>
+          <li>
+            アクセシビリティツリーはロール、名前、状態、値で要素を伝えます。ARIAを多用するアプリで要素の意味が正確になり、トークンも少なくなります。
+          </li>
+          <li>
+            アクセシビリティツリーは最上位のフレームの要素だけを含みます。iframe内を操作するサイトにはDOMを使ってください。
+          </li>
+          <li>
+            ドメインの設定はサブドメインにも適用されます。タスクごとに選んだ表現はすべてのドメインの設定より優先されます。
+          </li>
+        </ul>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,242 @@
+import { useState, useEffect, useCallback } from 'react';
+import { siteKnowledgeStore, type SiteNote } from '@extension/storage';
+import { Button } from '@extension/ui';
+
+interface SiteKnowledgeSettingsProps {
+  isDarkMode: boolean;
+}
+
+export const SiteKnowledgeSettings = ({ isDarkMode }: SiteKnowledgeSettingsProps) => {
+  const [notes, setNotes] = useState<SiteNote[]>([]);
+  const [filter, setFilter] = useState('');
+  const [newDomain, setNewDomain] = useState('');
+  const [newContent, setNewContent] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingContent, setEditingContent] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const loadNotes = useCallback(async () => {
+    setNotes(await siteKnowledgeStore.getAllNotes());
+  }, []);
+
+  useEffect(() => {
+    loadNotes();
+    return siteKnowledgeStore.subscribe(() => {
+      loadNotes();
+    });
+  }, [loadNotes]);
+
+  const handleAddNote = async () => {
+    if (!newDomain.trim() || !newContent.trim()) return;
+    const note = await siteKnowledgeStore.addNote(newDomain, newContent);
+    if (!note) {
+      setError('ドメインまたはメモが無効です');
+      return;
+    }
+    setNewDomain('');
+    setNewContent('');
+    setError(null);
+    await loadNotes();
+  };
+
+  const handleStartEdit = (note: SiteNote) => {
+    setEditingId(note.id);
+    setEditingContent(note.content);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingId) return;
+    try {
+      await siteKnowledgeStore.updateNote(editingId, editingContent);
+      setEditingId(null);
+      setEditingContent('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    await loadNotes();
+  };
+
+  const handleRemoveNote = async (id: string) => {
+    await siteKnowledgeStore.removeNote(id);
+    await loadNotes();
+  };
+
+  const handleClearDomain = async (domain: string) => {
+    if (!window.confirm(`${domain} のメモをすべて削除しますか？`)) return;
+    await siteKnowledgeStore.clearDomain(domain);
+    await loadNotes();
+  };
+
+  const normalizedFilter = filter.trim().toLowerCase();
+  const visibleNotes = normalizedFilter
+    ? notes.filter(
+        note => note.domain.includes(normalizedFilter) || note.content.toLowerCase().includes(normalizedFilter),
+      )
+    : notes;
+  const domains = Array.from(new Set(visibleNotes.map(note => note.domain)));
+
+  const inputClassName = `rounded-md border px-3 py-2 text-sm ${
+    isDarkMode ? 'border-gray-600 bg-slate-700 text-white' : 'border-gray-300 bg-white text-gray-700'
+  }`;
+
+  return (
+    <section className="space-y-6">
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-gray-50'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>サイトメモ</h2>
+
+        {error && <p className="mb-4 text-sm text-red-500">{error}</p>}
+
+        <div className="mb-4 space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            <input
+              type="text"
+              value={newDomain}
+              onChange={e => setNewDomain(e.target.value)}
+              placeholder="ドメイン (例: example.com)"
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              value={newContent}
+              onChange={e => setNewContent(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter') {
+                  handleAddNote();
+                }
+              }}
+              placeholder="メモ"
+              className={`col-span-2 ${inputClassName}`}
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button
+              onClick={handleAddNote}
+              disabled={!newDomain.trim() || !newContent.trim()}
+              className={`px-4 py-2 text-sm ${
+                isDarkMode ? 'bg-green-600 text-white hover:bg-green-700' : 'bg-green-500 text-white hover:bg-green-600'
+              }`}>
+              追加
+            </Button>
+          </div>
+        </div>
+
+        <input
+          type="text"
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+          placeholder="ドメインまたはメモで絞り込み"
+          aria-label="Filter site notes"
+          className={`mb-4 w-full ${inputClassName}`}
+        />
+
+        <div className="max-h-[32rem] space-y-4 overflow-y-auto">
+          {domains.length > 0 ? (
+            domains.map(domain => (
+              <div key={domain}>
+                <div className="mb-2 flex items-center justify-between">
+                  <h3 className={`font-mono text-sm font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+                    {domain}
+                  </h3>
+                  <button
+                    type="button"
+                    onClick={() => handleClearDomain(domain)}
+                    className={`text-xs underline ${isDarkMode ? 'text-gray-400 hover:text-red-400' : 'text-gray-500 hover:text-red-600'}`}>
+                    すべて削除
+                  </button>
+                </div>
+                <ul className="space-y-2">
+                  {visibleNotes
+                    .filter(note => note.domain === domain)
+                    .map(note => (
+                      <li
+                        key={note.id}
+                        className={`flex items-center justify-between gap-2 rounded-md p-2 pr-0 ${
+                          isDarkMode ? 'bg-slate-700' : 'bg-gray-100'
+                        }`}>
+                        {editingId === note.id ? (
+                          <input
+                            type="text"
+                            value={editingContent}
+                            onChange={e => setEditingContent(e.target.value)}
+                            onKeyDown={e => {
+                              if (e.key === 'Enter') {
+                                handleSaveEdit();
+                              } else if (e.key === 'Escape') {
+                                setEditingId(null);
+                              }
+                            }}
+                            aria-label="Edit site note"
+                            className={`flex-1 ${inputClassName}`}
+                          />
+                        ) : (
+                          <div className="flex-1 text-sm">
+                            <p className={isDarkMode ? 'text-gray-200' : 'text-gray-700'}>{note.content}</p>
+                            <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                              {new Date(note.updatedAt).toLocaleString()}
+                              {note.taskId ? ' · エージェントが記録' : ' · 手動で追加'}
+                            </p>
+                          </div>
+                        )}
+                        <div className="flex">
+                          {editingId === note.id ? (
+                            <Button
+                              onClick={handleSaveEdit}
+                              disabled={!editingContent.trim()}
+                              className={`rounded-r-none px-2 py-1 text-xs ${
+                                isDarkMode
+                                  ? 'bg-blue-600 text-white hover:bg-blue-700'
+                                  : 'bg-blue-500 text-white hover:bg-blue-600'
+                              }`}>
+                              保存
+                            </Button>
+                          ) : (
+                            <Button
+                              onClick={() => handleStartEdit(note)}
+                              className={`rounded-r-none px-2 py-1 text-xs ${
+                                isDarkMode
+                                  ? 'bg-slate-600 text-gray-200 hover:bg-slate-500'
+                                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                              }`}>
+                              編集
+                            </Button>
+                          )}
+                          <Button
+                            onClick={() => handleRemoveNote(note.id)}
+                            className={`rounded-l-none px-2 py-1 text-xs ${
+                              isDarkMode
+                                ? 'bg-red-600 text-white hover:bg-red-700'
+                                : 'bg-red-500 text-white hover:bg-red-600'
+                            }`}>
+                            削除
+                          </Button>
+                        </div>
+                      </li>
+                    ))}
+                </ul>
+              </div>
+            ))
+          ) : (
+            <p className={`text-center text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {notes.length > 0 ? '一致するメモはありません' : 'サイトメモはまだありません'}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-gray-50'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          サイトメモの仕組み
+        </h2>
+        <ul className={`list-disc space-y-2 pl-5 text-left text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+          <li>タスクの完了時に、エージェントがサイトの操作のコツを短いメモとして記録します。</li>
+          <li>同じドメインとそのサブドメインのページでは、メモがプランナーとナビゲーターに渡されます。</li>
+          <li>1つのドメインに保存されるメモは最大20件で、古いものから削除されます。</li>
+          <li>誤ったメモはエージェントの判断を誤らせるため、見つけたら編集または削除してください。</li>
+        </ul>
+      </div>
+    </section>
+  );
+};
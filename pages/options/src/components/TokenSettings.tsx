@@ -146,6 +146,9 @@ export function TokenSettings({ isDarkMode = false }: TokenSettingsProps) {
 
         {showTokenCosts && (
           <div className="space-y-3">
+            <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+              料金表に価格があるモデルは、実際の使用量の推定料金に応じて約$0.01ごとに1トークンを消費します。以下は使用量や料金が不明な場合の1回あたりのコストです。
+            </p>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {Object.entries(DEFAULT_TOKEN_COSTS)
                 .sort(([, a], [, b]) => b - a)
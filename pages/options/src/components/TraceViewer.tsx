@@ -0,0 +1,235 @@
+import { useState, useEffect, useMemo } from 'react';
+import { traceStore, type TraceBundle, type TraceEntry, type TraceMetadata } from '@extension/storage';
+import { Button } from '@extension/ui';
+
+interface TraceViewerProps {
+  isDarkMode: boolean;
+}
+
+const parseTraceBundle = (text: string): TraceBundle => {
+  const bundle = JSON.parse(text) as TraceBundle;
+  if (!bundle || typeof bundle !== 'object' || !bundle.metadata || !Array.isArray(bundle.entries)) {
+    throw new Error('トレースファイルの形式が正しくありません');
+  }
+  return bundle;
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+export const TraceViewer = ({ isDarkMode }: TraceViewerProps) => {
+  const [storedTraces, setStoredTraces] = useState<TraceMetadata[]>([]);
+  const [bundle, setBundle] = useState<TraceBundle | null>(null);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadTraces = async () => {
+      const traces = await traceStore.getTracesMetadata();
+      setStoredTraces(traces.sort((a, b) => b.createdAt - a.createdAt));
+    };
+    loadTraces();
+    return traceStore.subscribe(() => {
+      loadTraces();
+    });
+  }, []);
+
+  // Entries grouped by step, in the order they were recorded
+  const steps = useMemo(() => {
+    const groups = new Map<number, TraceEntry[]>();
+    for (const entry of bundle?.entries ?? []) {
+      groups.set(entry.step, [...(groups.get(entry.step) ?? []), entry]);
+    }
+    return Array.from(groups.entries()).sort(([a], [b]) => a - b);
+  }, [bundle]);
+
+  const openBundle = (newBundle: TraceBundle) => {
+    setBundle(newBundle);
+    setStepIndex(0);
+    setError(null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      openBundle(parseTraceBundle(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleOpenStoredTrace = async (taskId: string) => {
+    const trace = await traceStore.getTrace(taskId);
+    if (trace) {
+      openBundle(trace);
+    }
+  };
+
+  const cardClassName = `rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-gray-50'} p-6 text-left shadow-sm`;
+  const mutedTextClassName = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const preClassName = `mt-1 max-h-80 overflow-auto whitespace-pre-wrap break-words rounded p-2 font-mono text-xs ${
+    isDarkMode ? 'bg-slate-900 text-gray-300' : 'bg-white text-gray-700'
+  }`;
+  const navButtonClassName = `px-3 py-1 text-sm ${
+    isDarkMode ? 'bg-slate-700 text-gray-200 hover:bg-slate-600' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+  }`;
+
+  const renderEntry = (entry: TraceEntry, index: number) => {
+    const header = (label: string) => (
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-semibold">{label}</span>
+        <span className={mutedTextClassName}>{formatTime(entry.timestamp)}</span>
+      </div>
+    );
+
+    switch (entry.kind) {
+      case 'event':
+        return (
+          <div key={index} className="text-sm">
+            {header(`イベント: ${entry.actor} / ${entry.state}`)}
+            <p className={`text-sm ${entry.state.endsWith('fail') ? 'text-red-500' : ''}`}>{entry.details}</p>
+          </div>
+        );
+      case 'llm':
+        return (
+          <div key={index} className="text-sm">
+            {header(`LLM呼び出し: ${entry.agent} (${entry.model}, ${(entry.durationMs / 1000).toFixed(1)}秒)`)}
+            <details>
+              <summary className="cursor-pointer text-xs">プロンプト ({entry.input.length} メッセージ)</summary>
+              {entry.input.map((message, messageIndex) => (
+                <pre key={messageIndex} className={preClassName}>
+                  [{message.role}] {message.content}
+                </pre>
+              ))}
+            </details>
+            {entry.error ? (
+              <pre className={`${preClassName} text-red-500`}>{entry.error}</pre>
+            ) : (
+              <pre className={preClassName}>{entry.output}</pre>
+            )}
+          </div>
+        );
+      case 'state':
+        return (
+          <div key={index} className="text-sm">
+            {header('ブラウザの状態')}
+            <p className="break-all">
+              {entry.title} — {entry.url}
+            </p>
+            <p className={`text-xs ${mutedTextClassName}`}>
+              操作可能な要素: {entry.elementCount} · タブ: {entry.tabs.length} · 上: {entry.pixelsAbove}px · 下:{' '}
+              {entry.pixelsBelow}px
+            </p>
+            {entry.screenshot && (
+              <img
+                src={`data:image/jpeg;base64,${entry.screenshot}`}
+                alt={`Screenshot of step ${entry.step}`}
+                className="mt-2 max-w-full rounded border"
+              />
+            )}
+            <details>
+              <summary className="cursor-pointer text-xs">要素一覧</summary>
+              <pre className={preClassName}>
+                {entry.elements.map(element => `[${element.index}] <${element.tagName}> ${element.text}`).join('\n')}
+              </pre>
+            </details>
+          </div>
+        );
+      case 'action_result':
+        return (
+          <div key={index} className="text-sm">
+            {header('アクションの結果')}
+            <ul className="list-disc pl-5">
+              {entry.results.map((result, resultIndex) => (
+                <li key={resultIndex} className={result.error ? 'text-red-500' : ''}>
+                  {result.error ?? result.extractedContent ?? (result.isDone ? '完了' : '成功')}
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const currentStep = steps[stepIndex];
+
+  return (
+    <section className="space-y-6">
+      <div className={cardClassName}>
+        <h2 className={`mb-4 text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          トレースビューア
+        </h2>
+        <p className={`mb-4 text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+          サイドパネルの履歴からエクスポートしたトレースを開いて、ステップごとに確認できます。
+        </p>
+        <div className="flex items-center space-x-2">
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            aria-label="Open trace file"
+            className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}
+          />
+          {storedTraces.length > 0 && (
+            <select
+              value=""
+              onChange={e => handleOpenStoredTrace(e.target.value)}
+              aria-label="Open recorded trace"
+              className={`rounded-md border px-3 py-2 text-sm ${
+                isDarkMode ? 'border-gray-600 bg-slate-700 text-white' : 'border-gray-300 bg-white text-gray-700'
+              }`}>
+              <option value="" disabled>
+                保存済みのトレースを開く
+              </option>
+              {storedTraces.map(trace => (
+                <option key={trace.taskId} value={trace.taskId}>
+                  {new Date(trace.createdAt).toLocaleString()} — {trace.task.slice(0, 50)}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        {error && <p className="mt-2 text-sm text-red-500">{error}</p>}
+      </div>
+
+      {bundle && (
+        <div className={cardClassName}>
+          <h3 className={`text-base font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+            {bundle.metadata.task}
+          </h3>
+          <p className={`mb-4 text-xs ${mutedTextClassName}`}>
+            {new Date(bundle.metadata.createdAt).toLocaleString()} · {bundle.entries.length} エントリ
+          </p>
+
+          {currentStep ? (
+            <>
+              <div className="mb-4 flex items-center justify-between">
+                <Button
+                  onClick={() => setStepIndex(stepIndex - 1)}
+                  disabled={stepIndex === 0}
+                  className={navButtonClassName}>
+                  前のステップ
+                </Button>
+                <span className="text-sm">
+                  ステップ {currentStep[0] + 1} ({stepIndex + 1} / {steps.length})
+                </span>
+                <Button
+                  onClick={() => setStepIndex(stepIndex + 1)}
+                  disabled={stepIndex >= steps.length - 1}
+                  className={navButtonClassName}>
+                  次のステップ
+                </Button>
+              </div>
+              <div className="space-y-4">{currentStep[1].map(renderEntry)}</div>
+            </>
+          ) : (
+            <p className={`text-center text-sm ${mutedTextClassName}`}>このトレースにはエントリがありません</p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
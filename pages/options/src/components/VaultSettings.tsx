@@ -0,0 +1,241 @@
+import { useState, useEffect, useCallback } from 'react';
+import { credentialVaultStore, type VaultEntryMetadata } from '@extension/storage';
+import { Button } from '@extension/ui';
+
+interface VaultSettingsProps {
+  isDarkMode: boolean;
+}
+
+export const VaultSettings = ({ isDarkMode }: VaultSettingsProps) => {
+  const [isInitialized, setIsInitialized] = useState(false);
+  const [isUnlocked, setIsUnlocked] = useState(false);
+  const [entries, setEntries] = useState<VaultEntryMetadata[]>([]);
+  const [passphrase, setPassphrase] = useState('');
+  const [newName, setNewName] = useState('');
+  const [newValue, setNewValue] = useState('');
+  const [newDomains, setNewDomains] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const loadVault = useCallback(async () => {
+    setIsInitialized(await credentialVaultStore.isInitialized());
+    setIsUnlocked(await credentialVaultStore.isUnlocked());
+    setEntries(await credentialVaultStore.getEntries());
+  }, []);
+
+  useEffect(() => {
+    loadVault();
+    return credentialVaultStore.subscribe(() => {
+      loadVault();
+    });
+  }, [loadVault]);
+
+  const handleUnlock = async () => {
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    try {
+      await credentialVaultStore.unlock(passphrase);
+      setPassphrase('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsUnlocking(false);
+    }
+    await loadVault();
+  };
+
+  const handleLock = async () => {
+    await credentialVaultStore.lock();
+    await loadVault();
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('保存されているすべてのシークレットとパスフレーズを削除しますか？')) return;
+    await credentialVaultStore.reset();
+    setError(null);
+    await loadVault();
+  };
+
+  const handleAddEntry = async () => {
+    const name = newName.trim();
+    const domains = newDomains.split(',');
+    if (!name || !newValue) return;
+
+    try {
+      await credentialVaultStore.setEntry(name, newValue, domains);
+      setNewName('');
+      setNewValue('');
+      setNewDomains('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    await loadVault();
+  };
+
+  const handleRemoveEntry = async (id: string) => {
+    await credentialVaultStore.removeEntry(id);
+    await loadVault();
+  };
+
+  const inputClassName = `rounded-md border px-3 py-2 text-sm ${
+    isDarkMode ? 'border-gray-600 bg-slate-700 text-white' : 'border-gray-300 bg-white text-gray-700'
+  }`;
+
+  return (
+    <section className="space-y-6">
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-gray-50'} p-6 text-left shadow-sm`}>
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className={`text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+            認証情報ボールト
+          </h2>
+          {isUnlocked && (
+            <Button
+              onClick={handleLock}
+              className={`px-4 py-2 text-sm ${
+                isDarkMode
+                  ? 'bg-slate-700 text-gray-200 hover:bg-slate-600'
+                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}>
+              ロック
+            </Button>
+          )}
+        </div>
+
+        {error && <p className="mb-4 text-sm text-red-500">{error}</p>}
+
+        {!isUnlocked ? (
+          <div className="space-y-2">
+            <p className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+              {isInitialized
+                ? 'パスフレーズを入力してボールトのロックを解除してください。'
+                : '新しいパスフレーズを設定してください。このパスフレーズでシークレットが暗号化されます。'}
+            </p>
+            <div className="flex space-x-2">
+              <input
+                type="password"
+                value={passphrase}
+                onChange={e => setPassphrase(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') {
+                    handleUnlock();
+                  }
+                }}
+                placeholder="パスフレーズ"
+                className={`flex-1 ${inputClassName}`}
+              />
+              <Button
+                onClick={handleUnlock}
+                disabled={!passphrase || isUnlocking}
+                className={`px-4 py-2 text-sm ${
+                  isDarkMode ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-blue-500 text-white hover:bg-blue-600'
+                }`}>
+                {isInitialized ? 'ロック解除' : '設定'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2">
+              <input
+                type="text"
+                value={newName}
+                onChange={e => setNewName(e.target.value)}
+                placeholder="名前 (例: github_password)"
+                className={inputClassName}
+              />
+              <input
+                type="password"
+                value={newValue}
+                onChange={e => setNewValue(e.target.value)}
+                placeholder="値"
+                className={inputClassName}
+              />
+              <input
+                type="text"
+                value={newDomains}
+                onChange={e => setNewDomains(e.target.value)}
+                placeholder="ドメイン (カンマ区切り)"
+                className={inputClassName}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button
+                onClick={handleAddEntry}
+                disabled={!newName.trim() || !newValue}
+                className={`px-4 py-2 text-sm ${
+                  isDarkMode
+                    ? 'bg-green-600 text-white hover:bg-green-700'
+                    : 'bg-green-500 text-white hover:bg-green-600'
+                }`}>
+                追加
+              </Button>
+            </div>
+
+            <div className="max-h-64 overflow-y-auto">
+              {entries.length > 0 ? (
+                <ul className="space-y-2">
+                  {entries.map(entry => (
+                    <li
+                      key={entry.id}
+                      className={`flex items-center justify-between rounded-md p-2 pr-0 ${
+                        isDarkMode ? 'bg-slate-700' : 'bg-gray-100'
+                      }`}>
+                      <div className="text-sm">
+                        <span className={`font-mono ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+                          {`<secret>${entry.name}</secret>`}
+                        </span>
+                        <span className={`ml-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                          {entry.domains.join(', ')}
+                        </span>
+                      </div>
+                      <Button
+                        onClick={() => handleRemoveEntry(entry.id)}
+                        className={`rounded-l-none px-2 py-1 text-xs ${
+                          isDarkMode
+                            ? 'bg-red-600 text-white hover:bg-red-700'
+                            : 'bg-red-500 text-white hover:bg-red-600'
+                        }`}>
+                        削除
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className={`text-center text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  シークレットはまだありません
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {isInitialized && (
+          <div className="mt-6 flex justify-end">
+            <button
+              type="button"
+              onClick={handleReset}
+              className={`text-xs underline ${isDarkMode ? 'text-gray-400 hover:text-red-400' : 'text-gray-500 hover:text-red-600'}`}>
+              ボールトをリセット
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div
+        className={`rounded-lg border ${isDarkMode ? 'border-slate-700 bg-slate-800' : 'border-blue-100 bg-gray-50'} p-6 text-left shadow-sm`}>
+        <h2 className={`mb-4 text-xl font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+          ボールトの仕組み
+        </h2>
+        <ul className={`list-disc space-y-2 pl-5 text-left text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+          <li>シークレットはパスフレーズから生成した鍵で暗号化して保存されます。</li>
+          <li>ロック解除はブラウザを閉じるまで有効です。ロック中はエージェントからシークレットを利用できません。</li>
+          <li>エージェントには名前だけが渡され、値は入力時にのみ置き換えられます。</li>
+          <li>値は登録したドメインとそのサブドメインのページにだけ入力されます。</li>
+        </ul>
+      </div>
+    </section>
+  );
+};
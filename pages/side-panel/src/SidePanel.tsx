@@ -3,20 +3,42 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { FiSettings } from 'react-icons/fi';
 import { PiPlusBold } from 'react-icons/pi';
 import { GrHistory } from 'react-icons/gr';
+import { FaListUl } from 'react-icons/fa';
 import {
   type Message,
   Actors,
   chatHistoryStore,
+  recordingStore,
   agentModelStore,
   generalSettingsStore,
+  executorCheckpointStore,
+  taskQueueStore,
+  datasetStore,
+  taskDownloadStore,
+  taskNetworkStore,
+  llmUsageStore,
+  traceStore,
+  type DatasetMetadata,
+  type TaskUsageSummary,
+  type ExecutorCheckpoint,
+  type QueuedTask,
+  type TaskSchedule,
   type ThemeMode,
+  type PageRepresentation,
 } from '@extension/storage';
 import favoritesStorage, { type FavoritePrompt } from '@extension/storage/lib/prompt/favorites';
 import MessageList from './components/MessageList';
 import ChatInput from './components/ChatInput';
 import ChatHistoryList from './components/ChatHistoryList';
 import BookmarkList from './components/BookmarkList';
+import TaskQueueList from './components/TaskQueueList';
+import DatasetPanel from './components/DatasetPanel';
+import DownloadList from './components/DownloadList';
+import NetworkLog from './components/NetworkLog';
+import PageRepresentationSelect from './components/PageRepresentationSelect';
 import TokenCounter from './components/TokenCounter';
+import UserQuestion from './components/UserQuestion';
+import ActionApproval, { type ApprovalRequest } from './components/ActionApproval';
 import { EventType, type AgentEvent, ExecutionState } from './types/event';
 import { t } from '@extension/i18n';
 import './SidePanel.css';
@@ -35,6 +57,21 @@ const SidePanel = () => {
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
   const [showHistory, setShowHistory] = useState(false);
   const [chatSessions, setChatSessions] = useState<Array<{ id: string; title: string; createdAt: number }>>([]);
+  const [replayableSessionIds, setReplayableSessionIds] = useState<string[]>([]);
+  const [sessionUsage, setSessionUsage] = useState<Record<string, TaskUsageSummary>>({});
+  const [traceSessionIds, setTraceSessionIds] = useState<string[]>([]);
+  const [interruptedTask, setInterruptedTask] = useState<ExecutorCheckpoint | null>(null);
+  const [showTaskQueue, setShowTaskQueue] = useState(false);
+  const [queuedTasks, setQueuedTasks] = useState<QueuedTask[]>([]);
+  const [attachedFilePaths, setAttachedFilePaths] = useState<string[]>([]);
+  // Question asked by the agent with the ask_user action, the task waits for the answer
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  // Action that matched the approval policy, the task waits until it is approved or rejected
+  const [pendingApproval, setPendingApproval] = useState<ApprovalRequest | null>(null);
+  const [extractionSchemaText, setExtractionSchemaText] = useState('');
+  // Page representation chosen for the next new task, null follows the settings of each domain
+  const [pageRepresentation, setPageRepresentation] = useState<PageRepresentation | null>(null);
+  const [datasets, setDatasets] = useState<DatasetMetadata[]>([]);
   const [isFollowUpMode, setIsFollowUpMode] = useState(false);
   const [isHistoricalSession, setIsHistoricalSession] = useState(false);
   const [isDarkMode, setIsDarkMode] = useState(false);
@@ -188,17 +225,23 @@ const SidePanel = () => {
               setIsFollowUpMode(true);
               setInputEnabled(true);
               setShowStopButton(false);
+              setPendingQuestion(null);
+              setPendingApproval(null);
               break;
             case ExecutionState.TASK_FAIL:
               setIsFollowUpMode(true);
               setInputEnabled(true);
               setShowStopButton(false);
+              setPendingQuestion(null);
+              setPendingApproval(null);
               skip = false;
               break;
             case ExecutionState.TASK_CANCEL:
               setIsFollowUpMode(false);
               setInputEnabled(true);
               setShowStopButton(false);
+              setPendingQuestion(null);
+              setPendingApproval(null);
               skip = false;
               break;
             case ExecutionState.TASK_PAUSE:
@@ -225,6 +268,10 @@ const SidePanel = () => {
               break;
             case ExecutionState.STEP_CANCEL:
               break;
+            case ExecutionState.STEP_RETRY:
+              skip = false;
+              displayProgress = true;
+              break;
             default:
               console.error('Invalid step state', state);
               return;
@@ -245,6 +292,14 @@ const SidePanel = () => {
             case ExecutionState.STEP_CANCEL:
               displayProgress = false;
               break;
+            case ExecutionState.STEP_RETRY:
+              skip = false;
+              displayProgress = true;
+              break;
+            case ExecutionState.TASK_ASK_USER:
+              setPendingQuestion(content);
+              skip = false;
+              break;
             case ExecutionState.ACT_START:
               if (content !== 'cache_content') {
                 // skip to display caching content
@@ -257,6 +312,10 @@ const SidePanel = () => {
             case ExecutionState.ACT_FAIL:
               skip = false;
               break;
+            case ExecutionState.ACT_WAIT_APPROVAL:
+              setPendingApproval({ details: content, screenshot: data.screenshot ?? null });
+              skip = false;
+              break;
             default:
               console.error('Invalid action', state);
               return;
@@ -273,6 +332,10 @@ const SidePanel = () => {
             case ExecutionState.STEP_FAIL:
               skip = false;
               break;
+            case ExecutionState.STEP_RETRY:
+              skip = false;
+              displayProgress = true;
+              break;
             default:
               console.error('Invalid validation', state);
               return;
@@ -302,6 +365,20 @@ const SidePanel = () => {
     [appendMessage],
   );
 
+  // Check if a task was interrupted by a restart of the service worker
+  const checkInterruptedTask = useCallback(async () => {
+    try {
+      const checkpoint = await executorCheckpointStore.getInterruptedCheckpoint();
+      setInterruptedTask(checkpoint);
+    } catch (error) {
+      console.error('Failed to load executor checkpoint:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    checkInterruptedTask();
+  }, [checkInterruptedTask]);
+
   // Stop heartbeat and close connection
   const stopConnection = useCallback(() => {
     if (heartbeatIntervalRef.current) {
@@ -367,6 +444,8 @@ const SidePanel = () => {
         }
         setInputEnabled(true);
         setShowStopButton(false);
+        // the service worker may have been terminated while running a task
+        checkInterruptedTask();
       });
 
       // Setup heartbeat interval
@@ -396,7 +475,7 @@ const SidePanel = () => {
       // Clear any references since connection failed
       portRef.current = null;
     }
-  }, [handleTaskState, appendMessage, stopConnection]);
+  }, [handleTaskState, appendMessage, stopConnection, checkInterruptedTask]);
 
   // Add safety check for message sending
   const sendMessage = useCallback(
@@ -526,6 +605,7 @@ const SidePanel = () => {
           task: text,
           taskId: sessionIdRef.current,
           tabId,
+          filePaths: attachedFilePaths,
         });
         console.log('follow_up_task sent', text, tabId, sessionIdRef.current);
       } else {
@@ -535,9 +615,14 @@ const SidePanel = () => {
           task: text,
           taskId: sessionIdRef.current,
           tabId,
+          filePaths: attachedFilePaths,
+          extractionSchema: extractionSchemaText.trim() || null,
+          pageRepresentation,
         });
         console.log('new_task sent', text, tabId, sessionIdRef.current);
       }
+      // the executor keeps the files for follow-up tasks
+      setAttachedFilePaths([]);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : String(err);
       console.error('Task error', errorMessage);
@@ -552,6 +637,47 @@ const SidePanel = () => {
     }
   };
 
+  const handleAnswerQuestion = async (answer: string) => {
+    try {
+      appendMessage({
+        actor: Actors.USER,
+        content: answer,
+        timestamp: Date.now(),
+      });
+      await sendMessage({
+        type: 'answer_question',
+        answer,
+      });
+      setPendingQuestion(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error('answer_question error', errorMessage);
+      appendMessage({
+        actor: Actors.SYSTEM,
+        content: errorMessage,
+        timestamp: Date.now(),
+      });
+    }
+  };
+
+  const handleApproveAction = async (approved: boolean) => {
+    try {
+      await sendMessage({
+        type: 'approve_action',
+        approved,
+      });
+      setPendingApproval(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error('approve_action error', errorMessage);
+      appendMessage({
+        actor: Actors.SYSTEM,
+        content: errorMessage,
+        timestamp: Date.now(),
+      });
+    }
+  };
+
   const handleStopTask = async () => {
     try {
       portRef.current?.postMessage({
@@ -570,6 +696,53 @@ const SidePanel = () => {
     setShowStopButton(false);
   };
 
+  const handleResumeInterruptedTask = async () => {
+    if (!interruptedTask) return;
+    try {
+      // Restore the chat of the interrupted task
+      const session = await chatHistoryStore.getSession(interruptedTask.taskId);
+      setMessages(session?.messages ?? []);
+      setCurrentSessionId(interruptedTask.taskId);
+      sessionIdRef.current = interruptedTask.taskId;
+      setShowHistory(false);
+      setIsHistoricalSession(false);
+      setIsFollowUpMode(false);
+      setInputEnabled(false);
+      setShowStopButton(true);
+      setInterruptedTask(null);
+
+      if (!portRef.current) {
+        setupConnection();
+      }
+
+      await sendMessage({
+        type: 'resume_checkpoint',
+        taskId: interruptedTask.taskId,
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error('resume_checkpoint error', errorMessage);
+      appendMessage({
+        actor: Actors.SYSTEM,
+        content: errorMessage,
+        timestamp: Date.now(),
+      });
+      setInputEnabled(true);
+      setShowStopButton(false);
+      stopConnection();
+    }
+  };
+
+  const handleDiscardInterruptedTask = async () => {
+    if (!interruptedTask) return;
+    try {
+      await executorCheckpointStore.clearCheckpoint(interruptedTask.taskId);
+    } catch (error) {
+      console.error('Failed to discard executor checkpoint:', error);
+    }
+    setInterruptedTask(null);
+  };
+
   const handleNewChat = () => {
     // Clear messages and start a new chat
     setMessages([]);
@@ -579,6 +752,8 @@ const SidePanel = () => {
     setShowStopButton(false);
     setIsFollowUpMode(false);
     setIsHistoricalSession(false);
+    setPendingQuestion(null);
+    setPendingApproval(null);
 
     // Disconnect any existing connection
     stopConnection();
@@ -588,6 +763,12 @@ const SidePanel = () => {
     try {
       const sessions = await chatHistoryStore.getSessionsMetadata();
       setChatSessions(sessions.sort((a, b) => b.createdAt - a.createdAt));
+      const recordings = await recordingStore.getRecordingsMetadata();
+      setReplayableSessionIds(recordings.map(recording => recording.id));
+      const usageSummaries = await llmUsageStore.getSummaries();
+      setSessionUsage(Object.fromEntries(usageSummaries.map(summary => [summary.taskId, summary])));
+      const traces = await traceStore.getTracesMetadata();
+      setTraceSessionIds(traces.map(trace => trace.taskId));
     } catch (error) {
       console.error('Failed to load chat sessions:', error);
     }
@@ -598,8 +779,72 @@ const SidePanel = () => {
     setShowHistory(true);
   };
 
+  // Keep the task queue in sync with status updates from the background
+  useEffect(() => {
+    const loadQueuedTasks = async () => {
+      try {
+        setQueuedTasks(await taskQueueStore.getAllTasks());
+      } catch (error) {
+        console.error('Failed to load task queue:', error);
+      }
+    };
+    loadQueuedTasks();
+    return taskQueueStore.subscribe(loadQueuedTasks);
+  }, []);
+
+  // Keep the datasets in sync with rows extracted by the background
+  useEffect(() => {
+    const loadDatasets = async () => {
+      try {
+        setDatasets(await datasetStore.getDatasetsMetadata());
+      } catch (error) {
+        console.error('Failed to load datasets:', error);
+      }
+    };
+    loadDatasets();
+    return datasetStore.subscribe(loadDatasets);
+  }, []);
+
+  // Send a task queue command to the background
+  const sendQueueCommand = (message: { type: string; [key: string]: unknown }) => {
+    try {
+      if (!portRef.current) {
+        setupConnection();
+      }
+      sendMessage(message);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error(`${message.type} error`, errorMessage);
+    }
+  };
+
+  const handleQueuedTaskAdd = (task: string, schedule: TaskSchedule | null) => {
+    sendQueueCommand({ type: 'queue_add', task, schedule });
+  };
+
+  const handleQueuedTaskPause = (queuedTaskId: string) => {
+    sendQueueCommand({ type: 'queue_pause', queuedTaskId });
+  };
+
+  const handleQueuedTaskResume = (queuedTaskId: string) => {
+    sendQueueCommand({ type: 'queue_resume', queuedTaskId });
+  };
+
+  const handleQueuedTaskCancel = (queuedTaskId: string) => {
+    sendQueueCommand({ type: 'queue_cancel', queuedTaskId });
+  };
+
+  const handleQueuedTaskRemove = (queuedTaskId: string) => {
+    sendQueueCommand({ type: 'queue_remove', queuedTaskId });
+  };
+
+  const handleQueuedTaskReorder = (draggedId: string, targetId: string) => {
+    sendQueueCommand({ type: 'queue_reorder', draggedId, targetId });
+  };
+
   const handleBackToChat = (reset = false) => {
     setShowHistory(false);
+    setShowTaskQueue(false);
     if (reset) {
       setCurrentSessionId(null);
       setMessages([]);
@@ -623,9 +868,75 @@ const SidePanel = () => {
     }
   };
 
+  const handleSessionReplay = async (sessionId: string) => {
+    try {
+      const recording = await recordingStore.getRecording(sessionId);
+      if (!recording) {
+        throw new Error('Recording not found');
+      }
+
+      const tabs = await chrome.tabs.query({ active: true, currentWindow: true });
+      const tabId = tabs[0]?.id;
+      if (!tabId) {
+        throw new Error('No active tab found');
+      }
+
+      setShowHistory(false);
+      setMessages([]);
+      setIsHistoricalSession(false);
+      setIsFollowUpMode(false);
+      setInputEnabled(false);
+      setShowStopButton(true);
+
+      // Replays get their own session, a replay the agent had to complete is recorded as a new run
+      const newSession = await chatHistoryStore.createSession(
+        recording.task.substring(0, 50) + (recording.task.length > 50 ? '...' : ''),
+      );
+      setCurrentSessionId(newSession.id);
+      sessionIdRef.current = newSession.id;
+
+      appendMessage(
+        {
+          actor: Actors.USER,
+          content: recording.task,
+          timestamp: Date.now(),
+        },
+        newSession.id,
+      );
+
+      if (!portRef.current) {
+        setupConnection();
+      }
+
+      await sendMessage({
+        type: 'replay_task',
+        recordingId: recording.id,
+        taskId: newSession.id,
+        tabId,
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error('Replay error', errorMessage);
+      appendMessage({
+        actor: Actors.SYSTEM,
+        content: errorMessage,
+        timestamp: Date.now(),
+      });
+      setInputEnabled(true);
+      setShowStopButton(false);
+      stopConnection();
+    }
+  };
+
   const handleSessionDelete = async (sessionId: string) => {
     try {
       await chatHistoryStore.deleteSession(sessionId);
+      await recordingStore.deleteRecording(sessionId);
+      await datasetStore.deleteDataset(sessionId);
+      await taskDownloadStore.deleteDownloads(sessionId);
+      await taskNetworkStore.deleteRequests(sessionId);
+      await llmUsageStore.deleteUsage(sessionId);
+      await traceStore.deleteTrace(sessionId);
       await loadChatSessions();
       if (sessionId === currentSessionId) {
         setMessages([]);
@@ -636,6 +947,23 @@ const SidePanel = () => {
     }
   };
 
+  const handleSessionExportTrace = async (sessionId: string) => {
+    try {
+      const trace = await traceStore.getTrace(sessionId);
+      if (!trace) return;
+
+      // the bundle can be opened in the trace viewer of the options page
+      const url = URL.createObjectURL(new Blob([JSON.stringify(trace)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `trace-${new Date(trace.metadata.createdAt).toISOString().slice(0, 19).replace(/:/g, '-')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export trace:', error);
+    }
+  };
+
   const handleSessionBookmark = async (sessionId: string) => {
     try {
       const fullSession = await chatHistoryStore.getSession(sessionId);
@@ -938,7 +1266,7 @@ const SidePanel = () => {
         className={`flex h-screen flex-col ${isDarkMode ? 'bg-slate-900' : 'bg-[#ede2c7]'} overflow-hidden border ${isDarkMode ? 'border-sky-800' : 'border-[#d4c4a8]'} rounded-2xl`}>
         <header className="header relative">
           <div className="header-logo">
-            {showHistory ? (
+            {showHistory || showTaskQueue ? (
               <button
                 type="button"
                 onClick={() => handleBackToChat(false)}
@@ -951,7 +1279,7 @@ const SidePanel = () => {
             )}
           </div>
           <div className="header-icons">
-            {!showHistory && (
+            {!showHistory && !showTaskQueue && (
               <>
                 <button
                   type="button"
@@ -971,6 +1299,15 @@ const SidePanel = () => {
                   tabIndex={0}>
                   <GrHistory size={20} />
                 </button>
+                <button
+                  type="button"
+                  onClick={() => setShowTaskQueue(true)}
+                  onKeyDown={e => e.key === 'Enter' && setShowTaskQueue(true)}
+                  className={`header-icon ${isDarkMode ? 'text-sky-400 hover:text-sky-300' : 'text-[#8b7355] hover:text-[#6d5a44]'} cursor-pointer`}
+                  aria-label="Task queue"
+                  tabIndex={0}>
+                  <FaListUl size={18} />
+                </button>
               </>
             )}
 
@@ -985,13 +1322,31 @@ const SidePanel = () => {
             </button>
           </div>
         </header>
-        {showHistory ? (
+        {showTaskQueue ? (
+          <div className="flex-1 overflow-hidden">
+            <TaskQueueList
+              tasks={queuedTasks}
+              onTaskAdd={handleQueuedTaskAdd}
+              onTaskPause={handleQueuedTaskPause}
+              onTaskResume={handleQueuedTaskResume}
+              onTaskCancel={handleQueuedTaskCancel}
+              onTaskRemove={handleQueuedTaskRemove}
+              onTaskReorder={handleQueuedTaskReorder}
+              isDarkMode={isDarkMode}
+            />
+          </div>
+        ) : showHistory ? (
           <div className="flex-1 overflow-hidden">
             <ChatHistoryList
               sessions={chatSessions}
               onSessionSelect={handleSessionSelect}
               onSessionDelete={handleSessionDelete}
               onSessionBookmark={handleSessionBookmark}
+              replayableSessionIds={replayableSessionIds}
+              onSessionReplay={handleSessionReplay}
+              sessionUsage={sessionUsage}
+              traceSessionIds={traceSessionIds}
+              onSessionExportTrace={handleSessionExportTrace}
               visible={true}
               isDarkMode={isDarkMode}
             />
@@ -1063,13 +1418,77 @@ const SidePanel = () => {
               </div>
             )}
 
+            {/* Offer to resume a task interrupted by a restart of the service worker */}
+            {interruptedTask && inputEnabled && (
+              <div
+                className={`m-4 p-4 rounded-lg border ${
+                  isDarkMode
+                    ? 'bg-slate-800/90 border-slate-600 text-gray-100'
+                    : 'bg-white/90 border-[#d4c4a8] text-gray-800'
+                } shadow-sm`}>
+                <h3 className="font-semibold mb-1">タスクが中断されました</h3>
+                <p className={`text-sm mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                  {interruptedTask.tasks[interruptedTask.tasks.length - 1]}
+                </p>
+                <p className={`text-xs mb-3 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  ステップ {interruptedTask.nSteps} まで完了しています。続きから再開しますか？
+                </p>
+                <div className="flex space-x-2">
+                  <button
+                    type="button"
+                    onClick={handleResumeInterruptedTask}
+                    className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                      isDarkMode
+                        ? 'bg-sky-600 text-white hover:bg-sky-700'
+                        : 'bg-[#8b7355] text-white hover:bg-[#6d5a44]'
+                    }`}>
+                    再開する
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleDiscardInterruptedTask}
+                    className={`px-3 py-1 rounded text-sm transition-colors ${
+                      isDarkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
+                    }`}>
+                    破棄
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Extraction schema of a new task and downloads of the extracted rows */}
+            {hasConfiguredModels === true && (
+              <DatasetPanel
+                dataset={datasets.find(dataset => dataset.taskId === currentSessionId) ?? null}
+                schemaText={extractionSchemaText}
+                onSchemaTextChange={setExtractionSchemaText}
+                canEditSchema={messages.length === 0 && !isHistoricalSession}
+                isDarkMode={isDarkMode}
+              />
+            )}
+
+            {/* Page representation of a new task */}
+            {hasConfiguredModels === true && messages.length === 0 && !isHistoricalSession && (
+              <PageRepresentationSelect
+                value={pageRepresentation}
+                onChange={setPageRepresentation}
+                isDarkMode={isDarkMode}
+              />
+            )}
+
+            {/* Files downloaded by the agent during the task */}
+            {hasConfiguredModels === true && <DownloadList taskId={currentSessionId} isDarkMode={isDarkMode} />}
+
+            {/* API calls made by the pages during the task */}
+            {hasConfiguredModels === true && <NetworkLog taskId={currentSessionId} isDarkMode={isDarkMode} />}
+
             {/* Show normal chat interface when models are configured */}
             {hasConfiguredModels === true && (
               <>
                 {messages.length === 0 && (
                   <>
                     <div className="p-2">
-                      <TokenCounter isDarkMode={isDarkMode} />
+                      <TokenCounter isDarkMode={isDarkMode} taskId={currentSessionId} />
                     </div>
                     <div
                       className={`border-t ${isDarkMode ? 'border-sky-900' : 'border-[#d4c4a8]'} mb-2 p-2 shadow-sm backdrop-blur-sm`}>
@@ -1084,6 +1503,8 @@ const SidePanel = () => {
                         setContent={setter => {
                           setInputTextRef.current = setter;
                         }}
+                        filePaths={attachedFilePaths}
+                        onFilePathsChange={setAttachedFilePaths}
                         isDarkMode={isDarkMode}
                       />
                     </div>
@@ -1105,7 +1526,7 @@ const SidePanel = () => {
                   <div
                     className={`scrollbar-gutter-stable flex-1 overflow-x-hidden overflow-y-scroll scroll-smooth ${isDarkMode ? 'bg-slate-900/80' : ''}`}>
                     <div className="p-2 pb-0">
-                      <TokenCounter isDarkMode={isDarkMode} />
+                      <TokenCounter isDarkMode={isDarkMode} taskId={currentSessionId} />
                     </div>
                     <div className="p-2">
                       <MessageList messages={messages} isDarkMode={isDarkMode} />
@@ -1116,6 +1537,20 @@ const SidePanel = () => {
                 {messages.length > 0 && (
                   <div
                     className={`border-t ${isDarkMode ? 'border-sky-900' : 'border-[#d4c4a8]'} p-2 shadow-sm backdrop-blur-sm`}>
+                    {pendingApproval && (
+                      <ActionApproval
+                        request={pendingApproval}
+                        onDecision={handleApproveAction}
+                        isDarkMode={isDarkMode}
+                      />
+                    )}
+                    {pendingQuestion && (
+                      <UserQuestion
+                        question={pendingQuestion}
+                        onAnswer={handleAnswerQuestion}
+                        isDarkMode={isDarkMode}
+                      />
+                    )}
                     <ChatInput
                       onSendMessage={handleSendMessage}
                       onStopTask={handleStopTask}
@@ -1127,6 +1562,8 @@ const SidePanel = () => {
                       setContent={setter => {
                         setInputTextRef.current = setter;
                       }}
+                      filePaths={attachedFilePaths}
+                      onFilePathsChange={setAttachedFilePaths}
                       isDarkMode={isDarkMode}
                     />
                   </div>
@@ -0,0 +1,54 @@
+/* eslint-disable react/prop-types */
+import { FaCheck, FaExclamationTriangle, FaTimes } from 'react-icons/fa';
+
+export interface ApprovalRequest {
+  details: string; // The action, its target and the rule it matched
+  screenshot: string | null; // The page with the target element outlined
+}
+
+interface ActionApprovalProps {
+  request: ApprovalRequest;
+  onDecision: (approved: boolean) => void;
+  isDarkMode?: boolean;
+}
+
+const ActionApproval: React.FC<ActionApprovalProps> = ({ request, onDecision, isDarkMode = false }) => {
+  return (
+    <div
+      className={`mb-2 space-y-2 rounded-lg border p-2 text-sm ${
+        isDarkMode ? 'border-red-800 bg-slate-800 text-gray-200' : 'border-red-300 bg-red-50 text-gray-700'
+      }`}>
+      <p className="flex items-start gap-2">
+        <FaExclamationTriangle className={`mt-0.5 shrink-0 ${isDarkMode ? 'text-red-400' : 'text-red-500'}`} />
+        <span className="whitespace-pre-wrap break-all">{request.details}</span>
+      </p>
+      {request.screenshot && (
+        <img
+          src={`data:image/jpeg;base64,${request.screenshot}`}
+          alt="Element the action targets"
+          className="max-h-64 w-full rounded border object-contain"
+        />
+      )}
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => onDecision(false)}
+          className={`flex items-center gap-1 rounded-md px-3 py-1 transition-colors ${
+            isDarkMode ? 'bg-slate-700 text-gray-200 hover:bg-slate-600' : 'bg-white text-gray-700 hover:bg-gray-100'
+          }`}>
+          <FaTimes size={12} />
+          拒否
+        </button>
+        <button
+          type="button"
+          onClick={() => onDecision(true)}
+          className="flex items-center gap-1 rounded-md bg-red-500 px-3 py-1 text-white transition-colors hover:bg-red-600">
+          <FaCheck size={12} />
+          承認して実行
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ActionApproval;
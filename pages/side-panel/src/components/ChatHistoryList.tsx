@@ -1,6 +1,8 @@
 /* eslint-disable react/prop-types */
-import { FaTrash } from 'react-icons/fa';
+import { FaFileExport, FaPlay, FaTrash } from 'react-icons/fa';
 import { BsBookmark } from 'react-icons/bs';
+import type { TaskUsageSummary } from '@extension/storage';
+import { formatCost, formatTokenCount } from './TokenCounter';
 
 interface ChatSession {
   id: string;
@@ -13,6 +15,14 @@ interface ChatHistoryListProps {
   onSessionSelect: (sessionId: string) => void;
   onSessionDelete: (sessionId: string) => void;
   onSessionBookmark: (sessionId: string) => void;
+  // Sessions with a saved recording can be replayed without calling the LLM
+  replayableSessionIds?: string[];
+  onSessionReplay?: (sessionId: string) => void;
+  // Real token usage of the sessions, keyed by session id
+  sessionUsage?: Record<string, TaskUsageSummary>;
+  // Sessions with a recorded execution trace can be exported for debugging
+  traceSessionIds?: string[];
+  onSessionExportTrace?: (sessionId: string) => void;
   visible: boolean;
   isDarkMode?: boolean;
 }
@@ -22,6 +32,11 @@ const ChatHistoryList: React.FC<ChatHistoryListProps> = ({
   onSessionSelect,
   onSessionDelete,
   onSessionBookmark,
+  replayableSessionIds = [],
+  onSessionReplay,
+  sessionUsage = {},
+  traceSessionIds = [],
+  onSessionExportTrace,
   visible,
   isDarkMode = false,
 }) => {
@@ -54,6 +69,12 @@ const ChatHistoryList: React.FC<ChatHistoryListProps> = ({
                 </h3>
                 <p className={`mt-1 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
                   {formatDate(session.createdAt)}
+                  {sessionUsage[session.id] && (
+                    <span className="ml-2 font-mono">
+                      {formatTokenCount(sessionUsage[session.id].totalTokens)} tokens ·{' '}
+                      {formatCost(sessionUsage[session.id].cost)}
+                    </span>
+                  )}
                 </p>
               </button>
 
@@ -75,6 +96,43 @@ const ChatHistoryList: React.FC<ChatHistoryListProps> = ({
                 </button>
               )}
 
+              {/* Replay button - left of the bookmark button */}
+              {onSessionReplay && replayableSessionIds.includes(session.id) && (
+                <button
+                  onClick={e => {
+                    e.stopPropagation();
+                    onSessionReplay(session.id);
+                  }}
+                  className={`absolute right-9 top-2 rounded p-1 opacity-0 transition-opacity group-hover:opacity-100 ${
+                    isDarkMode
+                      ? 'bg-slate-700 text-green-400 hover:bg-slate-600'
+                      : 'bg-white text-green-600 hover:bg-gray-100'
+                  }`}
+                  aria-label="Replay session"
+                  type="button">
+                  <FaPlay size={14} />
+                </button>
+              )}
+
+              {/* Export trace button - left of the delete button */}
+              {onSessionExportTrace && traceSessionIds.includes(session.id) && (
+                <button
+                  onClick={e => {
+                    e.stopPropagation();
+                    onSessionExportTrace(session.id);
+                  }}
+                  className={`absolute bottom-2 right-9 rounded p-1 opacity-0 transition-opacity group-hover:opacity-100 ${
+                    isDarkMode
+                      ? 'bg-slate-700 text-gray-400 hover:bg-slate-600'
+                      : 'bg-white text-gray-500 hover:bg-gray-100'
+                  }`}
+                  aria-label="Export trace"
+                  title="Export trace"
+                  type="button">
+                  <FaFileExport size={14} />
+                </button>
+              )}
+
               {/* Delete button - bottom right */}
               <button
                 onClick={e => {
@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
-import { FaMicrophone } from 'react-icons/fa';
+import { FaMicrophone, FaPaperclip, FaTimes } from 'react-icons/fa';
 import { AiOutlineLoading3Quarters } from 'react-icons/ai';
 import { t } from '@extension/i18n';
 
@@ -12,6 +12,9 @@ interface ChatInputProps {
   disabled: boolean;
   showStopButton: boolean;
   setContent?: (setter: (text: string) => void) => void;
+  // Absolute paths of local files the agent may upload
+  filePaths?: string[];
+  onFilePathsChange?: (filePaths: string[]) => void;
   isDarkMode?: boolean;
 }
 
@@ -24,9 +27,13 @@ export default function ChatInput({
   disabled,
   showStopButton,
   setContent,
+  filePaths = [],
+  onFilePathsChange,
   isDarkMode = false,
 }: ChatInputProps) {
   const [text, setText] = useState('');
+  const [showFileInput, setShowFileInput] = useState(false);
+  const [newFilePath, setNewFilePath] = useState('');
   const isSendButtonDisabled = useMemo(() => disabled || text.trim() === '', [disabled, text]);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -80,6 +87,16 @@ export default function ChatInput({
     [handleSubmit],
   );
 
+  const handleAddFilePath = () => {
+    const filePath = newFilePath.trim();
+    if (!filePath || !onFilePathsChange) return;
+    if (!filePaths.includes(filePath)) {
+      onFilePathsChange([...filePaths, filePath]);
+    }
+    setNewFilePath('');
+    setShowFileInput(false);
+  };
+
   return (
     <form
       onSubmit={handleSubmit}
@@ -107,11 +124,72 @@ export default function ChatInput({
           aria-label="Message input"
         />
 
+        {(filePaths.length > 0 || showFileInput) && (
+          <div className={`space-y-1 px-2 pt-1 ${isDarkMode ? 'bg-slate-800' : 'bg-white'}`}>
+            {filePaths.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {filePaths.map(filePath => (
+                  <span
+                    key={filePath}
+                    title={filePath}
+                    className={`flex max-w-full items-center gap-1 rounded px-1.5 py-0.5 text-xs ${
+                      isDarkMode ? 'bg-slate-700 text-gray-300' : 'bg-[#8b7355]/20 text-[#6d5a44]'
+                    }`}>
+                    <span className="truncate">{filePath.split(/[\\/]/).pop()}</span>
+                    <button
+                      type="button"
+                      onClick={() => onFilePathsChange?.(filePaths.filter(path => path !== filePath))}
+                      aria-label="Remove file">
+                      <FaTimes className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            {showFileInput && (
+              <input
+                type="text"
+                value={newFilePath}
+                onChange={e => setNewFilePath(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+                    e.preventDefault();
+                    handleAddFilePath();
+                  } else if (e.key === 'Escape') {
+                    setShowFileInput(false);
+                  }
+                }}
+                placeholder="アップロードするファイルの絶対パス (例: /Users/me/resume.pdf)"
+                aria-label="File path input"
+                className={`w-full rounded border px-2 py-1 text-xs focus:outline-none ${
+                  isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-[#d4c4a8] bg-white text-gray-700'
+                }`}
+              />
+            )}
+          </div>
+        )}
+
         <div
           className={`flex items-center justify-between px-2 py-1.5 ${
             disabled ? (isDarkMode ? 'bg-slate-800' : 'bg-gray-100') : isDarkMode ? 'bg-slate-800' : 'bg-white'
           }`}>
           <div className="flex gap-2 text-gray-500">
+            {onFilePathsChange && (
+              <button
+                type="button"
+                onClick={() => setShowFileInput(!showFileInput)}
+                disabled={disabled}
+                aria-label="Attach file"
+                className={`rounded-md p-1.5 transition-colors ${
+                  disabled
+                    ? 'cursor-not-allowed opacity-50'
+                    : isDarkMode
+                      ? 'hover:bg-slate-700 text-gray-400 hover:text-gray-200'
+                      : 'hover:bg-gray-100 text-gray-500 hover:text-gray-700'
+                }`}>
+                <FaPaperclip className="h-4 w-4" />
+              </button>
+            )}
             {onMicClick && (
               <button
                 type="button"
@@ -0,0 +1,142 @@
+/* eslint-disable react/prop-types */
+import { useState } from 'react';
+import { FaDownload, FaTable } from 'react-icons/fa';
+import { datasetStore, type DatasetMetadata, type DatasetRow } from '@extension/storage';
+
+interface DatasetPanelProps {
+  dataset: DatasetMetadata | null; // Dataset of the current session
+  schemaText: string;
+  onSchemaTextChange: (schemaText: string) => void;
+  canEditSchema: boolean; // The schema can only be defined before a new task is started
+  isDarkMode?: boolean;
+}
+
+const SCHEMA_PLACEHOLDER = `{
+  "type": "object",
+  "properties": {
+    "name": { "type": "string" },
+    "price": { "type": "number" }
+  },
+  "required": ["name"]
+}`;
+
+const formatCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: DatasetRow[], schemaColumns: string[]): string => {
+  // columns of the schema first, then any other keys in the order they appear
+  const columns = [...schemaColumns];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+  const lines = [columns.map(formatCsvValue).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(column => formatCsvValue(row[column])).join(','));
+  }
+  return lines.join('\r\n');
+};
+
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const DatasetPanel: React.FC<DatasetPanelProps> = ({
+  dataset,
+  schemaText,
+  onSchemaTextChange,
+  canEditSchema,
+  isDarkMode = false,
+}) => {
+  const [showSchemaEditor, setShowSchemaEditor] = useState(false);
+
+  if (!dataset && !canEditSchema) return null;
+
+  const handleDownload = async (format: 'csv' | 'json') => {
+    if (!dataset) return;
+    try {
+      const fullDataset = await datasetStore.getDataset(dataset.taskId);
+      if (!fullDataset) return;
+
+      const fileName = `dataset-${new Date(fullDataset.updatedAt).toISOString().slice(0, 10)}.${format}`;
+      if (format === 'csv') {
+        const properties = fullDataset.schema.properties;
+        const schemaColumns = properties && typeof properties === 'object' ? Object.keys(properties) : [];
+        // prepend a BOM so that spreadsheet apps detect UTF-8
+        downloadFile(`\uFEFF${toCsv(fullDataset.rows, schemaColumns)}`, fileName, 'text/csv;charset=utf-8');
+      } else {
+        downloadFile(JSON.stringify(fullDataset.rows, null, 2), fileName, 'application/json');
+      }
+    } catch (error) {
+      console.error('Failed to download dataset:', error);
+    }
+  };
+
+  const buttonClassName = `flex items-center gap-1 rounded px-2 py-0.5 text-xs transition-colors ${
+    isDarkMode ? 'bg-slate-700 text-gray-300 hover:bg-slate-600' : 'bg-white text-gray-600 hover:bg-gray-100'
+  }`;
+
+  return (
+    <div
+      className={`mx-2 mb-2 space-y-2 rounded-lg p-2 text-xs ${
+        isDarkMode ? 'bg-slate-800 text-gray-300' : 'bg-white/50 text-gray-600'
+      }`}>
+      <div className="flex items-center justify-between gap-2">
+        {canEditSchema ? (
+          <button
+            type="button"
+            onClick={() => setShowSchemaEditor(!showSchemaEditor)}
+            className={buttonClassName}
+            aria-label="Edit extraction schema">
+            <FaTable size={12} />
+            抽出スキーマ{schemaText.trim() ? ' (設定済み)' : ''}
+          </button>
+        ) : (
+          <span className="flex items-center gap-1">
+            <FaTable size={12} />
+            抽出データ: {dataset?.rowCount ?? 0} 行
+          </span>
+        )}
+        {dataset && (
+          <div className="flex gap-1">
+            <button type="button" onClick={() => handleDownload('csv')} className={buttonClassName}>
+              <FaDownload size={10} />
+              CSV
+            </button>
+            <button type="button" onClick={() => handleDownload('json')} className={buttonClassName}>
+              <FaDownload size={10} />
+              JSON
+            </button>
+          </div>
+        )}
+      </div>
+
+      {canEditSchema && showSchemaEditor && (
+        <div className="space-y-1">
+          <p>収集する1行分のJSONスキーマ。空欄の場合はタスクからエージェントが推測します。</p>
+          <textarea
+            value={schemaText}
+            onChange={e => onSchemaTextChange(e.target.value)}
+            placeholder={SCHEMA_PLACEHOLDER}
+            rows={7}
+            spellCheck={false}
+            className={`w-full resize-y rounded border p-2 font-mono text-xs focus:outline-none ${
+              isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-[#d4c4a8] bg-white text-gray-700'
+            }`}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DatasetPanel;
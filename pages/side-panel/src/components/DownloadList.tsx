@@ -0,0 +1,111 @@
+/* eslint-disable react/prop-types */
+import { useEffect, useState } from 'react';
+import { FaFileDownload, FaFolderOpen } from 'react-icons/fa';
+import { taskDownloadStore, type TaskDownload } from '@extension/storage';
+
+interface DownloadListProps {
+  taskId: string | null; // Show the downloads of this task
+  isDarkMode?: boolean;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const getDisplayName = (download: TaskDownload) => download.filename.split(/[\\/]/).pop() || download.url;
+
+const DownloadList: React.FC<DownloadListProps> = ({ taskId, isDarkMode = false }) => {
+  const [downloads, setDownloads] = useState<TaskDownload[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow the downloads recorded by the background while the task is running
+  useEffect(() => {
+    if (!taskId) {
+      setDownloads([]);
+      return;
+    }
+    const loadDownloads = async () => {
+      try {
+        setDownloads(await taskDownloadStore.getDownloads(taskId));
+      } catch (error) {
+        console.error('Failed to load downloads:', error);
+      }
+    };
+    loadDownloads();
+    return taskDownloadStore.subscribe(loadDownloads);
+  }, [taskId]);
+
+  if (downloads.length === 0) return null;
+
+  const handleOpen = async (download: TaskDownload) => {
+    try {
+      await chrome.downloads.open(download.downloadId);
+      setError(null);
+    } catch (error) {
+      console.error('Failed to open download:', error);
+      setError(`${getDisplayName(download)} を開けませんでした。ファイルが移動または削除された可能性があります`);
+    }
+  };
+
+  const handleShow = (download: TaskDownload) => {
+    chrome.downloads.show(download.downloadId);
+  };
+
+  const stateLabel = (download: TaskDownload) => {
+    if (download.state === 'complete') return formatFileSize(download.fileSize);
+    if (download.state === 'interrupted') return `失敗${download.error ? ` (${download.error})` : ''}`;
+    return 'ダウンロード中…';
+  };
+
+  return (
+    <div
+      className={`mx-2 mb-2 space-y-1 rounded-lg p-2 text-xs ${
+        isDarkMode ? 'bg-slate-800 text-gray-300' : 'bg-white/50 text-gray-600'
+      }`}>
+      <div className="flex items-center gap-1">
+        <FaFileDownload size={12} />
+        ダウンロードしたファイル: {downloads.length} 件
+      </div>
+      <ul className="space-y-1">
+        {downloads.map(download => (
+          <li key={download.downloadId} className="flex items-center justify-between gap-2">
+            {download.state === 'complete' ? (
+              <button
+                type="button"
+                onClick={() => handleOpen(download)}
+                title={download.filename}
+                className={`truncate text-left underline ${
+                  isDarkMode ? 'text-sky-400 hover:text-sky-300' : 'text-sky-700 hover:text-sky-600'
+                }`}>
+                {getDisplayName(download)}
+              </button>
+            ) : (
+              <span className="truncate" title={download.url}>
+                {getDisplayName(download)}
+              </span>
+            )}
+            <span className="flex shrink-0 items-center gap-2">
+              <span className={download.state === 'interrupted' ? 'text-red-500' : ''}>
+                ステップ {download.step + 1} · {stateLabel(download)}
+              </span>
+              {download.state === 'complete' && (
+                <button
+                  type="button"
+                  onClick={() => handleShow(download)}
+                  aria-label="Show in folder"
+                  className={isDarkMode ? 'hover:text-gray-100' : 'hover:text-gray-900'}>
+                  <FaFolderOpen size={12} />
+                </button>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {error && <p className="text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default DownloadList;
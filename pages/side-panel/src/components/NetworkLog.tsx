@@ -0,0 +1,78 @@
+/* eslint-disable react/prop-types */
+import { useEffect, useState } from 'react';
+import { FaChevronDown, FaChevronUp, FaNetworkWired } from 'react-icons/fa';
+import { taskNetworkStore, type TaskNetworkRequest } from '@extension/storage';
+
+interface NetworkLogProps {
+  taskId: string | null; // Show the API calls of this task
+  isDarkMode?: boolean;
+}
+
+const statusLabel = (request: TaskNetworkRequest) => {
+  if (request.error) return `失敗 (${request.error})`;
+  return `${request.status ?? '-'}`;
+};
+
+const NetworkLog: React.FC<NetworkLogProps> = ({ taskId, isDarkMode = false }) => {
+  const [requests, setRequests] = useState<TaskNetworkRequest[]>([]);
+  const [expanded, setExpanded] = useState(false);
+
+  // Follow the API calls recorded by the background while the task is running
+  useEffect(() => {
+    if (!taskId) {
+      setRequests([]);
+      return;
+    }
+    const loadRequests = async () => {
+      try {
+        setRequests(await taskNetworkStore.getRequests(taskId));
+      } catch (error) {
+        console.error('Failed to load network requests:', error);
+      }
+    };
+    loadRequests();
+    return taskNetworkStore.subscribe(loadRequests);
+  }, [taskId]);
+
+  if (requests.length === 0) return null;
+
+  const failedCount = requests.filter(request => request.error || (request.status ?? 0) >= 400).length;
+
+  return (
+    <div
+      className={`mx-2 mb-2 space-y-1 rounded-lg p-2 text-xs ${
+        isDarkMode ? 'bg-slate-800 text-gray-300' : 'bg-white/50 text-gray-600'
+      }`}>
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        aria-expanded={expanded}
+        aria-label="Toggle network log"
+        className="flex w-full items-center justify-between gap-1">
+        <span className="flex items-center gap-1">
+          <FaNetworkWired size={12} />
+          API呼び出し: {requests.length} 件{failedCount > 0 && ` (失敗 ${failedCount} 件)`}
+        </span>
+        {expanded ? <FaChevronUp size={10} /> : <FaChevronDown size={10} />}
+      </button>
+      {expanded && (
+        <ul className="max-h-48 space-y-1 overflow-y-auto">
+          {requests.map(request => (
+            <li key={`${request.requestId}-${request.startedAt}`} className="flex items-center justify-between gap-2">
+              <span className="truncate font-mono" title={request.url}>
+                {request.method} {request.url}
+              </span>
+              <span
+                className={`shrink-0 ${request.error || (request.status ?? 0) >= 400 ? 'text-red-500' : ''}`}
+                title={request.mimeType}>
+                ステップ {request.step + 1} · {statusLabel(request)} · {request.endedAt - request.startedAt} ms
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default NetworkLog;
@@ -0,0 +1,36 @@
+/* eslint-disable react/prop-types */
+import { FaSitemap } from 'react-icons/fa';
+import type { PageRepresentation } from '@extension/storage';
+
+interface PageRepresentationSelectProps {
+  value: PageRepresentation | null; // null follows the settings of each domain
+  onChange: (value: PageRepresentation | null) => void;
+  isDarkMode?: boolean;
+}
+
+const PageRepresentationSelect: React.FC<PageRepresentationSelectProps> = ({ value, onChange, isDarkMode = false }) => {
+  return (
+    <div
+      className={`mx-2 mb-2 flex items-center justify-between gap-2 rounded-lg p-2 text-xs ${
+        isDarkMode ? 'bg-slate-800 text-gray-300' : 'bg-white/50 text-gray-600'
+      }`}>
+      <span className="flex items-center gap-1">
+        <FaSitemap size={12} />
+        ページ表現
+      </span>
+      <select
+        value={value ?? ''}
+        onChange={e => onChange((e.target.value || null) as PageRepresentation | null)}
+        aria-label="Page representation of the task"
+        className={`rounded border px-1 py-0.5 ${
+          isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-gray-300 bg-white text-gray-700'
+        }`}>
+        <option value="">設定に従う</option>
+        <option value="dom">DOM</option>
+        <option value="accessibility">アクセシビリティツリー</option>
+      </select>
+    </div>
+  );
+};
+
+export default PageRepresentationSelect;
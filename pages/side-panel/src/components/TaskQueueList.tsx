@@ -0,0 +1,252 @@
+/* eslint-disable react/prop-types */
+import { useState } from 'react';
+import { FaPause, FaPlay, FaStop, FaTrash } from 'react-icons/fa';
+import { QueuedTaskStatus, type QueuedTask, type TaskSchedule, type TaskScheduleType } from '@extension/storage';
+
+interface TaskQueueListProps {
+  tasks: QueuedTask[];
+  onTaskAdd: (task: string, schedule: TaskSchedule | null) => void;
+  onTaskPause: (taskId: string) => void;
+  onTaskResume: (taskId: string) => void;
+  onTaskCancel: (taskId: string) => void;
+  onTaskRemove: (taskId: string) => void;
+  onTaskReorder: (draggedId: string, targetId: string) => void;
+  isDarkMode?: boolean;
+}
+
+const STATUS_LABELS: Record<QueuedTaskStatus, string> = {
+  [QueuedTaskStatus.PENDING]: '待機中',
+  [QueuedTaskStatus.SCHEDULED]: '予約済み',
+  [QueuedTaskStatus.RUNNING]: '実行中',
+  [QueuedTaskStatus.PAUSED]: '一時停止',
+  [QueuedTaskStatus.COMPLETED]: '完了',
+  [QueuedTaskStatus.FAILED]: '失敗',
+  [QueuedTaskStatus.CANCELLED]: 'キャンセル',
+};
+
+const SCHEDULE_LABELS: Record<TaskScheduleType, string> = {
+  daily: '毎日',
+  weekdays: '平日',
+  weekly: '毎週',
+};
+
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+const formatSchedule = (schedule: TaskSchedule) => {
+  const time = `${String(schedule.hour).padStart(2, '0')}:${String(schedule.minute).padStart(2, '0')}`;
+  if (schedule.type === 'weekly') {
+    return `${SCHEDULE_LABELS.weekly} ${WEEKDAY_LABELS[schedule.dayOfWeek ?? 1]}曜 ${time}`;
+  }
+  return `${SCHEDULE_LABELS[schedule.type]} ${time}`;
+};
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const TaskQueueList: React.FC<TaskQueueListProps> = ({
+  tasks,
+  onTaskAdd,
+  onTaskPause,
+  onTaskResume,
+  onTaskCancel,
+  onTaskRemove,
+  onTaskReorder,
+  isDarkMode = false,
+}) => {
+  const [newTask, setNewTask] = useState('');
+  const [scheduleType, setScheduleType] = useState<TaskScheduleType | 'none'>('none');
+  const [time, setTime] = useState('09:00');
+  const [dayOfWeek, setDayOfWeek] = useState(1);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    if (!newTask.trim()) return;
+
+    let schedule: TaskSchedule | null = null;
+    if (scheduleType !== 'none') {
+      const [hour, minute] = time.split(':').map(Number);
+      schedule = {
+        type: scheduleType,
+        hour,
+        minute,
+        ...(scheduleType === 'weekly' ? { dayOfWeek } : {}),
+      };
+    }
+    onTaskAdd(newTask.trim(), schedule);
+    setNewTask('');
+  };
+
+  // Drag handlers
+  const handleDragStart = (e: React.DragEvent, id: string) => {
+    setDraggedId(id);
+    e.dataTransfer.setData('text/plain', id);
+    e.currentTarget.classList.add('opacity-25');
+  };
+
+  const handleDragEnd = (e: React.DragEvent) => {
+    e.currentTarget.classList.remove('opacity-25');
+    setDraggedId(null);
+  };
+
+  const handleDrop = (e: React.DragEvent, targetId: string) => {
+    e.preventDefault();
+    if (draggedId === null || draggedId === targetId) return;
+    onTaskReorder(draggedId, targetId);
+  };
+
+  const inputClassName = `rounded border px-2 py-1 text-sm ${
+    isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-[#d4c4a8] bg-white text-gray-700'
+  }`;
+  const iconButtonClassName = `rounded p-1 ${
+    isDarkMode ? 'bg-slate-700 text-gray-300 hover:bg-slate-600' : 'bg-white text-gray-600 hover:bg-gray-100'
+  }`;
+
+  return (
+    <div className="h-full overflow-y-auto p-4">
+      <h2 className={`mb-4 text-lg font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>Task Queue</h2>
+
+      {/* Add task form */}
+      <div className={`mb-4 space-y-2 rounded-lg p-3 ${isDarkMode ? 'bg-slate-800' : 'bg-white/50'}`}>
+        <textarea
+          value={newTask}
+          onChange={e => setNewTask(e.target.value)}
+          placeholder="実行するタスクを入力"
+          rows={2}
+          className={`w-full resize-none ${inputClassName}`}
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={scheduleType}
+            onChange={e => setScheduleType(e.target.value as TaskScheduleType | 'none')}
+            className={inputClassName}>
+            <option value="none">今すぐ実行</option>
+            <option value="daily">{SCHEDULE_LABELS.daily}</option>
+            <option value="weekdays">{SCHEDULE_LABELS.weekdays}</option>
+            <option value="weekly">{SCHEDULE_LABELS.weekly}</option>
+          </select>
+          {scheduleType === 'weekly' && (
+            <select value={dayOfWeek} onChange={e => setDayOfWeek(Number(e.target.value))} className={inputClassName}>
+              {WEEKDAY_LABELS.map((label, index) => (
+                <option key={label} value={index}>
+                  {label}曜
+                </option>
+              ))}
+            </select>
+          )}
+          {scheduleType !== 'none' && (
+            <input type="time" value={time} onChange={e => setTime(e.target.value)} className={inputClassName} />
+          )}
+          <button
+            type="button"
+            onClick={handleAdd}
+            disabled={!newTask.trim()}
+            className={`ml-auto rounded px-3 py-1 text-sm font-medium text-white transition-colors disabled:opacity-50 ${
+              isDarkMode ? 'bg-sky-600 hover:bg-sky-700' : 'bg-[#8b7355] hover:bg-[#6d5a44]'
+            }`}>
+            追加
+          </button>
+        </div>
+      </div>
+
+      {tasks.length === 0 ? (
+        <div
+          className={`rounded-lg ${isDarkMode ? 'bg-slate-800 text-gray-400' : 'bg-white/30 text-gray-500'} p-4 text-center backdrop-blur-sm`}>
+          No queued tasks
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {tasks.map(task => {
+            const lastRun = task.runs[task.runs.length - 1];
+            const canPause =
+              task.status === QueuedTaskStatus.PENDING ||
+              task.status === QueuedTaskStatus.SCHEDULED ||
+              task.status === QueuedTaskStatus.RUNNING;
+            const canCancel = canPause || task.status === QueuedTaskStatus.PAUSED;
+
+            return (
+              <div
+                key={task.id}
+                draggable
+                onDragStart={e => handleDragStart(e, task.id)}
+                onDragEnd={handleDragEnd}
+                onDragOver={e => e.preventDefault()}
+                onDrop={e => handleDrop(e, task.id)}
+                className={`rounded-lg p-3 backdrop-blur-sm ${
+                  isDarkMode ? 'bg-slate-800 hover:bg-slate-700' : 'bg-white/50 hover:bg-white/70'
+                }`}>
+                <div className="flex items-start justify-between gap-2">
+                  <h3 className={`text-sm font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-900'}`}>
+                    {task.task}
+                  </h3>
+                  <span
+                    className={`shrink-0 rounded px-1.5 py-0.5 text-xs ${
+                      isDarkMode ? 'bg-slate-700 text-sky-300' : 'bg-[#8b7355]/20 text-[#6d5a44]'
+                    }`}>
+                    {STATUS_LABELS[task.status]}
+                  </span>
+                </div>
+
+                <div className={`mt-1 space-y-0.5 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {task.schedule && <p>{formatSchedule(task.schedule)}</p>}
+                  {task.nextRunAt && task.status === QueuedTaskStatus.SCHEDULED && (
+                    <p>次回: {formatDateTime(task.nextRunAt)}</p>
+                  )}
+                  {lastRun && (
+                    <p className="line-clamp-3" title={lastRun.result ?? undefined}>
+                      前回 ({formatDateTime(lastRun.finishedAt)}, {STATUS_LABELS[lastRun.status]}):{' '}
+                      {lastRun.result ?? '-'}
+                    </p>
+                  )}
+                </div>
+
+                <div className="mt-2 flex justify-end gap-1">
+                  {canPause && (
+                    <button
+                      type="button"
+                      onClick={() => onTaskPause(task.id)}
+                      className={iconButtonClassName}
+                      aria-label="Pause task">
+                      <FaPause size={12} />
+                    </button>
+                  )}
+                  {task.status === QueuedTaskStatus.PAUSED && (
+                    <button
+                      type="button"
+                      onClick={() => onTaskResume(task.id)}
+                      className={iconButtonClassName}
+                      aria-label="Resume task">
+                      <FaPlay size={12} />
+                    </button>
+                  )}
+                  {canCancel && (
+                    <button
+                      type="button"
+                      onClick={() => onTaskCancel(task.id)}
+                      className={iconButtonClassName}
+                      aria-label="Cancel task">
+                      <FaStop size={12} />
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => onTaskRemove(task.id)}
+                    className={iconButtonClassName}
+                    aria-label="Remove task">
+                    <FaTrash size={12} />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskQueueList;
@@ -1,8 +1,9 @@
 import React, { useEffect, useState } from 'react';
-import { TokenUsageManager } from '@extension/storage';
+import { llmUsageStore, TokenUsageManager, type TaskUsageSummary } from '@extension/storage';
 
 interface TokenCounterProps {
   isDarkMode?: boolean;
+  taskId?: string | null; // Show the real usage of this task if provided
 }
 
 interface TokenUsage {
@@ -13,8 +14,14 @@ interface TokenUsage {
   daysUntilReset: number;
 }
 
-export default function TokenCounter({ isDarkMode = false }: TokenCounterProps) {
+export const formatTokenCount = (tokens: number) =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+export const formatCost = (cost: number) => `$${cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+export default function TokenCounter({ isDarkMode = false, taskId = null }: TokenCounterProps) {
   const [usage, setUsage] = useState<TokenUsage | null>(null);
+  const [taskUsage, setTaskUsage] = useState<TaskUsageSummary | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -36,6 +43,23 @@ export default function TokenCounter({ isDarkMode = false }: TokenCounterProps)
     return () => clearInterval(interval);
   }, []);
 
+  // Follow the real usage of the task while it is running
+  useEffect(() => {
+    if (!taskId) {
+      setTaskUsage(null);
+      return;
+    }
+    const loadTaskUsage = async () => {
+      try {
+        setTaskUsage(await llmUsageStore.getSummary(taskId));
+      } catch (error) {
+        console.error('Failed to load task usage:', error);
+      }
+    };
+    loadTaskUsage();
+    return llmUsageStore.subscribe(loadTaskUsage);
+  }, [taskId]);
+
   if (loading) {
     return (
       <div
@@ -91,6 +115,23 @@ export default function TokenCounter({ isDarkMode = false }: TokenCounterProps)
         <span className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>リセットまで: {usage.daysUntilReset}日</span>
       </div>
 
+      {taskUsage && (
+        <div
+          className={`mt-2 flex justify-between items-center border-t pt-2 text-xs ${isDarkMode ? 'border-gray-700 text-gray-400' : 'border-gray-200 text-gray-600'}`}>
+          <span>
+            このタスク: {formatTokenCount(taskUsage.totalTokens)} (入力 {formatTokenCount(taskUsage.inputTokens)} / 出力{' '}
+            {formatTokenCount(taskUsage.outputTokens)})
+          </span>
+          <span className="font-mono">{formatCost(taskUsage.cost)}</span>
+        </div>
+      )}
+
+      {!!taskUsage?.stateTokensSaved && (
+        <div className={`mt-1 text-xs ${isDarkMode ? 'text-green-400' : 'text-green-600'}`}>
+          差分送信による削減: 約{formatTokenCount(taskUsage.stateTokensSaved)} トークン
+        </div>
+      )}
+
       {usage.remaining <= 5 && (
         <div
           className={`mt-2 p-2 rounded text-xs ${isDarkMode ? 'bg-red-900 text-red-200' : 'bg-red-100 text-red-700'}`}>
@@ -127,7 +168,7 @@ export function TokenExplanation({ isDarkMode = false }: { isDarkMode?: boolean
           </h4>
           <p className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>
             トークンは、ユーザーがプロンプトを入力した時ではなく、各エージェントが実行された時に消費されます。
-            例：プランナー実行 → 1トークン消費、ナビゲーター実行 → 1トークン消費、など
+            実際に使われた入力・出力の推定料金に応じて、約$0.01ごとに1トークン（最低1トークン）が消費されます。
           </p>
         </div>
 
@@ -140,7 +181,7 @@ export function TokenExplanation({ isDarkMode = false }: { isDarkMode?: boolean
 
         <div>
           <h4 className={`text-left font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
-            モデル別のトークンコスト
+            料金が不明なモデルのトークンコスト
           </h4>
           <div className={`text-xs space-y-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
             <div>• 高性能モデル（Claude Sonnet 4、GPT-4.1、O3）: 3-6トークン</div>
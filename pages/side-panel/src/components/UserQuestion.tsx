@@ -0,0 +1,61 @@
+/* eslint-disable react/prop-types */
+import { useState } from 'react';
+import { FaQuestionCircle } from 'react-icons/fa';
+
+interface UserQuestionProps {
+  question: string;
+  onAnswer: (answer: string) => void;
+  isDarkMode?: boolean;
+}
+
+const UserQuestion: React.FC<UserQuestionProps> = ({ question, onAnswer, isDarkMode = false }) => {
+  const [answer, setAnswer] = useState('');
+
+  const handleSubmit = () => {
+    const trimmedAnswer = answer.trim();
+    if (!trimmedAnswer) return;
+    onAnswer(trimmedAnswer);
+    setAnswer('');
+  };
+
+  return (
+    <div
+      className={`mb-2 space-y-2 rounded-lg border p-2 text-sm ${
+        isDarkMode ? 'border-amber-700 bg-slate-800 text-gray-200' : 'border-amber-300 bg-amber-50 text-gray-700'
+      }`}>
+      <p className="flex items-start gap-2">
+        <FaQuestionCircle className={`mt-0.5 shrink-0 ${isDarkMode ? 'text-amber-400' : 'text-amber-500'}`} />
+        <span className="whitespace-pre-wrap">{question}</span>
+      </p>
+      <div className="flex gap-2">
+        <textarea
+          value={answer}
+          onChange={e => setAnswer(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+              e.preventDefault();
+              handleSubmit();
+            }
+          }}
+          placeholder="回答を入力..."
+          rows={2}
+          aria-label="Answer to the agent's question"
+          className={`flex-1 resize-none rounded border p-2 text-sm focus:outline-none ${
+            isDarkMode ? 'border-slate-600 bg-slate-700 text-gray-200' : 'border-[#d4c4a8] bg-white text-gray-700'
+          }`}
+        />
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={!answer.trim()}
+          className={`self-end rounded-md px-3 py-1 text-white transition-colors disabled:opacity-50 ${
+            isDarkMode ? 'bg-amber-600 hover:bg-amber-700' : 'bg-amber-500 hover:bg-amber-600'
+          }`}>
+          回答
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UserQuestion;
@@ -29,17 +29,20 @@ export enum ExecutionState {
   TASK_PAUSE = 'task.pause',
   TASK_RESUME = 'task.resume',
   TASK_CANCEL = 'task.cancel',
+  TASK_ASK_USER = 'task.ask_user',
 
   // Step level states
   STEP_START = 'step.start',
   STEP_OK = 'step.ok',
   STEP_FAIL = 'step.fail',
   STEP_CANCEL = 'step.cancel',
+  STEP_RETRY = 'step.retry',
 
   // Action/Tool level states
   ACT_START = 'act.start',
   ACT_OK = 'act.ok',
   ACT_FAIL = 'act.fail',
+  ACT_WAIT_APPROVAL = 'act.wait_approval',
 }
 
 export interface EventData {
@@ -51,6 +54,8 @@ export interface EventData {
   maxSteps: number;
   /** details is the content of the event */
   details: string;
+  /** screenshot is a base64 encoded jpeg attached to the event, e.g. the element of an action to approve */
+  screenshot?: string;
 }
 
 export class AgentEvent {